@@ -1,143 +1,41 @@
 import { useMemo, useState } from "react";
 import { AnimatePresence, motion } from "framer-motion";
-import { ChevronDown } from "lucide-react";
+import { ChevronDown, Crosshair, ListPlus } from "lucide-react";
 import "./AnalysisView.css";
-import type { AnalysisResult } from "./App";
+import {
+  extractInsights,
+  extractMetrics,
+  extractStats,
+  normalizeInsight,
+  type InsightItem,
+  type MetricItem,
+  type StatItem,
+} from "./analysisModel";
+import ExportMenu from "./ExportMenu";
+import type { HistoryAnalysis } from "./HistoryPage";
+import { toOverallScore } from "./scoring";
+import { diffAgainstBaseline, type BaselineDiff } from "./seoAudit";
+import { clearPageHighlights, highlightOnPage } from "./tabs";
+import { TASK_STATUSES, findResolvedTasks, newTask, taskStore, type InsightTask } from "./tasks";
+import { useTasks } from "./useTasks";
 
 type AnalysisViewProps = {
-  analysis: AnalysisResult;
-  onGoBack: () => void;
+  analysis: HistoryAnalysis;
+  /** Omitted in the side panel, where the view has nowhere to go back to. */
+  onGoBack?: () => void;
+  /** True while the result is still streaming in; missing parts render as placeholders. */
+  streaming?: boolean;
 };
 
-type MetricItem = {
-  key: string;
-  label: string;
-  value: number;
-};
-
-type InsightItem = {
-  key: string;
-  title: string;
-  items: string[];
-};
-
-function clampScore(value: number): number {
-  if (Number.isNaN(value)) return 0;
-  return Math.max(0, Math.min(100, Math.round(value)));
-}
-
-function toTitleCase(input: string): string {
-  return input
-    .replace(/_/g, " ")
-    .replace(/\b\w/g, (char) => char.toUpperCase());
-}
-
-function toOverallScore(analysis: AnalysisResult): number {
-  const raw = analysis.score?.value;
-  if (typeof raw !== "number") return 0;
-  if (raw <= 10) return clampScore(raw * 10);
-  return clampScore(raw);
-}
-
-function extractMetrics(analysis: AnalysisResult): MetricItem[] {
-  const source =
-    (analysis.conversion_scores as Record<string, unknown> | undefined) ??
-    ((analysis as { conversionScores?: Record<string, unknown> }).conversionScores ?? undefined);
-
-  if (!source) return [];
-
-  const orderedKeys = [
-    "clarity",
-    "trust",
-    "urgency",
-    "differentiation",
-    "cta_strength",
-  ] as const;
-
-  const metrics: MetricItem[] = [];
-  orderedKeys.forEach((key) => {
-    const value = source[key];
-    if (typeof value !== "number") return;
-    metrics.push({
-      key,
-      label: toTitleCase(key),
-      value: clampScore(value),
-    });
-  });
-  return metrics;
-}
-
-function extractStats(analysis: AnalysisResult): Array<{ key: string; value: string | number }> {
-  const sourceCandidates = [
-    analysis.pricing_analysis,
-    (analysis as { pricingAnalysis?: Record<string, string | number> }).pricingAnalysis,
-    (analysis as { analysis_stats?: Record<string, string | number> }).analysis_stats,
-    (analysis as { analysisStats?: Record<string, string | number> }).analysisStats,
-  ];
-
-  const source = sourceCandidates.find((candidate) => {
-    if (!candidate || typeof candidate !== "object") return false;
-    return Object.keys(candidate).length > 0;
-  });
-
-  if (!source) return [];
-
-  return Object.entries(source)
-    .filter(([, value]) => typeof value === "number" || typeof value === "string")
-    .map(([key, value]) => ({ key: toTitleCase(key), value }));
-}
-
-function extractInsights(analysis: AnalysisResult): InsightItem[] {
-  const source =
-    (analysis.insights as Record<string, string[]> | undefined) ??
-    ((analysis as { insights_data?: Record<string, string[]> }).insights_data ?? undefined);
-
-  const preferredKeys = [
-    "messaging_issues",
-    "funnel_gaps",
-    "tone_fit",
-    "seo_improvements",
-    "quick_fixes",
-  ] as const;
-
-  if (source && typeof source === "object") {
-    const sections: InsightItem[] = [];
-    preferredKeys.forEach((key) => {
-      const items = source[key];
-      if (!Array.isArray(items) || items.length === 0) return;
-      sections.push({
-        key,
-        title: toTitleCase(key),
-        items,
-      });
-    });
-    return sections;
-  }
-
-  if (!analysis.sections?.length) return [];
-
-  return analysis.sections
-    .map((section, index) => {
-      const items = section.insights ?? [];
-      if (!items.length) return null;
-      const title = section.title?.trim() || `Section ${index + 1}`;
-      return {
-        key: section.id ?? `section-${index}`,
-        title,
-        items,
-      };
-    })
-    .filter((item): item is InsightItem => item !== null);
-}
-
-function extractVerdicts(analysis: AnalysisResult): { marketing?: string; strategic?: string } {
-  return {
-    marketing: analysis.marketing_verdict ?? analysis.verdicts?.marketing,
-    strategic: analysis.strategic_verdict ?? analysis.verdicts?.strategic,
-  };
-}
-
-function ExecutiveScore({ score, overview }: { score: number; overview?: string }) {
+export function ExecutiveScore({
+  score,
+  overview,
+  pending = false,
+}: {
+  score: number;
+  overview?: string;
+  pending?: boolean;
+}) {
   const circumference = 2 * Math.PI * 32;
   const strokeOffset = circumference - (score / 100) * circumference;
 
@@ -147,50 +45,52 @@ function ExecutiveScore({ score, overview }: { score: number; overview?: string
         <div className="score-ring-wrap">
           <svg viewBox="0 0 80 80" className="score-ring" aria-hidden>
             <circle cx="40" cy="40" r="32" className="score-ring-track" />
-            <motion.circle
-              cx="40"
-              cy="40"
-              r="32"
-              className="score-ring-progress"
-              strokeDasharray={circumference}
-              initial={{ strokeDashoffset: circumference }}
-              animate={{ strokeDashoffset: strokeOffset }}
-              transition={{ duration: 0.3, ease: "easeOut" }}
-            />
+            {!pending && (
+              <motion.circle
+                cx="40"
+                cy="40"
+                r="32"
+                className="score-ring-progress"
+                strokeDasharray={circumference}
+                initial={{ strokeDashoffset: circumference }}
+                animate={{ strokeDashoffset: strokeOffset }}
+                transition={{ duration: 0.3, ease: "easeOut" }}
+              />
+            )}
           </svg>
           <div className="score-number">
-            <strong>{score}</strong>
+            <strong>{pending ? "--" : score}</strong>
             <span>/100</span>
           </div>
         </div>
       </div>
       <div className="executive-right">
         <h3>Executive Summary</h3>
-        <p>{overview || "No overview was provided in this analysis."}</p>
+        <p>{overview || (pending ? "Waiting for the summary..." : "No overview was provided in this analysis.")}</p>
       </div>
     </section>
   );
 }
 
-function MetricsGraph({ metrics }: { metrics: MetricItem[] }) {
+export function MetricsGraph({ metrics, staggered = false }: { metrics: MetricItem[]; staggered?: boolean }) {
   if (metrics.length === 0) return null;
 
   return (
     <section className="dashboard-card metrics-section">
       <h3>Conversion Metrics</h3>
       <div className="metric-list">
-        {metrics.map((metric) => (
-          <div key={metric.key} className="metric-row">
+        {metrics.map((metric, index) => (
+          <div key={metric.key} className="metric-row" title={metric.description || undefined}>
             <div className="metric-label-row">
               <span>{metric.label}</span>
               <strong>{metric.value}</strong>
             </div>
             <div className="metric-bar-track">
               <motion.div
-                className="metric-bar-fill"
+                className={`metric-bar-fill ${metric.band}`}
                 initial={{ width: 0 }}
                 animate={{ width: `${metric.value}%` }}
-                transition={{ duration: 0.25, ease: "easeOut" }}
+                transition={{ duration: 0.25, ease: "easeOut", delay: staggered ? index * 0.12 : 0 }}
               />
             </div>
           </div>
@@ -200,7 +100,7 @@ function MetricsGraph({ metrics }: { metrics: MetricItem[] }) {
   );
 }
 
-function StatGrid({ stats }: { stats: Array<{ key: string; value: string | number }> }) {
+function StatGrid({ stats }: { stats: StatItem[] }) {
   if (stats.length === 0) return null;
 
   return (
@@ -223,12 +123,67 @@ function StatGrid({ stats }: { stats: Array<{ key: string; value: string | numbe
   );
 }
 
-function InsightSection({ section }: { section: InsightItem }) {
+function TaskControl({ task, failed, onTrack }: { task?: InsightTask; failed: boolean; onTrack?: () => void }) {
+  if (task) {
+    const status = TASK_STATUSES.find((option) => option.value === task.status)?.label ?? task.status;
+    return <span className={`insight-task-chip ${task.status}`}>{status}</span>;
+  }
+  if (!onTrack) return null;
+  return (
+    <>
+      <button
+        type="button"
+        className="insight-task-add"
+        title="Track as task"
+        aria-label="Track as task"
+        onClick={onTrack}
+      >
+        <ListPlus size={12} />
+      </button>
+      {failed && (
+        <span className="insight-task-error" role="alert">
+          Could not create the task.
+        </span>
+      )}
+    </>
+  );
+}
+
+function InsightSection({
+  section,
+  anchors,
+  tasks,
+  failedInsight,
+  appear,
+  onLocate,
+  onTrack,
+}: {
+  section: InsightItem;
+  anchors: Map<string, string>;
+  /** Tasks already created from this analysis, by normalised insight text. */
+  tasks: Map<string, InsightTask>;
+  /** The insight in this section whose task could not be created. */
+  failedInsight?: string;
+  appear: boolean;
+  onLocate: (insight: string, selector: string) => void;
+  /** Omitted while the analysis is still streaming and not yet in history. */
+  onTrack?: (insight: string) => void;
+}) {
   const [open, setOpen] = useState(true);
 
   return (
-    <section className="dashboard-card insight-section">
-      <button type="button" className="insight-toggle" onClick={() => setOpen((prev) => !prev)}>
+    <motion.section
+      className="dashboard-card insight-section"
+      initial={appear ? { opacity: 0, y: 8 } : false}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.25, ease: "easeOut" }}
+    >
+      <button
+        type="button"
+        className="insight-toggle"
+        title={section.description}
+        onClick={() => setOpen((prev) => !prev)}
+      >
         <span>{section.title}</span>
         <div className="insight-meta">
           <span className="insight-count">{section.items.length}</span>
@@ -246,12 +201,167 @@ function InsightSection({ section }: { section: InsightItem }) {
             exit={{ opacity: 0, height: 0 }}
             transition={{ duration: 0.25, ease: "easeOut" }}
           >
-            {section.items.map((item, idx) => (
-              <li key={`${section.key}-${idx}`}>{item}</li>
-            ))}
+            {section.items.map((item, idx) => {
+              const selector = anchors.get(item);
+              const task = tasks.get(normalizeInsight(item));
+              return (
+                <li key={`${section.key}-${idx}`}>
+                  {selector ? (
+                    <button
+                      type="button"
+                      className="insight-locate"
+                      title="Show on page"
+                      onClick={() => onLocate(item, selector)}
+                    >
+                      <span>{item}</span>
+                      <Crosshair size={12} aria-hidden />
+                    </button>
+                  ) : (
+                    item
+                  )}
+                  <TaskControl task={task} failed={item === failedInsight} onTrack={onTrack && (() => onTrack(item))} />
+                </li>
+              );
+            })}
           </motion.ul>
         )}
       </AnimatePresence>
+    </motion.section>
+  );
+}
+
+function PageFindingsBar({
+  count,
+  showingAll,
+  notice,
+  onToggle,
+}: {
+  count: number;
+  showingAll: boolean;
+  notice: string | null;
+  onToggle: () => void;
+}) {
+  return (
+    <section className="dashboard-card page-findings-bar">
+      <div className="page-findings-row">
+        <span>
+          {count} {count === 1 ? "finding points" : "findings point"} at elements on the page
+        </span>
+        <button type="button" className={`page-findings-toggle ${showingAll ? "active" : ""}`} onClick={onToggle}>
+          {showingAll ? "Hide on page" : "Show all on page"}
+        </button>
+      </div>
+      {notice && <p className="page-findings-notice">{notice}</p>}
+    </section>
+  );
+}
+
+function ResolvedTasksNotice({ tasks, analysisId }: { tasks: InsightTask[]; analysisId: string }) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(tasks.map((task) => task.id)));
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  // Tasks left open are marked so this scan does not ask about them again.
+  const resolve = async (close: Set<string>) => {
+    const ids = tasks.map((task) => task.id);
+    try {
+      await taskStore.updateMany(ids.filter((id) => close.has(id)), { status: "done" });
+      await taskStore.updateMany(ids.filter((id) => !close.has(id)), { keptOpenFor: analysisId });
+    } catch {
+      setError("Could not update the tasks.");
+    }
+  };
+
+  return (
+    <section className="dashboard-card resolved-tasks">
+      <h3>Resolved since the last scan?</h3>
+      <p>
+        {tasks.length === 1 ? "This task's issue" : `The issues of these ${tasks.length} tasks`} no longer showed up
+        on this page. Close the ones that are fixed.
+      </p>
+      <ul className="resolved-task-list">
+        {tasks.map((task) => (
+          <li key={task.id}>
+            <label className="resolved-task-option">
+              <input type="checkbox" checked={selected.has(task.id)} onChange={() => toggle(task.id)} />
+              <span>{task.insight}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      {error && <p className="resolved-task-error">{error}</p>}
+      <div className="resolved-task-actions">
+        <button type="button" className="resolved-task-keep" onClick={() => resolve(new Set())}>
+          Keep open
+        </button>
+        <button
+          type="button"
+          className="resolved-task-close"
+          disabled={selected.size === 0}
+          onClick={() => resolve(selected)}
+        >
+          Close {selected.size} {selected.size === 1 ? "task" : "tasks"}
+        </button>
+      </div>
+    </section>
+  );
+}
+
+function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : String(delta);
+}
+
+/** The AI result of an SEO Audit next to the local rule-based audit that ran with it. */
+function BaselinePanel({ diff }: { diff: BaselineDiff }) {
+  const [showFindings, setShowFindings] = useState(false);
+  const rows = [{ key: "overall", label: "Overall", ...diff.score }, ...diff.metrics];
+
+  return (
+    <section className="dashboard-card baseline-panel">
+      <h3>AI vs Local Audit</h3>
+      <div className="baseline-table" role="table">
+        <div className="baseline-row baseline-head" role="row">
+          <span role="columnheader">Category</span>
+          <span role="columnheader">Local</span>
+          <span role="columnheader">AI</span>
+          <span role="columnheader">Diff</span>
+        </div>
+        {rows.map((row) => {
+          const delta = row.ai === undefined ? null : row.ai - row.local;
+          return (
+            <div key={row.key} className="baseline-row" role="row">
+              <span role="cell">{row.label}</span>
+              <span role="cell">{row.local}</span>
+              <span role="cell">{row.ai ?? "—"}</span>
+              <span role="cell" className={`baseline-delta ${delta === null ? "" : delta >= 0 ? "up" : "down"}`}>
+                {delta === null ? "not scored" : formatDelta(delta)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      {diff.findings.length > 0 && (
+        <>
+          <button type="button" className="baseline-findings-toggle" onClick={() => setShowFindings((prev) => !prev)}>
+            {showFindings ? "Hide" : "Show"} {diff.findings.length} rule-based{" "}
+            {diff.findings.length === 1 ? "finding" : "findings"}
+          </button>
+          {showFindings && (
+            <ul className="baseline-findings">
+              {diff.findings.map((finding) => (
+                <li key={finding}>{finding}</li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
     </section>
   );
 }
@@ -278,12 +388,80 @@ function VerdictPanel({ marketing, strategic }: { marketing?: string; strategic?
   );
 }
 
-function AnalysisView({ analysis, onGoBack }: AnalysisViewProps) {
-  const overallScore = useMemo(() => toOverallScore(analysis), [analysis]);
+function AnalysisView({ analysis, onGoBack, streaming = false }: AnalysisViewProps) {
+  const overallScore = useMemo(() => toOverallScore(analysis.score), [analysis]);
   const metrics = useMemo(() => extractMetrics(analysis), [analysis]);
   const stats = useMemo(() => extractStats(analysis), [analysis]);
   const insights = useMemo(() => extractInsights(analysis), [analysis]);
-  const verdicts = useMemo(() => extractVerdicts(analysis), [analysis]);
+  const baseline = useMemo(
+    () =>
+      analysis.source === "ai" && analysis.seo_baseline ? diffAgainstBaseline(analysis, analysis.seo_baseline) : null,
+    [analysis]
+  );
+  const verdicts = analysis.verdicts;
+  const pageUrl = analysis.url ?? "";
+  // Findings can only be shown on the page the analysis was run against.
+  const anchors = useMemo(
+    () =>
+      new Map(analysis.url ? (analysis.anchors ?? []).map((anchor) => [anchor.insight, anchor.selector]) : []),
+    [analysis]
+  );
+  const [showingAll, setShowingAll] = useState(false);
+  const [pageNotice, setPageNotice] = useState<string | null>(null);
+  const [trackFailure, setTrackFailure] = useState<{ section: string; insight: string } | null>(null);
+  const allTasks = useTasks();
+  const tracked = useMemo(
+    () =>
+      new Map(
+        allTasks
+          .filter((task) => task.analysisId === analysis.id)
+          .map((task) => [normalizeInsight(task.insight), task])
+      ),
+    [allTasks, analysis.id]
+  );
+  const resolvedTasks = useMemo(
+    () => (streaming ? [] : findResolvedTasks(allTasks, analysis)),
+    [allTasks, analysis, streaming]
+  );
+
+  const trackInsight = (section: InsightItem, insight: string) => {
+    setTrackFailure(null);
+    taskStore
+      .add(newTask(analysis, section.title, insight))
+      .catch(() => setTrackFailure({ section: section.key, insight }));
+  };
+
+  const reportPageError = (err: unknown) =>
+    setPageNotice(err instanceof Error ? err.message : "Could not reach the page.");
+
+  const locate = (insight: string, selector: string) => {
+    highlightOnPage(pageUrl, [{ selector, label: insight }], true)
+      .then((result) => {
+        setShowingAll(false);
+        setPageNotice(result.shown ? null : "That element is no longer on the page.");
+      })
+      .catch(reportPageError);
+  };
+
+  const toggleAll = () => {
+    if (showingAll) {
+      clearPageHighlights(pageUrl)
+        .then(() => setShowingAll(false))
+        .catch(reportPageError);
+      return;
+    }
+    const targets = (analysis.anchors ?? []).map((anchor) => ({ selector: anchor.selector, label: anchor.insight }));
+    highlightOnPage(pageUrl, targets, false)
+      .then((result) => {
+        setShowingAll(result.shown > 0);
+        setPageNotice(
+          result.missing
+            ? `${result.missing} ${result.missing === 1 ? "element is" : "elements are"} no longer on the page.`
+            : null
+        );
+      })
+      .catch(reportPageError);
+  };
 
   return (
     <motion.div
@@ -294,24 +472,65 @@ function AnalysisView({ analysis, onGoBack }: AnalysisViewProps) {
     >
       <div className="analysis-top">
         <h2>Intelligence Dashboard</h2>
-        <motion.button
-          type="button"
-          className="analysis-back-btn"
-          onClick={onGoBack}
-          whileHover={{ y: -2, boxShadow: "0 12px 24px rgba(0, 0, 0, 0.34)" }}
-          transition={{ duration: 0.2, ease: "easeOut" }}
-        >
-          Go Back
-        </motion.button>
+        <div className="analysis-top-actions">
+          <ExportMenu items={[analysis]} />
+          {onGoBack && (
+            <motion.button
+              type="button"
+              className="analysis-back-btn"
+              onClick={onGoBack}
+              whileHover={{ y: -2, boxShadow: "0 12px 24px rgba(0, 0, 0, 0.34)" }}
+              transition={{ duration: 0.2, ease: "easeOut" }}
+            >
+              Go Back
+            </motion.button>
+          )}
+        </div>
       </div>
 
       <div className="analysis-dashboard">
-        <ExecutiveScore score={overallScore} overview={analysis.overview} />
-        <MetricsGraph metrics={metrics} />
+        {streaming && <p className="analysis-stream-note">Analyzing... results appear as they arrive.</p>}
+        {analysis.incomplete && (
+          <p className="analysis-stream-note incomplete">
+            This analysis is incomplete: the connection dropped before the backend finished.
+          </p>
+        )}
+        {analysis.source === "local" && (
+          <p className="analysis-stream-note local">
+            <span className="local-audit-badge">Local audit</span>
+            The backend could not be reached, so these results come from the built-in SEO rules.
+          </p>
+        )}
+        <ExecutiveScore
+          score={overallScore}
+          overview={analysis.overview}
+          pending={streaming && analysis.score === undefined}
+        />
+        <MetricsGraph metrics={metrics} staggered={streaming} />
         <StatGrid stats={stats} />
+        {anchors.size > 0 && (
+          <PageFindingsBar count={anchors.size} showingAll={showingAll} notice={pageNotice} onToggle={toggleAll} />
+        )}
+        {resolvedTasks.length > 0 && (
+          <ResolvedTasksNotice
+            key={resolvedTasks.map((task) => task.id).join()}
+            tasks={resolvedTasks}
+            analysisId={analysis.id}
+          />
+        )}
         {insights.map((section) => (
-          <InsightSection key={section.key} section={section} />
+          <InsightSection
+            key={section.key}
+            section={section}
+            anchors={anchors}
+            tasks={tracked}
+            failedInsight={trackFailure?.section === section.key ? trackFailure.insight : undefined}
+            appear={streaming}
+            onLocate={locate}
+            onTrack={streaming ? undefined : (insight) => trackInsight(section, insight)}
+          />
         ))}
+        {baseline && !streaming && <BaselinePanel diff={baseline} />}
         <VerdictPanel marketing={verdicts.marketing} strategic={verdicts.strategic} />
       </div>
     </motion.div>
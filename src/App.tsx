@@ -2,9 +2,14 @@ import { useEffect, useRef, useState } from "react";
 import { AnimatePresence, motion } from "framer-motion";
 import {
   Clock3,
+  Eye,
   GitCompareArrows,
+  Layers,
+  ListChecks,
+  ListTodo,
   LogOut,
   Menu,
+  PanelRight,
   Radar,
   Settings,
   Sparkles,
@@ -12,49 +17,31 @@ import {
 } from "lucide-react";
 import "./App.css";
 import AnalysisView from "./AnalysisView";
+import AssetsView from "./AssetsView";
+import BatchScanPage from "./BatchScanPage";
+import ComparisonView from "./ComparisonView";
 import HistoryPage, { type HistoryAnalysis } from "./HistoryPage";
-
-type AnalysisSection = {
-  id?: string;
-  title?: string;
-  insights?: string[];
-};
-
-type Verdicts = {
-  marketing?: string;
-  strategic?: string;
-};
-
-type Score = {
-  value?: number;
-  reasoning?: string;
-};
-
-export type AnalysisResult = {
-  id?: string;
-  createdAt?: number;
-  asset_type?: string;
-  overview?: string;
-  target_audience?: string;
-  sections?: AnalysisSection[];
-  verdicts?: Verdicts;
-  score?: Score;
-  conversion_scores?: Record<string, number>;
-  pricing_analysis?: Record<string, number | string>;
-  insights?: Record<string, string[]>;
-  marketing_verdict?: string;
-  strategic_verdict?: string;
-  [key: string]: unknown;
-};
-
-const HISTORY_KEY = "rook-lite-history-v2";
-const SCAN_MODES = [
-  "Full Page Scan",
-  "SEO Audit",
-  "Messaging Audit",
-  "Funnel Audit",
-  "Tone & Persona Check",
-] as const;
+import ProfilePage from "./ProfilePage";
+import RedactionPreview from "./RedactionPreview";
+import ScanModesPage from "./ScanModesPage";
+import SettingsPage from "./SettingsPage";
+import SiteReportView from "./SiteReportView";
+import TasksView from "./TasksView";
+import TrendView from "./TrendView";
+import WatchlistView from "./WatchlistView";
+import { requestCreate, type AnalysisResult, type AssetKind, type CreateResult } from "./api";
+import { historyRepository } from "./historyRepository";
+import { isJobRunning } from "./jobProtocol";
+import { requestQueue, retryQueuedRequest } from "./requestQueue";
+import { scanModeNames } from "./scanModes";
+import { isDomainBlocked } from "./settings";
+import { extractPageForUrl, getActiveTab, normalizeInputUrl, openSidePanel } from "./tabs";
+import { groupByPage } from "./trends";
+import { useAnalysisJob } from "./useAnalysisJob";
+import { useAuth } from "./useAuth";
+import { useRequestQueue } from "./useRequestQueue";
+import { useScanModes } from "./useScanModes";
+import { useSettings } from "./useSettings";
 
 const CREATE_OPTIONS = [
   "Generate Campaign Kit",
@@ -65,10 +52,26 @@ const CREATE_OPTIONS = [
 ] as const;
 
 type Mode = "scan" | "create" | "compare" | null;
-type GearAction = "history" | "profile" | "settings" | "logout";
+/** Where "Go Back" leads from an analysis; "report" returns to the site report it was opened from. */
+type AnalysisBackView = "home" | "history" | "trend" | "tasks" | "watchlist" | "report";
+type GearAction =
+  | "history"
+  | "tasks"
+  | "watchlist"
+  | "batch"
+  | "modes"
+  | "sidepanel"
+  | "profile"
+  | "settings"
+  | "logout";
 
 function App() {
-  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const settings = useSettings();
+  const auth = useAuth();
+  const queued = useRequestQueue();
+  const customModes = useScanModes();
+  const scanModes = scanModeNames(customModes);
+  const [analysis, setAnalysis] = useState<HistoryAnalysis | null>(null);
   const [history, setHistory] = useState<HistoryAnalysis[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [logoMissing, setLogoMissing] = useState(false);
@@ -78,11 +81,19 @@ function App() {
   const [scanSubMode, setScanSubMode] = useState<string>("");
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isCompareModalOpen, setIsCompareModalOpen] = useState(false);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
   const [isGearOpen, setIsGearOpen] = useState(false);
   const [isScanMenuOpen, setIsScanMenuOpen] = useState(false);
 
-  const [activeView, setActiveView] = useState<"home" | "history" | "analysis">("home");
-  const [analysisBackView, setAnalysisBackView] = useState<"home" | "history">("home");
+  const [activeView, setActiveView] = useState<
+    "home" | "history" | "analysis" | "trend" | "tasks" | "watchlist" | "batch" | "modes" | "settings" | "profile"
+  >("home");
+  const [confirmSignOut, setConfirmSignOut] = useState(false);
+  const [analysisBackView, setAnalysisBackView] = useState<AnalysisBackView>("home");
+  const [siteReport, setSiteReport] = useState<HistoryAnalysis | null>(null);
+  const [reportBackView, setReportBackView] = useState<Exclude<AnalysisBackView, "report" | "trend">>("home");
+  const [trendKey, setTrendKey] = useState<string | null>(null);
+  const [hiddenStreamId, setHiddenStreamId] = useState<string | null>(null);
   const [homeResult, setHomeResult] = useState<string | null>(null);
   const [currentPageUrl, setCurrentPageUrl] = useState("");
   const [competitorUrl, setCompetitorUrl] = useState("");
@@ -91,24 +102,43 @@ function App() {
   const gearRef = useRef<HTMLDivElement | null>(null);
   const scanHoverTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  useEffect(() => {
-    const storedV2 = localStorage.getItem(HISTORY_KEY);
-    if (storedV2) {
-      setHistory(JSON.parse(storedV2));
-      return;
-    }
+  const jobs = useAnalysisJob({
+    surface: "popup",
+    onSettled: (job) => {
+      // Jobs started from the side panel are left for the side panel to show and dismiss.
+      if (job.surface !== "popup") return;
+      if (job.stage === "done" && job.result) {
+        setAnalysis(job.result);
+        setAnalysisBackView("home");
+        setActiveView("analysis");
+        setHomeResult(null);
+      } else if (job.stage === "error") {
+        setHomeResult(null);
+        setError(job.error ?? "The analysis failed.");
+      } else {
+        setHomeResult(job.message);
+      }
+      jobs.dismiss(job.id);
+    },
+    onRejected: (message) => setError(message),
+  });
+  const isBusy = isJobRunning(jobs.job);
 
-    const oldStored = localStorage.getItem("rook-lite-history");
-    if (oldStored) {
-      const parsed = JSON.parse(oldStored) as AnalysisResult[];
-      const migrated = parsed.map((item, index) => ({
-        ...item,
-        id: `migrated-${Date.now()}-${index}`,
-        createdAt: Date.now() - index,
-      }));
-      setHistory(migrated);
-      localStorage.setItem(HISTORY_KEY, JSON.stringify(migrated));
-    }
+  useEffect(() => {
+    let active = true;
+    historyRepository
+      .list()
+      .then((items) => {
+        if (active) setHistory(items);
+      })
+      .catch(() => {
+        if (active) setError("Could not load history.");
+      });
+    const unsubscribe = historyRepository.subscribe(setHistory);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
   }, []);
 
   useEffect(() => {
@@ -134,10 +164,15 @@ function App() {
     };
   }, []);
 
+  const updateHistoryEntry = (entry: HistoryAnalysis) => {
+    historyRepository.update(entry).catch(() => setError("Could not update history."));
+  };
+
+  const latestAnalysisFor = (url: string): AnalysisResult | undefined =>
+    history.find((item) => item.url === url && !item.assets && !item.batch);
+
   const deleteHistoryByIds = (ids: string[]) => {
-    const updated = history.filter((item) => !ids.includes(item.id));
-    setHistory(updated);
-    localStorage.setItem(HISTORY_KEY, JSON.stringify(updated));
+    historyRepository.removeMany(ids).catch(() => setError("Could not delete from history."));
   };
 
   const openAnalysisFromHistory = (item: HistoryAnalysis) => {
@@ -147,6 +182,29 @@ function App() {
     setError(null);
   };
 
+  const openPageFromReport = (report: HistoryAnalysis, item: HistoryAnalysis) => {
+    setSiteReport(report);
+    setReportBackView(analysisBackView === "report" || analysisBackView === "trend" ? "home" : analysisBackView);
+    setAnalysis(item);
+    setAnalysisBackView("report");
+  };
+
+  const goBackFromAnalysis = () => {
+    if (analysisBackView === "report" && siteReport) {
+      setAnalysis(siteReport);
+      setAnalysisBackView(reportBackView);
+      return;
+    }
+    setActiveView(analysisBackView === "report" ? "home" : analysisBackView);
+  };
+
+  const startBatchScan = (mode: string, urls: string[]) => {
+    if (isBusy) return;
+    setError(null);
+    setActiveView("home");
+    jobs.start({ kind: "batch", mode, urls });
+  };
+
   const handleScanEnter = () => {
     if (scanHoverTimerRef.current) {
       clearTimeout(scanHoverTimerRef.current);
@@ -160,12 +218,20 @@ function App() {
     }, 120);
   };
 
-  const handleScanModeSelect = (mode: string) => {
+  const handleScanModeSelect = async (mode: string) => {
+    if (isBusy) return;
+
     setActiveMode("scan");
     setScanSubMode(mode);
-    setHomeResult(`Running: ${mode}`);
     setIsScanMenuOpen(false);
     setError(null);
+
+    const tab = await getActiveTab();
+    if (tab?.id === undefined) {
+      setError("No active tab to scan.");
+      return;
+    }
+    jobs.start({ kind: "scan", mode, tabId: tab.id });
   };
 
   const openCreateModal = () => {
@@ -180,25 +246,71 @@ function App() {
     setError(null);
 
     try {
-      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      const tab = await getActiveTab();
       setCurrentPageUrl(tab?.url ?? "");
     } catch {
       setCurrentPageUrl("");
     }
   };
 
-  const runCreateOption = (option: string) => {
-    setHomeResult(`Create action: ${option}`);
+  const runCreateOption = async (option: string) => {
+    if (isBusy) return;
+
     setIsCreateModalOpen(false);
+    setError(null);
+
+    const tab = await getActiveTab();
+    if (tab?.id === undefined) {
+      setError("No active tab to create assets from.");
+      return;
+    }
+    jobs.start({ kind: "create", option, tabId: tab.id });
+  };
+
+  const saveAssets = (entry: HistoryAnalysis, assets: CreateResult) => {
+    const updated = { ...entry, assets };
+    setAnalysis(updated);
+    updateHistoryEntry(updated);
+  };
+
+  const regenerateAsset = async (
+    entry: HistoryAnalysis,
+    assets: CreateResult,
+    kind: AssetKind,
+    index: number
+  ): Promise<CreateResult> => {
+    if (!entry.url) throw new Error("This entry has no page URL to regenerate from.");
+    if (isDomainBlocked(entry.url, settings.blockedDomains)) {
+      throw new Error(`Scanning is disabled for ${new URL(entry.url).hostname} in Settings.`);
+    }
+    const page = await extractPageForUrl(entry.url);
+    return requestCreate({
+      option: assets.option,
+      url: entry.url,
+      page,
+      analysis: latestAnalysisFor(entry.url),
+      regenerate: { kind, index },
+    });
   };
 
   const runComparison = () => {
-    setHomeResult(
-      `Comparison requested${currentPageUrl ? ` for ${currentPageUrl}` : ""}${
-        competitorUrl ? ` vs ${competitorUrl}` : ""
-      }.`
-    );
+    if (isBusy) return;
+
+    const primaryUrl = normalizeInputUrl(currentPageUrl);
+    const rivalUrl = normalizeInputUrl(competitorUrl);
+    if (!primaryUrl || !rivalUrl) {
+      setError("Enter a valid http(s) URL for both pages.");
+      return;
+    }
+
     setIsCompareModalOpen(false);
+    setError(null);
+    jobs.start({
+      kind: "compare",
+      mode: scanSubMode || "Full Page Scan",
+      primaryUrl,
+      competitorUrl: rivalUrl,
+    });
   };
 
   const handleGearAction = (action: GearAction) => {
@@ -208,17 +320,125 @@ function App() {
       setActiveView("history");
       return;
     }
+    if (action === "tasks") {
+      setActiveView("tasks");
+      return;
+    }
+    if (action === "watchlist") {
+      setActiveView("watchlist");
+      return;
+    }
+    if (action === "batch") {
+      setActiveView("batch");
+      return;
+    }
+    if (action === "modes") {
+      setActiveView("modes");
+      return;
+    }
+    if (action === "sidepanel") {
+      openSidePanel()
+        .then(() => window.close())
+        .catch((err) => setError(err instanceof Error ? err.message : "Could not open the side panel."));
+      return;
+    }
     if (action === "profile") {
-      setError("Profile page will be added next.");
+      setConfirmSignOut(false);
+      setActiveView("profile");
       return;
     }
     if (action === "settings") {
-      setError("Settings page will be added next.");
+      setActiveView("settings");
       return;
     }
-    setError("Logout action will be connected with auth.");
+    if (!auth.tokens) {
+      setError("You are not signed in.");
+      return;
+    }
+    setConfirmSignOut(true);
+    setActiveView("profile");
   };
 
+  if (activeView === "profile") {
+    return (
+      <div className="panel-bg">
+        <div className="panel-card">
+          <ProfilePage confirmSignOut={confirmSignOut} onGoBack={() => setActiveView("home")} />
+        </div>
+      </div>
+    );
+  }
+
+  if (activeView === "settings") {
+    return (
+      <div className="panel-bg">
+        <div className="panel-card">
+          <SettingsPage onGoBack={() => setActiveView("home")} />
+        </div>
+      </div>
+    );
+  }
+
+  if (activeView === "tasks") {
+    return (
+      <div className="panel-bg">
+        <div className="panel-card">
+          <TasksView
+            history={history}
+            onOpenAnalysis={(item) => {
+              openAnalysisFromHistory(item);
+              setAnalysisBackView("tasks");
+            }}
+            onGoBack={() => setActiveView("home")}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (activeView === "watchlist") {
+    return (
+      <div className="panel-bg">
+        <div className="panel-card">
+          <WatchlistView
+            history={history}
+            onOpenAnalysis={(item) => {
+              openAnalysisFromHistory(item);
+              setAnalysisBackView("watchlist");
+            }}
+            onGoBack={() => setActiveView("home")}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (activeView === "modes") {
+    return (
+      <div className="panel-bg">
+        <div className="panel-card">
+          <ScanModesPage onGoBack={() => setActiveView("home")} />
+        </div>
+      </div>
+    );
+  }
+
+  if (activeView === "batch") {
+    return (
+      <div className="panel-bg">
+        <div className="panel-card">
+          <BatchScanPage
+            defaultMode={settings.defaultScanMode}
+            modes={scanModes}
+            busy={isBusy}
+            onStart={startBatchScan}
+            onGoBack={() => setActiveView("home")}
+          />
+        </div>
+      </div>
+    );
+  }
+
   if (activeView === "history") {
     return (
       <div className="home-bg">
@@ -228,6 +448,94 @@ function App() {
             onGoBack={() => setActiveView("home")}
             onDeleteMany={deleteHistoryByIds}
             onOpenAnalysis={openAnalysisFromHistory}
+            onImport={(items, strategy) => historyRepository.importMany(items, strategy)}
+            onOpenTrend={(key) => {
+              setTrendKey(key);
+              setActiveView("trend");
+            }}
+            pending={queued}
+            onRetryPending={(id) => void retryQueuedRequest(id)}
+            onCancelPending={(id) => void requestQueue.remove(id)}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  const trend = activeView === "trend" ? groupByPage(history).find((page) => page.key === trendKey) : undefined;
+  if (trend) {
+    return (
+      <div className="panel-bg">
+        <div className="panel-card">
+          <TrendView
+            trend={trend}
+            onOpenAnalysis={(item) => {
+              openAnalysisFromHistory(item);
+              setAnalysisBackView("trend");
+            }}
+            onGoBack={() => setActiveView("history")}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  const streamingJob = isBusy && jobs.job?.partial && jobs.job.id !== hiddenStreamId ? jobs.job : null;
+  if (activeView === "home" && streamingJob?.partial) {
+    const jobId = streamingJob.id;
+    return (
+      <div className="panel-bg">
+        <div className="panel-card">
+          <AnalysisView analysis={streamingJob.partial} streaming onGoBack={() => setHiddenStreamId(jobId)} />
+        </div>
+      </div>
+    );
+  }
+
+  if (activeView === "analysis" && analysis?.assets) {
+    const entry = analysis;
+    const assets = analysis.assets;
+    return (
+      <div className="panel-bg">
+        <div className="panel-card">
+          <AssetsView
+            key={entry.id}
+            assets={assets}
+            onSave={(next) => saveAssets(entry, next)}
+            onRegenerate={(kind, index) => regenerateAsset(entry, assets, kind, index)}
+            onGoBack={goBackFromAnalysis}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (activeView === "analysis" && analysis?.comparison) {
+    return (
+      <div className="panel-bg">
+        <div className="panel-card">
+          <ComparisonView
+            primary={analysis}
+            primaryUrl={analysis.url}
+            comparison={analysis.comparison}
+            onGoBack={goBackFromAnalysis}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (activeView === "analysis" && analysis?.batch) {
+    const report = { ...analysis, batch: analysis.batch };
+    return (
+      <div className="panel-bg">
+        <div className="panel-card">
+          <SiteReportView
+            key={report.id}
+            report={report}
+            history={history}
+            onOpenAnalysis={(item) => openPageFromReport(report, item)}
+            onGoBack={goBackFromAnalysis}
           />
         </div>
       </div>
@@ -238,7 +546,7 @@ function App() {
     return (
       <div className="panel-bg">
         <div className="panel-card">
-          <AnalysisView analysis={analysis} onGoBack={() => setActiveView(analysisBackView)} />
+          <AnalysisView analysis={analysis} onGoBack={goBackFromAnalysis} />
         </div>
       </div>
     );
@@ -267,6 +575,8 @@ function App() {
               <motion.button
                 type="button"
                 className={`nav-icon-btn ${activeMode === "scan" ? "active" : ""}`}
+                onClick={() => handleScanModeSelect(settings.defaultScanMode)}
+                title={`Run ${settings.defaultScanMode}`}
                 onHoverStart={() => setHoveredMode("scan")}
                 onHoverEnd={() => setHoveredMode((prev) => (prev === "scan" ? null : prev))}
                 whileHover={{ scale: 1.08 }}
@@ -295,10 +605,11 @@ function App() {
                     exit={{ opacity: 0, y: -10 }}
                     transition={{ duration: 0.2 }}
                   >
-                    {SCAN_MODES.map((mode, index) => (
+                    {scanModes.map((mode, index) => (
                       <motion.button
                         key={mode}
                         type="button"
+                        className={mode === settings.defaultScanMode ? "default-mode" : undefined}
                         onClick={() => handleScanModeSelect(mode)}
                         initial={{ opacity: 0, y: -6 }}
                         animate={{ opacity: 1, y: 0 }}
@@ -384,6 +695,11 @@ function App() {
                   >
                     {[
                       { key: "history" as const, icon: Clock3, label: "History" },
+                      { key: "tasks" as const, icon: ListTodo, label: "Tasks" },
+                      { key: "watchlist" as const, icon: Eye, label: "Watchlist" },
+                      { key: "batch" as const, icon: Layers, label: "Site Scan" },
+                      { key: "modes" as const, icon: ListChecks, label: "Scan Modes" },
+                      { key: "sidepanel" as const, icon: PanelRight, label: "Side Panel" },
                       { key: "profile" as const, icon: User, label: "Profile" },
                       { key: "settings" as const, icon: Settings, label: "Settings" },
                       { key: "logout" as const, icon: LogOut, label: "Logout" },
@@ -459,9 +775,30 @@ function App() {
           ROOK LITE IS AN AI BROWSER EXTENSION DELIVERING REAL-TIME, CONTEXT-AWARE MARKETING
           STRATEGY INSIGHTS.
         </p>
+        <button type="button" className="home-privacy-link" onClick={() => setIsPreviewOpen(true)}>
+          Preview what gets sent
+        </button>
 
         {scanSubMode && <p className="home-mode-chip">{scanSubMode}</p>}
-        {homeResult && <p className="home-result-panel">{homeResult}</p>}
+        {isBusy && jobs.job ? (
+          <div className="home-result-panel">
+            <div className="home-job-status">
+              <span>{jobs.job.message}</span>
+              <div className="home-job-track">
+                <motion.div
+                  className="home-job-fill"
+                  animate={{ width: `${Math.round(jobs.job.progress * 100)}%` }}
+                  transition={{ duration: 0.25, ease: "easeOut" }}
+                />
+              </div>
+            </div>
+            <button type="button" className="home-result-cancel" onClick={jobs.cancel}>
+              Cancel
+            </button>
+          </div>
+        ) : (
+          homeResult && <p className="home-result-panel">{homeResult}</p>
+        )}
         <div className="home-actions-spacer" />
         {error && <p className="home-status-text">{error}</p>}
 
@@ -543,6 +880,10 @@ function App() {
             </motion.div>
           )}
         </AnimatePresence>
+
+        <AnimatePresence>
+          {isPreviewOpen && <RedactionPreview onClose={() => setIsPreviewOpen(false)} />}
+        </AnimatePresence>
       </div>
     </div>
   );
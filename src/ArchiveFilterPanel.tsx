@@ -0,0 +1,150 @@
+import { motion } from "framer-motion";
+import "./ArchiveFilterPanel.css";
+import type { ArchiveFilters, ArchiveSort, FilterOptions } from "./archiveFilters";
+
+type ArchiveFilterPanelProps = {
+  filters: ArchiveFilters;
+  options: FilterOptions;
+  onChange: (patch: Partial<ArchiveFilters>) => void;
+  onReset: () => void;
+};
+
+const SORT_OPTIONS: Array<{ value: ArchiveSort; label: string }> = [
+  { value: "relevance", label: "Best match" },
+  { value: "date-desc", label: "Newest first" },
+  { value: "date-asc", label: "Oldest first" },
+  { value: "score-desc", label: "Highest score" },
+  { value: "score-asc", label: "Lowest score" },
+  { value: "domain", label: "Domain (A–Z)" },
+];
+
+function toScore(value: string, fallback: number): number {
+  const parsed = Number(value);
+  return value.trim() === "" || !Number.isFinite(parsed) ? fallback : Math.max(0, Math.min(100, parsed));
+}
+
+function OptionSelect({
+  label,
+  value,
+  values,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  values: string[];
+  onChange: (value: string) => void;
+}) {
+  return (
+    <label className="archive-filter-field">
+      <span>{label}</span>
+      <select className="archive-filter-input" value={value} onChange={(e) => onChange(e.target.value)}>
+        <option value="">Any</option>
+        {values.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function ArchiveFilterPanel({ filters, options, onChange, onReset }: ArchiveFilterPanelProps) {
+  return (
+    <motion.div
+      className="archive-filter-panel"
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: "auto" }}
+      exit={{ opacity: 0, height: 0 }}
+      transition={{ duration: 0.18, ease: "easeOut" }}
+    >
+      <div className="archive-filter-grid">
+        <label className="archive-filter-field">
+          <span>Sort by</span>
+          <select
+            className="archive-filter-input"
+            value={filters.sort}
+            onChange={(e) => onChange({ sort: e.target.value as ArchiveSort })}
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="archive-filter-field">
+          <span>Score from</span>
+          <input
+            className="archive-filter-input"
+            type="number"
+            min={0}
+            max={100}
+            value={filters.scoreMin}
+            onChange={(e) => onChange({ scoreMin: toScore(e.target.value, 0) })}
+          />
+        </label>
+
+        <label className="archive-filter-field">
+          <span>Score to</span>
+          <input
+            className="archive-filter-input"
+            type="number"
+            min={0}
+            max={100}
+            value={filters.scoreMax}
+            onChange={(e) => onChange({ scoreMax: toScore(e.target.value, 100) })}
+          />
+        </label>
+
+        <label className="archive-filter-field">
+          <span>From date</span>
+          <input
+            className="archive-filter-input"
+            type="date"
+            value={filters.dateFrom}
+            onChange={(e) => onChange({ dateFrom: e.target.value })}
+          />
+        </label>
+
+        <label className="archive-filter-field">
+          <span>To date</span>
+          <input
+            className="archive-filter-input"
+            type="date"
+            value={filters.dateTo}
+            onChange={(e) => onChange({ dateTo: e.target.value })}
+          />
+        </label>
+
+        <OptionSelect
+          label="Domain"
+          value={filters.domain}
+          values={options.domains}
+          onChange={(domain) => onChange({ domain })}
+        />
+        <OptionSelect
+          label="Asset type"
+          value={filters.assetType}
+          values={options.assetTypes}
+          onChange={(assetType) => onChange({ assetType })}
+        />
+        <OptionSelect
+          label="Scan mode"
+          value={filters.scanMode}
+          values={options.scanModes}
+          onChange={(scanMode) => onChange({ scanMode })}
+        />
+      </div>
+
+      <div className="archive-filter-actions">
+        <button type="button" className="edit-btn" onClick={onReset}>
+          Reset filters
+        </button>
+      </div>
+    </motion.div>
+  );
+}
+
+export default ArchiveFilterPanel;
@@ -0,0 +1,304 @@
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { Copy, RefreshCw } from "lucide-react";
+import "./AnalysisView.css";
+import "./AssetsView.css";
+import type { AssetKind, CreateResult, SocialPost } from "./api";
+
+type AssetsViewProps = {
+  assets: CreateResult;
+  onSave: (assets: CreateResult) => void;
+  onRegenerate: (kind: AssetKind, index: number) => Promise<CreateResult>;
+  onGoBack: () => void;
+};
+
+type AssetItem<K extends AssetKind> = CreateResult[K][number];
+
+const PLATFORM_LIMITS: Record<string, number> = {
+  x: 280,
+  twitter: 280,
+  threads: 500,
+  linkedin: 3000,
+  instagram: 2200,
+  tiktok: 2200,
+  facebook: 63206,
+};
+const DEFAULT_POST_LIMIT = 2200;
+const AD_LIMITS = { headline: 30, description: 90 };
+const EMAIL_SUBJECT_LIMIT = 60;
+
+function replaceItem<K extends AssetKind>(
+  assets: CreateResult,
+  kind: K,
+  index: number,
+  item: AssetItem<K>
+): CreateResult {
+  const list = assets[kind].slice() as AssetItem<K>[];
+  list[index] = item;
+  return { ...assets, [kind]: list };
+}
+
+function groupPosts(posts: SocialPost[]): Array<{ platform: string; items: Array<{ post: SocialPost; index: number }> }> {
+  const groups = new Map<string, Array<{ post: SocialPost; index: number }>>();
+  posts.forEach((post, index) => {
+    const key = post.platform.trim().toLowerCase() || "other";
+    groups.set(key, [...(groups.get(key) ?? []), { post, index }]);
+  });
+  return Array.from(groups, ([platform, items]) => ({ platform, items }));
+}
+
+function CharCounter({ value, limit }: { value: string; limit: number }) {
+  return (
+    <span className={`char-counter ${value.length > limit ? "over" : ""}`}>
+      {value.length}/{limit}
+    </span>
+  );
+}
+
+function ItemActions({
+  copyText,
+  busy,
+  onRegenerate,
+}: {
+  copyText: string;
+  busy: boolean;
+  onRegenerate: () => void;
+}) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(copyText);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1200);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="asset-actions">
+      <button type="button" onClick={copy} title="Copy to clipboard">
+        <Copy size={12} />
+        <span>{copied ? "Copied" : "Copy"}</span>
+      </button>
+      <button type="button" onClick={onRegenerate} disabled={busy} title="Regenerate this item">
+        <motion.span
+          className="asset-action-icon"
+          animate={{ rotate: busy ? 360 : 0 }}
+          transition={busy ? { repeat: Infinity, duration: 0.8, ease: "linear" } : { duration: 0 }}
+        >
+          <RefreshCw size={12} />
+        </motion.span>
+        <span>{busy ? "Working" : "Regenerate"}</span>
+      </button>
+    </div>
+  );
+}
+
+function AssetsView({ assets, onSave, onRegenerate, onGoBack }: AssetsViewProps) {
+  const [draft, setDraft] = useState<CreateResult>(assets);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const postGroups = useMemo(() => groupPosts(draft.posts), [draft.posts]);
+
+  const updateItem = <K extends AssetKind>(kind: K, index: number, patch: Partial<AssetItem<K>>) => {
+    setDraft((prev) => replaceItem(prev, kind, index, { ...prev[kind][index], ...patch } as AssetItem<K>));
+  };
+
+  const save = () => onSave(draft);
+
+  const regenerate = async (kind: AssetKind, index: number) => {
+    setBusyKey(`${kind}-${index}`);
+    setNotice(null);
+    try {
+      const result = await onRegenerate(kind, index);
+      const replacement = result[kind][0];
+      if (!replacement) throw new Error("The backend did not return a replacement.");
+      const next = replaceItem(draft, kind, index, replacement);
+      setDraft(next);
+      onSave(next);
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : "Regeneration failed.");
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const isEmpty =
+    draft.posts.length + draft.ads.length + draft.emails.length + draft.pieces.length === 0;
+
+  return (
+    <motion.div
+      className="analysis-view"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.25, ease: "easeOut" }}
+    >
+      <div className="analysis-top">
+        <h2>{draft.option}</h2>
+        <motion.button
+          type="button"
+          className="analysis-back-btn"
+          onClick={onGoBack}
+          whileHover={{ y: -2, boxShadow: "0 12px 24px rgba(0, 0, 0, 0.34)" }}
+          transition={{ duration: 0.2, ease: "easeOut" }}
+        >
+          Go Back
+        </motion.button>
+      </div>
+
+      <div className="analysis-dashboard">
+        {draft.summary && (
+          <section className="dashboard-card asset-summary">
+            <p>{draft.summary}</p>
+          </section>
+        )}
+        {isEmpty && (
+          <section className="dashboard-card asset-summary">
+            <p>No assets were generated for this page.</p>
+          </section>
+        )}
+        {notice && <p className="asset-notice">{notice}</p>}
+
+        {postGroups.map((group) => {
+          const limit = PLATFORM_LIMITS[group.platform] ?? DEFAULT_POST_LIMIT;
+          return (
+            <section key={group.platform} className="dashboard-card asset-section">
+              <h3>{group.items[0].post.platform || "Other"} Posts</h3>
+              {group.items.map(({ post, index }) => (
+                <div key={index} className="asset-item">
+                  <textarea
+                    value={post.text}
+                    rows={4}
+                    onChange={(e) => updateItem("posts", index, { text: e.target.value })}
+                    onBlur={save}
+                  />
+                  <div className="asset-item-footer">
+                    <CharCounter value={post.text} limit={limit} />
+                    <ItemActions
+                      copyText={post.text}
+                      busy={busyKey === `posts-${index}`}
+                      onRegenerate={() => regenerate("posts", index)}
+                    />
+                  </div>
+                </div>
+              ))}
+            </section>
+          );
+        })}
+
+        {draft.ads.length > 0 && (
+          <section className="dashboard-card asset-section">
+            <h3>Ad Variants</h3>
+            {draft.ads.map((ad, index) => (
+              <div key={index} className="asset-item">
+                <label className="asset-field">
+                  <span>
+                    Headline <CharCounter value={ad.headline} limit={AD_LIMITS.headline} />
+                  </span>
+                  <input
+                    type="text"
+                    value={ad.headline}
+                    onChange={(e) => updateItem("ads", index, { headline: e.target.value })}
+                    onBlur={save}
+                  />
+                </label>
+                <label className="asset-field">
+                  <span>
+                    Description <CharCounter value={ad.description} limit={AD_LIMITS.description} />
+                  </span>
+                  <textarea
+                    value={ad.description}
+                    rows={2}
+                    onChange={(e) => updateItem("ads", index, { description: e.target.value })}
+                    onBlur={save}
+                  />
+                </label>
+                <div className="asset-item-footer">
+                  <span className="asset-index">Variant {index + 1}</span>
+                  <ItemActions
+                    copyText={`${ad.headline}\n${ad.description}`}
+                    busy={busyKey === `ads-${index}`}
+                    onRegenerate={() => regenerate("ads", index)}
+                  />
+                </div>
+              </div>
+            ))}
+          </section>
+        )}
+
+        {draft.emails.length > 0 && (
+          <section className="dashboard-card asset-section">
+            <h3>Email Sequence</h3>
+            <ol className="asset-email-list">
+              {draft.emails.map((email, index) => (
+                <li key={index} className="asset-item">
+                  <span className="asset-index">
+                    Email {index + 1}
+                    {email.send_day !== undefined && ` · Day ${email.send_day}`}
+                  </span>
+                  <label className="asset-field">
+                    <span>
+                      Subject <CharCounter value={email.subject} limit={EMAIL_SUBJECT_LIMIT} />
+                    </span>
+                    <input
+                      type="text"
+                      value={email.subject}
+                      onChange={(e) => updateItem("emails", index, { subject: e.target.value })}
+                      onBlur={save}
+                    />
+                  </label>
+                  <textarea
+                    value={email.body}
+                    rows={6}
+                    onChange={(e) => updateItem("emails", index, { body: e.target.value })}
+                    onBlur={save}
+                  />
+                  <div className="asset-item-footer">
+                    <span />
+                    <ItemActions
+                      copyText={`Subject: ${email.subject}\n\n${email.body}`}
+                      busy={busyKey === `emails-${index}`}
+                      onRegenerate={() => regenerate("emails", index)}
+                    />
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+
+        {draft.pieces.length > 0 && (
+          <section className="dashboard-card asset-section">
+            <h3>Repurposed Content</h3>
+            {draft.pieces.map((piece, index) => (
+              <div key={index} className="asset-item">
+                <span className="asset-index">
+                  {piece.format}
+                  {piece.title && ` · ${piece.title}`}
+                </span>
+                <textarea
+                  value={piece.body}
+                  rows={6}
+                  onChange={(e) => updateItem("pieces", index, { body: e.target.value })}
+                  onBlur={save}
+                />
+                <div className="asset-item-footer">
+                  <span />
+                  <ItemActions
+                    copyText={piece.title ? `${piece.title}\n\n${piece.body}` : piece.body}
+                    busy={busyKey === `pieces-${index}`}
+                    onRegenerate={() => regenerate("pieces", index)}
+                  />
+                </div>
+              </div>
+            ))}
+          </section>
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
+export default AssetsView;
@@ -0,0 +1,124 @@
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import "./AnalysisView.css";
+import "./BatchScanPage.css";
+import { MAX_BATCH_URLS, fetchSitemapUrls, parseUrlList } from "./sitemap";
+
+type BatchScanPageProps = {
+  defaultMode: string;
+  modes: string[];
+  busy: boolean;
+  onStart: (mode: string, urls: string[]) => void;
+  onGoBack: () => void;
+};
+
+function BatchScanPage({ defaultMode, modes, busy, onStart, onGoBack }: BatchScanPageProps) {
+  const [input, setInput] = useState("");
+  const [sitemapUrl, setSitemapUrl] = useState("");
+  const [mode, setMode] = useState(defaultMode);
+  const [isFetching, setIsFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const urls = useMemo(() => parseUrlList(input), [input]);
+  const selected = urls.slice(0, MAX_BATCH_URLS);
+
+  const fetchSitemap = async () => {
+    setIsFetching(true);
+    setError(null);
+    try {
+      const found = await fetchSitemapUrls(sitemapUrl);
+      if (found.length === 0) throw new Error("The sitemap does not list any pages.");
+      setInput(found.join("\n"));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read the sitemap.");
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  return (
+    <motion.div
+      className="analysis-view"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.25, ease: "easeOut" }}
+    >
+      <div className="analysis-top">
+        <h2>Site Scan</h2>
+        <motion.button
+          type="button"
+          className="analysis-back-btn"
+          onClick={onGoBack}
+          whileHover={{ y: -2, boxShadow: "0 12px 24px rgba(0, 0, 0, 0.34)" }}
+          transition={{ duration: 0.2, ease: "easeOut" }}
+        >
+          Go Back
+        </motion.button>
+      </div>
+
+      <div className="analysis-dashboard">
+        <section className="dashboard-card batch-section">
+          <h3>Pages</h3>
+          <div className="batch-sitemap-row">
+            <input
+              className="batch-input"
+              type="text"
+              value={sitemapUrl}
+              onChange={(e) => setSitemapUrl(e.target.value)}
+              placeholder="https://example.com/sitemap.xml"
+            />
+            <button
+              type="button"
+              className="batch-secondary-btn"
+              onClick={fetchSitemap}
+              disabled={isFetching || !sitemapUrl.trim()}
+            >
+              {isFetching ? "Fetching..." : "Fetch"}
+            </button>
+          </div>
+          <textarea
+            className="batch-input batch-textarea"
+            rows={8}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Paste URLs, one per line, or the XML of a sitemap"
+          />
+          <span className={urls.length > MAX_BATCH_URLS ? "batch-warning" : "batch-hint"}>
+            {urls.length > MAX_BATCH_URLS
+              ? `${urls.length} pages found. Only the first ${MAX_BATCH_URLS} will be scanned.`
+              : `${urls.length} ${urls.length === 1 ? "page" : "pages"} found.`}
+          </span>
+          {error && <span className="batch-error">{error}</span>}
+        </section>
+
+        <section className="dashboard-card batch-section">
+          <label className="batch-field">
+            <span>Scan mode</span>
+            <select className="batch-input" value={mode} onChange={(e) => setMode(e.target.value)}>
+              {modes.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <span className="batch-hint">
+            Pages open in background tabs a few at a time. Each page is saved to history.
+          </span>
+          <div className="batch-actions">
+            <button
+              type="button"
+              className="batch-start-btn"
+              onClick={() => onStart(mode, selected)}
+              disabled={busy || selected.length === 0}
+            >
+              {busy ? "Another job is running" : `Scan ${selected.length} ${selected.length === 1 ? "page" : "pages"}`}
+            </button>
+          </div>
+        </section>
+      </div>
+    </motion.div>
+  );
+}
+
+export default BatchScanPage;
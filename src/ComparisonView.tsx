@@ -0,0 +1,167 @@
+import { useMemo } from "react";
+import { motion } from "framer-motion";
+import "./AnalysisView.css";
+import "./ComparisonView.css";
+import type { AnalysisResult } from "./api";
+import { ExecutiveScore } from "./AnalysisView";
+import { collectInsights, normalizeInsight } from "./analysisModel";
+import ExportMenu from "./ExportMenu";
+import type { ComparisonRecord, HistoryAnalysis } from "./HistoryPage";
+import { describeMetric, orderKeys, scaleMetrics } from "./metricRegistry";
+import { toOverallScore } from "./scoring";
+
+type ComparisonViewProps = {
+  primary: HistoryAnalysis;
+  primaryUrl?: string;
+  comparison: ComparisonRecord;
+  onGoBack: () => void;
+};
+
+type MetricDelta = {
+  key: string;
+  label: string;
+  ours: number | null;
+  theirs: number | null;
+};
+
+function extractMetricDeltas(primary: AnalysisResult, competitor: AnalysisResult): MetricDelta[] {
+  const ours = new Map(scaleMetrics(primary.conversion_scores).map((metric) => [metric.key, metric.value]));
+  const theirs = new Map(scaleMetrics(competitor.conversion_scores).map((metric) => [metric.key, metric.value]));
+  const keys = orderKeys(Array.from(new Set([...ours.keys(), ...theirs.keys()])), describeMetric);
+  return keys.map((key) => ({
+    key,
+    label: describeMetric(key).label,
+    ours: ours.get(key) ?? null,
+    theirs: theirs.get(key) ?? null,
+  }));
+}
+
+function uniqueInsights(source: AnalysisResult, other: AnalysisResult): string[] {
+  const otherKeys = new Set(collectInsights(other).map(normalizeInsight));
+  const seen = new Set<string>();
+  return collectInsights(source).filter((insight) => {
+    const key = normalizeInsight(insight);
+    if (!key || otherKeys.has(key) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function hostLabel(url: string | undefined, fallback: string): string {
+  if (!url) return fallback;
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+function DeltaBars({ deltas }: { deltas: MetricDelta[] }) {
+  if (deltas.length === 0) return null;
+
+  return (
+    <section className="dashboard-card compare-delta-section">
+      <h3>Metric Deltas</h3>
+      <div className="compare-delta-list">
+        {deltas.map((delta) => {
+          const diff = delta.ours !== null && delta.theirs !== null ? delta.ours - delta.theirs : null;
+          return (
+            <div key={delta.key} className="compare-delta-row">
+              <div className="metric-label-row">
+                <span>{delta.label}</span>
+                <strong>
+                  {delta.ours ?? "–"} vs {delta.theirs ?? "–"}
+                </strong>
+              </div>
+              <div className="compare-delta-track">
+                <span className="compare-delta-axis" />
+                {diff !== null && diff !== 0 && (
+                  <motion.div
+                    className={`compare-delta-fill ${diff > 0 ? "ahead" : "behind"}`}
+                    initial={{ width: 0 }}
+                    animate={{ width: `${Math.abs(diff) / 2}%` }}
+                    transition={{ duration: 0.25, ease: "easeOut" }}
+                  />
+                )}
+              </div>
+              {diff !== null && (
+                <span className={`compare-delta-value ${diff >= 0 ? "ahead" : "behind"}`}>
+                  {diff > 0 ? `+${diff}` : diff}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
+
+function UniqueInsights({ title, items }: { title: string; items: string[] }) {
+  if (items.length === 0) return null;
+
+  return (
+    <section className="dashboard-card insight-section">
+      <div className="insight-toggle">
+        <span>{title}</span>
+        <span className="insight-count">{items.length}</span>
+      </div>
+      <ul className="insight-list">
+        {items.slice(0, 8).map((item, idx) => (
+          <li key={`${title}-${idx}`}>{item}</li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function ComparisonView({ primary, primaryUrl, comparison, onGoBack }: ComparisonViewProps) {
+  const competitor = comparison.competitor;
+  const deltas = useMemo(() => extractMetricDeltas(primary, competitor), [primary, competitor]);
+  const onlyOurs = useMemo(() => uniqueInsights(primary, competitor), [primary, competitor]);
+  const onlyTheirs = useMemo(() => uniqueInsights(competitor, primary), [primary, competitor]);
+  const ourLabel = hostLabel(primaryUrl, "Your page");
+  const theirLabel = hostLabel(comparison.competitor_url, "Competitor");
+
+  return (
+    <motion.div
+      className="analysis-view"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.25, ease: "easeOut" }}
+    >
+      <div className="analysis-top">
+        <h2>Competitor Comparison</h2>
+        <div className="analysis-top-actions">
+          <ExportMenu items={[primary]} />
+          <motion.button
+            type="button"
+            className="analysis-back-btn"
+            onClick={onGoBack}
+            whileHover={{ y: -2, boxShadow: "0 12px 24px rgba(0, 0, 0, 0.34)" }}
+            transition={{ duration: 0.2, ease: "easeOut" }}
+          >
+            Go Back
+          </motion.button>
+        </div>
+      </div>
+
+      <div className="analysis-dashboard">
+        {comparison.summary && (
+          <section className="dashboard-card compare-summary">
+            <p>{comparison.summary}</p>
+          </section>
+        )}
+        <p className="compare-side-label">{ourLabel}</p>
+        <ExecutiveScore score={toOverallScore(primary.score)} overview={primary.overview} />
+        <p className="compare-side-label">{theirLabel}</p>
+        <ExecutiveScore score={toOverallScore(competitor.score)} overview={competitor.overview} />
+        <DeltaBars deltas={deltas} />
+        <UniqueInsights title={`Only on ${ourLabel}`} items={onlyOurs} />
+        <UniqueInsights title={`Only on ${theirLabel}`} items={onlyTheirs} />
+      </div>
+    </motion.div>
+  );
+}
+
+export default ComparisonView;
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { Download } from "lucide-react";
+import "./ExportMenu.css";
+import type { HistoryAnalysis } from "./HistoryPage";
+import { exportItems, type ExportFormat } from "./reportExport";
+import { WebhookError } from "./webhook";
+
+type ExportMenuProps = {
+  items: HistoryAnalysis[];
+  label?: string;
+  className?: string;
+  onError?: (message: string) => void;
+};
+
+const FORMATS: Array<{ key: ExportFormat; label: string }> = [
+  { key: "markdown", label: "Markdown (.md)" },
+  { key: "json", label: "JSON (.json)" },
+  { key: "pdf", label: "PDF / Print" },
+  { key: "jira", label: "Jira CSV (.csv)" },
+  { key: "linear", label: "Linear CSV (.csv)" },
+  { key: "webhook", label: "Send to webhook" },
+];
+
+function ExportMenu({ items, label = "Export", className = "", onError }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  // Without an `onError` handler the message shows under the button instead.
+  const reportError = (message: string) => (onError ? onError(message) : setStatus(message));
+
+  const runExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setStatus(null);
+    if (items.length === 0) {
+      reportError("Select analyses first.");
+      return;
+    }
+    try {
+      const confirmation = await exportItems(items, format);
+      if (confirmation) setStatus(confirmation);
+    } catch (err) {
+      reportError(err instanceof WebhookError ? err.message : "Export failed. Please try again.");
+    }
+  };
+
+  return (
+    <div className="export-menu-wrap">
+      <button
+        type="button"
+        className={`export-menu-btn ${className}`}
+        onClick={() => {
+          setOpen((prev) => !prev);
+          setStatus(null);
+        }}
+      >
+        <Download size={14} />
+        <span>{label}</span>
+      </button>
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            className="export-dropdown"
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            transition={{ duration: 0.15 }}
+          >
+            {FORMATS.map((format) => (
+              <button key={format.key} type="button" onClick={() => runExport(format.key)}>
+                {format.label}
+              </button>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+      {status && (
+        <span className="export-menu-status" role="status">
+          {status}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default ExportMenu;
@@ -1,30 +1,71 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState, type ChangeEvent } from "react";
 import { AnimatePresence, motion } from "framer-motion";
 import {
   ChevronRight,
+  Eye,
   GitCompareArrows,
+  Layers,
   Radar,
   Search,
+  SlidersHorizontal,
   Sparkles,
   Trash2,
+  TrendingUp,
+  Upload,
 } from "lucide-react";
 import "./HistoryPage.css";
+import ArchiveFilterPanel from "./ArchiveFilterPanel";
+import ExportMenu from "./ExportMenu";
+import { getAnalysisName, getItemMode } from "./analysisModel";
+import type { AnalysisResult, CreateResult } from "./api";
+import {
+  DEFAULT_ARCHIVE_FILTERS,
+  applyArchiveFilters,
+  collectFilterOptions,
+  countActiveFilters,
+  loadArchiveFilters,
+  saveArchiveFilters,
+  type ArchiveFilters,
+} from "./archiveFilters";
+import {
+  parseHistoryBundle,
+  type DuplicateStrategy,
+  type ImportPreview,
+  type ImportSummary,
+} from "./historyImport";
+import { historyRepository } from "./historyRepository";
+import { downloadFile } from "./reportExport";
+import { payloadUrl, type QueuedRequest } from "./requestQueue";
+import { SCAN_MODES } from "./scanModes";
+import { toOverallScore } from "./scoring";
+import { buildSearchIndex, highlight, matchSnippet } from "./searchIndex";
+import type { SiteReport } from "./siteReport";
+import { groupByPage, type PageTrend } from "./trends";
+import { useWatchlist } from "./useWatchlist";
+import { findWatch, newWatchedPage, notifyWatchlist, watchStore } from "./watchlist";
 
-type HistoryScore = {
-  value?: number;
-  reasoning?: string;
+export type ComparisonRecord = {
+  competitor_url: string;
+  competitor: AnalysisResult;
+  summary?: string;
 };
 
-export type HistoryAnalysis = {
+export type HistoryAnalysis = AnalysisResult & {
   id: string;
   createdAt: number;
-  asset_type?: string;
-  target_audience?: string;
-  overview?: string;
   url?: string;
-  sections?: { id?: string; title?: string; insights?: string[] }[];
-  verdicts?: { marketing?: string; strategic?: string };
-  score?: HistoryScore;
+  mode?: ItemMode;
+  scan_mode?: string;
+  source?: "ai" | "local";
+  seo_baseline?: AnalysisResult;
+  comparison?: ComparisonRecord;
+  assets?: CreateResult;
+  /** Per-page results of a batch scan; only on the site report entry. */
+  batch?: SiteReport;
+  /** Site report a page scan belongs to, when it was part of a batch. */
+  batch_id?: string;
+  /** Set when the result stream broke before the backend finished. */
+  incomplete?: boolean;
 };
 
 type HistoryPageProps = {
@@ -32,37 +73,24 @@ type HistoryPageProps = {
   onGoBack: () => void;
   onDeleteMany: (ids: string[]) => void;
   onOpenAnalysis: (item: HistoryAnalysis) => void;
+  onImport: (items: HistoryAnalysis[], strategy: DuplicateStrategy) => Promise<ImportSummary>;
+  onOpenTrend: (key: string) => void;
+  pending: QueuedRequest[];
+  onRetryPending: (id: string) => void;
+  onCancelPending: (id: string) => void;
 };
 
-type ModeFilter = "all" | "scan" | "compare" | "create";
-type ItemMode = "scan" | "compare" | "create";
-
-function getAnalysisName(item: HistoryAnalysis): string {
-  if (item.target_audience && item.target_audience.trim()) return item.target_audience.trim();
-  if (item.overview && item.overview.trim()) return item.overview.trim().slice(0, 110);
-  return "Untitled analysis";
-}
-
-function getItemMode(item: HistoryAnalysis): ItemMode {
-  const source = `${item.asset_type ?? ""} ${item.overview ?? ""}`.toLowerCase();
-  if (source.includes("compare") || source.includes("competitor") || source.includes("benchmark")) {
-    return "compare";
-  }
-  if (source.includes("create") || source.includes("generate") || source.includes("campaign")) {
-    return "create";
-  }
-  return "scan";
-}
+export type ItemMode = "scan" | "compare" | "create" | "batch";
+type ListMode = "entries" | "pages";
 
 function getScoreValue(item: HistoryAnalysis): number {
-  const raw = item.score?.value ?? 0;
-  if (raw <= 10) return Math.max(0, Math.min(100, Math.round(raw * 10)));
-  return Math.max(0, Math.min(100, Math.round(raw)));
+  return toOverallScore(item.score);
 }
 
 function getModeLabel(mode: ItemMode): string {
   if (mode === "scan") return "SCAN";
   if (mode === "compare") return "COMPARE";
+  if (mode === "batch") return "SITE";
   return "CREATE";
 }
 
@@ -75,30 +103,178 @@ function formatDateTime(timestamp: number): string {
   });
 }
 
+const PAGE_SIZE = 50;
+const SAVE_DELAY_MS = 300;
+
+function Highlighted({ text, query }: { text: string; query: string }) {
+  return (
+    <>
+      {highlight(text, query).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="search-hit">
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  );
+}
+
+function describeImport(summary: ImportSummary): string {
+  const parts = [`Imported ${summary.added}`];
+  if (summary.replaced) parts.push(`replaced ${summary.replaced}`);
+  if (summary.skipped) parts.push(`skipped ${summary.skipped} duplicate${summary.skipped === 1 ? "" : "s"}`);
+  return `${parts.join(", ")}.`;
+}
+
 function ModeIcon({ mode }: { mode: ItemMode }) {
   if (mode === "scan") return <Radar size={16} />;
   if (mode === "compare") return <GitCompareArrows size={16} />;
+  if (mode === "batch") return <Layers size={16} />;
   return <Sparkles size={16} />;
 }
 
-function HistoryPage({ history, onGoBack, onDeleteMany, onOpenAnalysis }: HistoryPageProps) {
-  const [search, setSearch] = useState("");
-  const [modeFilter, setModeFilter] = useState<ModeFilter>("all");
+function describePending(item: QueuedRequest): string {
+  if (item.status === "sending") return "Sending...";
+  if (item.status === "failed") return "Failed";
+  const time = new Date(item.nextAttemptAt).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+  return `Pending · retry ${time}`;
+}
+
+function pendingUrl(item: QueuedRequest): string {
+  return item.url ?? payloadUrl(item.payload);
+}
+
+function PendingRow({
+  item,
+  onRetry,
+  onCancel,
+}: {
+  item: QueuedRequest;
+  onRetry: () => void;
+  onCancel: () => void;
+}) {
+  return (
+    <div className={`analysis-row pending-row ${item.status}`} title={item.lastError}>
+      <div className="row-left-icon">
+        <ModeIcon mode={item.payload.kind} />
+      </div>
+      <div className="row-main">
+        <p className="row-title">{item.label}</p>
+        <p className="row-url">{pendingUrl(item)}</p>
+        {item.lastError && <p className="row-snippet">{item.lastError}</p>}
+      </div>
+      <div className="row-right">
+        <span className={`pending-badge ${item.status}`}>{describePending(item)}</span>
+        <div className="pending-actions">
+          <button type="button" onClick={onRetry} disabled={item.status === "sending"}>
+            Retry
+          </button>
+          <button type="button" onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function HistoryPage({
+  history,
+  onGoBack,
+  onDeleteMany,
+  onOpenAnalysis,
+  onImport,
+  onOpenTrend,
+  pending,
+  onRetryPending,
+  onCancelPending,
+}: HistoryPageProps) {
+  const [filters, setFilters] = useState<ArchiveFilters>(DEFAULT_ARCHIVE_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const saveTimerRef = useRef<number | undefined>(undefined);
+  const [listMode, setListMode] = useState<ListMode>("entries");
   const [isEditMode, setIsEditMode] = useState(false);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [showConfirm, setShowConfirm] = useState(false);
   const [localNotice, setLocalNotice] = useState<string | null>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>("skip");
+  const [isImporting, setIsImporting] = useState(false);
+  const [unreadable, setUnreadable] = useState<unknown[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const existingIds = useMemo(() => new Set(history.map((item) => item.id)), [history]);
+  const duplicateCount = importPreview
+    ? importPreview.items.filter((item) => existingIds.has(item.id)).length
+    : 0;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadArchiveFilters()
+      .then((stored) => {
+        if (!cancelled) setFilters(stored);
+      })
+      .catch(() => undefined);
+    historyRepository
+      .listUnreadable()
+      .then((items) => {
+        if (!cancelled) setUnreadable(items);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(saveTimerRef.current);
+    };
+  }, []);
+
+  const exportUnreadable = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`rook-lite-unreadable-history-${date}.json`, JSON.stringify(unreadable, null, 2), "application/json");
+  };
+
+  const discardUnreadable = () => {
+    historyRepository
+      .discardUnreadable()
+      .then(() => setUnreadable([]))
+      .catch(() => setLocalNotice("Could not discard the unreadable entries."));
+  };
 
-  const filteredHistory = useMemo(() => {
-    const q = search.trim().toLowerCase();
-    return history.filter((item) => {
-      const mode = getItemMode(item);
-      const filterMatch = modeFilter === "all" || mode === modeFilter;
-      const searchSource = `${getAnalysisName(item)} ${item.url ?? ""} ${mode}`.toLowerCase();
-      const searchMatch = !q || searchSource.includes(q);
-      return filterMatch && searchMatch;
-    });
-  }, [history, modeFilter, search]);
+  const updateFilters = (patch: Partial<ArchiveFilters>) => {
+    const next = { ...filters, ...patch };
+    setFilters(next);
+    setVisibleCount(PAGE_SIZE);
+    window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(() => {
+      saveArchiveFilters(next).catch(() => undefined);
+    }, SAVE_DELAY_MS);
+  };
+
+  const index = useMemo(() => buildSearchIndex(history), [history]);
+  const filterOptions = useMemo(() => collectFilterOptions(history), [history]);
+  const filteredHistory = useMemo(() => applyArchiveFilters(history, filters, index), [history, filters, index]);
+  const activeFilterCount = countActiveFilters(filters);
+  const query = filters.query.trim();
+
+  const pageTrends = useMemo(() => groupByPage(filteredHistory), [filteredHistory]);
+  const watchlist = useWatchlist();
+
+  /** Watches a page in the scan mode of its latest run, or stops watching it. */
+  const toggleWatch = async (trend: PageTrend) => {
+    const watched = findWatch(watchlist, trend.url);
+    const latest = trend.runs[trend.runs.length - 1];
+    try {
+      if (watched) await watchStore.remove(watched.id);
+      else await watchStore.add(newWatchedPage(trend.url, latest.scan_mode ?? SCAN_MODES[0]));
+      await notifyWatchlist();
+      setLocalNotice(watched ? `Stopped watching ${trend.key}.` : `Watching ${trend.key}. It is checked daily.`);
+    } catch {
+      setLocalNotice("Could not update the watchlist.");
+    }
+  };
 
   const recentViewed = filteredHistory.slice(0, 3);
 
@@ -125,6 +301,37 @@ function HistoryPage({ history, onGoBack, onDeleteMany, onOpenAnalysis }: Histor
     setIsEditMode(false);
   };
 
+  const handleImportFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setLocalNotice(null);
+    try {
+      const preview = parseHistoryBundle(await file.text());
+      if (preview.items.length === 0) {
+        setLocalNotice("No valid analyses found in that file.");
+        return;
+      }
+      setDuplicateStrategy("skip");
+      setImportPreview(preview);
+    } catch (err) {
+      setLocalNotice(err instanceof Error ? err.message : "Could not read that file.");
+    }
+  };
+
+  const confirmImport = async () => {
+    if (!importPreview) return;
+    setIsImporting(true);
+    try {
+      setLocalNotice(describeImport(await onImport(importPreview.items, duplicateStrategy)));
+      setImportPreview(null);
+    } catch {
+      setLocalNotice("Import failed. Please try again.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   return (
     <div className="history-dark-page">
       <div className="history-hero-bg" aria-hidden>
@@ -153,12 +360,39 @@ function HistoryPage({ history, onGoBack, onDeleteMany, onOpenAnalysis }: Histor
           <input
             className="history-dark-search"
             type="text"
-            placeholder="Search by page title, URL, or mode..."
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search overviews, insights, verdicts, URLs..."
+            value={filters.query}
+            onChange={(e) =>
+              updateFilters(
+                // Typing a query switches to ranked results unless another sort was chosen explicitly.
+                filters.sort === "date-desc" && !filters.query && e.target.value
+                  ? { query: e.target.value, sort: "relevance" }
+                  : { query: e.target.value }
+              )
+            }
           />
+          <button
+            type="button"
+            className={`history-filter-toggle ${showFilters || activeFilterCount > 0 ? "active" : ""}`}
+            onClick={() => setShowFilters((prev) => !prev)}
+            aria-label="Filters and sorting"
+          >
+            <SlidersHorizontal size={15} />
+            {activeFilterCount > 0 && <span className="history-filter-count">{activeFilterCount}</span>}
+          </button>
         </div>
 
+        <AnimatePresence>
+          {showFilters && (
+            <ArchiveFilterPanel
+              filters={filters}
+              options={filterOptions}
+              onChange={updateFilters}
+              onReset={() => updateFilters({ ...DEFAULT_ARCHIVE_FILTERS, query: filters.query })}
+            />
+          )}
+        </AnimatePresence>
+
         <h3 className="history-dark-title">Recently Viewed</h3>
         <div className="history-recent-grid">
           {recentViewed.map((item) => {
@@ -184,7 +418,26 @@ function HistoryPage({ history, onGoBack, onDeleteMany, onOpenAnalysis }: Histor
         </div>
 
         <div className="history-all-header">
-          <h3 className="history-dark-title">All Analyses</h3>
+          <div className="history-list-toggle">
+            <button
+              type="button"
+              className={listMode === "entries" ? "active" : ""}
+              onClick={() => setListMode("entries")}
+            >
+              All Analyses
+            </button>
+            <button
+              type="button"
+              className={listMode === "pages" ? "active" : ""}
+              onClick={() => {
+                setListMode("pages");
+                setIsEditMode(false);
+                setSelectedIds([]);
+              }}
+            >
+              By Page
+            </button>
+          </div>
           <div className="all-actions">
             <motion.div
               initial={{ opacity: 0, y: -6 }}
@@ -193,89 +446,223 @@ function HistoryPage({ history, onGoBack, onDeleteMany, onOpenAnalysis }: Histor
             >
               <select
                 className="history-filter-select"
-                value={modeFilter}
-                onChange={(e) => setModeFilter(e.target.value as ModeFilter)}
+                value={filters.mode}
+                onChange={(e) => updateFilters({ mode: e.target.value as ArchiveFilters["mode"] })}
               >
                 <option value="all">All</option>
                 <option value="scan">Scans</option>
                 <option value="compare">Compare</option>
                 <option value="create">Create</option>
+                <option value="batch">Site reports</option>
               </select>
             </motion.div>
+            {!isEditMode && (
+              <button className="edit-btn import-btn" type="button" onClick={() => fileInputRef.current?.click()}>
+                <Upload size={13} />
+                <span>Import</span>
+              </button>
+            )}
+            <input
+              ref={fileInputRef}
+              className="import-file-input"
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImportFile}
+            />
+            {isEditMode && (
+              <ExportMenu
+                items={history.filter((item) => selectedIds.includes(item.id))}
+                onError={setLocalNotice}
+              />
+            )}
             {isEditMode && (
               <button className="inline-delete-btn" type="button" onClick={handleDeleteSelected}>
                 Delete Selected
               </button>
             )}
-            <motion.button
-              className="edit-btn"
-              type="button"
-              initial={{ opacity: 0, y: -6 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.2, ease: "easeOut", delay: 0.02 }}
-              onClick={() => {
-                setIsEditMode((prev) => !prev);
-                setSelectedIds([]);
-                setLocalNotice(null);
-              }}
-            >
-              {isEditMode ? "Done" : "Edit"}
-            </motion.button>
-          </div>
-        </div>
-
-        <div className="history-all-list">
-          {filteredHistory.length === 0 && <p className="history-dark-empty">No analyses found.</p>}
-          {filteredHistory.map((item) => {
-            const mode = getItemMode(item);
-            return (
+            {listMode === "entries" && (
               <motion.button
-                key={item.id}
+                className="edit-btn"
                 type="button"
-                className={`analysis-row ${isEditMode && selectedIds.includes(item.id) ? "selected" : ""}`}
-                onClick={isEditMode ? () => togglePick(item.id) : () => onOpenAnalysis(item)}
-                whileHover={{ backgroundColor: "rgba(25, 29, 39, 0.92)" }}
-                transition={{ duration: 0.18, ease: "easeOut" }}
+                initial={{ opacity: 0, y: -6 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.2, ease: "easeOut", delay: 0.02 }}
+                onClick={() => {
+                  setIsEditMode((prev) => !prev);
+                  setSelectedIds([]);
+                  setLocalNotice(null);
+                }}
               >
-                <div className="row-left-icon">
-                  <ModeIcon mode={mode} />
-                </div>
+                {isEditMode ? "Done" : "Edit"}
+              </motion.button>
+            )}
+          </div>
+        </div>
 
-                <div className="row-main">
-                  <p className="row-title">{getAnalysisName(item)}</p>
-                  <p className="row-url">{item.url || "No URL stored"}</p>
-                </div>
+        {listMode === "pages" && (
+          <div className="history-all-list">
+            {pageTrends.length === 0 && <p className="history-dark-empty">No page scans found.</p>}
+            {pageTrends.map((trend) => {
+              const latest = trend.runs[trend.runs.length - 1];
+              const previous = trend.runs[trend.runs.length - 2];
+              const delta = previous ? getScoreValue(latest) - getScoreValue(previous) : null;
+              const watched = Boolean(findWatch(watchlist, trend.url));
+              return (
+                <div key={trend.key} className="page-row-item">
+                  <motion.button
+                    type="button"
+                    className="analysis-row page-row"
+                    onClick={() => onOpenTrend(trend.key)}
+                    whileHover={{ backgroundColor: "rgba(25, 29, 39, 0.92)" }}
+                    transition={{ duration: 0.18, ease: "easeOut" }}
+                  >
+                    <div className="row-left-icon">
+                      <TrendingUp size={16} />
+                    </div>
 
-                <div className="row-right">
-                  <span className="score-badge small">{getScoreValue(item)}</span>
-                  <span className="row-date">{formatDateTime(item.createdAt)}</span>
-                </div>
+                    <div className="row-main">
+                      <p className="row-title">{trend.key}</p>
+                      <p className="row-url">
+                        {trend.runs.length} {trend.runs.length === 1 ? "scan" : "scans"} · last{" "}
+                        {formatDateTime(latest.createdAt)}
+                      </p>
+                    </div>
+
+                    <div className="row-right">
+                      <span className="score-badge small">{getScoreValue(latest)}</span>
+                      {delta !== null && (
+                        <span className={`row-delta ${delta >= 0 ? "up" : "down"}`}>
+                          {delta > 0 ? `+${delta}` : delta}
+                        </span>
+                      )}
+                    </div>
 
-                <div className="row-arrow">
-                  <ChevronRight size={16} />
+                    <div className="row-arrow">
+                      <ChevronRight size={16} />
+                    </div>
+                  </motion.button>
+
+                  {/* A sibling of the row, not inside it: buttons cannot contain interactive content. */}
+                  <button
+                    type="button"
+                    className={`row-watch ${watched ? "active" : ""}`}
+                    title={watched ? "Stop watching" : "Watch: re-scan on a schedule"}
+                    aria-label={`Watch ${trend.key}`}
+                    aria-pressed={watched}
+                    onClick={() => void toggleWatch(trend)}
+                  >
+                    <Eye size={14} />
+                  </button>
                 </div>
+              );
+            })}
+          </div>
+        )}
 
-                {!isEditMode && (
-                  <span className="row-trash">
-                    <Trash2 size={14} />
-                  </span>
-                )}
+        {listMode === "entries" && pending.length > 0 && (
+          <div className="history-pending-list">
+            {pending.map((item) => (
+              <PendingRow
+                key={item.id}
+                item={item}
+                onRetry={() => onRetryPending(item.id)}
+                onCancel={() => onCancelPending(item.id)}
+              />
+            ))}
+          </div>
+        )}
 
-                {isEditMode && (
-                  <input
-                    className="row-checkbox"
-                    type="checkbox"
-                    checked={selectedIds.includes(item.id)}
-                    onChange={() => togglePick(item.id)}
-                    onClick={(e) => e.stopPropagation()}
-                  />
-                )}
-              </motion.button>
-            );
-          })}
-        </div>
+        {listMode === "entries" && (
+          <div className="history-all-list">
+            {filteredHistory.length === 0 && <p className="history-dark-empty">No analyses found.</p>}
+            {filteredHistory.slice(0, visibleCount).map((item) => {
+              const mode = getItemMode(item);
+              const snippet = query ? matchSnippet(item, query) : null;
+              return (
+                <motion.button
+                  key={item.id}
+                  type="button"
+                  className={`analysis-row ${isEditMode && selectedIds.includes(item.id) ? "selected" : ""}`}
+                  onClick={isEditMode ? () => togglePick(item.id) : () => onOpenAnalysis(item)}
+                  whileHover={{ backgroundColor: "rgba(25, 29, 39, 0.92)" }}
+                  transition={{ duration: 0.18, ease: "easeOut" }}
+                >
+                  <div className="row-left-icon">
+                    <ModeIcon mode={mode} />
+                  </div>
+
+                  <div className="row-main">
+                    <p className="row-title">
+                      <Highlighted text={getAnalysisName(item)} query={query} />
+                    </p>
+                    <p className="row-url">
+                      {item.url ? <Highlighted text={item.url} query={query} /> : "No URL stored"}
+                    </p>
+                    {snippet && (
+                      <p className="row-snippet">
+                        <Highlighted text={snippet} query={query} />
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="row-right">
+                    <span className="score-badge small">{getScoreValue(item)}</span>
+                    {item.incomplete && <span className="row-incomplete">Incomplete</span>}
+                    {item.source === "local" && <span className="row-local">Local audit</span>}
+                    <span className="row-date">{formatDateTime(item.createdAt)}</span>
+                  </div>
+
+                  <div className="row-arrow">
+                    <ChevronRight size={16} />
+                  </div>
+
+                  {!isEditMode && (
+                    <span className="row-trash">
+                      <Trash2 size={14} />
+                    </span>
+                  )}
+
+                  {isEditMode && (
+                    <input
+                      className="row-checkbox"
+                      type="checkbox"
+                      checked={selectedIds.includes(item.id)}
+                      onChange={() => togglePick(item.id)}
+                      onClick={(e) => e.stopPropagation()}
+                    />
+                  )}
+                </motion.button>
+              );
+            })}
+          </div>
+        )}
+
+        {listMode === "entries" && filteredHistory.length > visibleCount && (
+          <button
+            type="button"
+            className="edit-btn history-show-more"
+            onClick={() => setVisibleCount((prev) => prev + PAGE_SIZE)}
+          >
+            Show {Math.min(PAGE_SIZE, filteredHistory.length - visibleCount)} more of{" "}
+            {filteredHistory.length - visibleCount}
+          </button>
+        )}
 
         {localNotice && <p className="history-dark-notice">{localNotice}</p>}
+        {unreadable.length > 0 && (
+          <div className="history-unreadable">
+            <p className="history-dark-notice">
+              {unreadable.length} {unreadable.length === 1 ? "entry" : "entries"} saved by an older version could not
+              be read. They are kept aside unchanged; export them before discarding.
+            </p>
+            <button type="button" className="edit-btn" onClick={exportUnreadable}>
+              Export
+            </button>
+            <button type="button" className="edit-btn" onClick={discardUnreadable}>
+              Discard
+            </button>
+          </div>
+        )}
       </div>
 
       <AnimatePresence>
@@ -306,6 +693,72 @@ function HistoryPage({ history, onGoBack, onDeleteMany, onOpenAnalysis }: Histor
           </motion.div>
         )}
       </AnimatePresence>
+
+      <AnimatePresence>
+        {importPreview && (
+          <motion.div
+            className="confirm-overlay"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="confirm-dialog import-dialog"
+              initial={{ opacity: 0, y: 12, scale: 0.98 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: 8, scale: 0.98 }}
+              transition={{ duration: 0.16, ease: "easeOut" }}
+            >
+              <p>
+                Import {importPreview.items.length} {importPreview.items.length === 1 ? "analysis" : "analyses"}
+                {importPreview.legacy ? " from a legacy history file" : ""}?
+              </p>
+              <p className="import-counts">
+                {importPreview.items.length - duplicateCount} new · {duplicateCount} duplicate
+                {importPreview.rejected.length > 0 && ` · ${importPreview.rejected.length} invalid (ignored)`}
+              </p>
+              <ul className="import-preview-list">
+                {importPreview.items.slice(0, 6).map((item) => (
+                  <li key={item.id}>
+                    <span>{getAnalysisName(item)}</span>
+                    {existingIds.has(item.id) && <span className="import-duplicate-tag">Duplicate</span>}
+                  </li>
+                ))}
+                {importPreview.items.length > 6 && (
+                  <li className="import-more">+{importPreview.items.length - 6} more</li>
+                )}
+              </ul>
+              {duplicateCount > 0 && (
+                <label className="import-strategy">
+                  <span>Duplicates</span>
+                  <select
+                    className="history-filter-select"
+                    value={duplicateStrategy}
+                    onChange={(e) => setDuplicateStrategy(e.target.value as DuplicateStrategy)}
+                  >
+                    <option value="skip">Skip</option>
+                    <option value="replace">Replace</option>
+                    <option value="keep-both">Keep both</option>
+                  </select>
+                </label>
+              )}
+              <div className="confirm-actions">
+                <button type="button" className="confirm-btn confirm-btn-cancel" onClick={() => setImportPreview(null)}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  className="confirm-btn confirm-btn-import"
+                  onClick={confirmImport}
+                  disabled={isImporting}
+                >
+                  {isImporting ? "Importing..." : "Import"}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   );
 }
@@ -0,0 +1,250 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import "./AnalysisView.css";
+import "./SettingsPage.css";
+import "./ProfilePage.css";
+import { fetchProfile, signInWithOAuth, signInWithPassword, signOut, type AccountProfile } from "./auth";
+import { historyRepository } from "./historyRepository";
+import { useAuth } from "./useAuth";
+
+type ProfilePageProps = {
+  /** Opens the sign-out confirmation immediately (used by the gear menu's Logout action). */
+  confirmSignOut?: boolean;
+  onGoBack: () => void;
+};
+
+const OAUTH_PROVIDERS = [
+  { key: "google", label: "Continue with Google" },
+  { key: "github", label: "Continue with GitHub" },
+];
+
+function formatQuota(usage: AccountProfile["usage"]): string {
+  return usage.limit === null ? `${usage.used} scans used · unlimited` : `${usage.used} of ${usage.limit} scans used`;
+}
+
+function SignInForm() {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<string | null>(null);
+
+  const run = async (key: string, action: () => Promise<unknown>) => {
+    setPending(key);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign-in failed. Please try again.");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!email.trim() || !password) {
+      setError("Enter your email and password.");
+      return;
+    }
+    run("password", () => signInWithPassword(email, password));
+  };
+
+  return (
+    <section className="dashboard-card settings-section">
+      <h3>Sign in</h3>
+      <form className="profile-form" onSubmit={handleSubmit}>
+        <label className="settings-field">
+          <span className="settings-label">Email</span>
+          <input
+            className="settings-input"
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+        </label>
+        <label className="settings-field">
+          <span className="settings-label">Password</span>
+          <input
+            className="settings-input"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+        </label>
+        <button type="submit" className="settings-save-btn" disabled={pending !== null}>
+          {pending === "password" ? "Signing in..." : "Sign in"}
+        </button>
+      </form>
+      <div className="profile-divider">
+        <span>or</span>
+      </div>
+      {OAUTH_PROVIDERS.map((provider) => (
+        <button
+          key={provider.key}
+          type="button"
+          className="settings-secondary-btn"
+          disabled={pending !== null}
+          onClick={() => run(provider.key, () => signInWithOAuth(provider.key))}
+        >
+          {pending === provider.key ? "Waiting for sign-in..." : provider.label}
+        </button>
+      ))}
+      {error && <span className="settings-error">{error}</span>}
+    </section>
+  );
+}
+
+function AccountDetails({ profile }: { profile: AccountProfile }) {
+  const { usage } = profile;
+  const percent = usage.limit ? Math.min(100, Math.round((usage.used / usage.limit) * 100)) : 0;
+
+  return (
+    <>
+      <section className="dashboard-card profile-account">
+        <span className="profile-avatar">{(profile.name || profile.email).charAt(0).toUpperCase()}</span>
+        <div>
+          <p className="profile-name">{profile.name || profile.email}</p>
+          {profile.name && <p className="settings-hint">{profile.email}</p>}
+        </div>
+        <span className="profile-plan">{profile.plan}</span>
+      </section>
+
+      <section className="dashboard-card settings-section">
+        <h3>Usage</h3>
+        <div className="metric-label-row">
+          <span>{formatQuota(usage)}</span>
+          {usage.limit !== null && <strong>{percent}%</strong>}
+        </div>
+        {usage.limit !== null && (
+          <div className="metric-bar-track">
+            <motion.div
+              className={`metric-bar-fill ${percent >= 90 ? "profile-quota-high" : ""}`}
+              initial={{ width: 0 }}
+              animate={{ width: `${percent}%` }}
+              transition={{ duration: 0.3, ease: "easeOut" }}
+            />
+          </div>
+        )}
+        {usage.resets_at && (
+          <span className="settings-hint">Resets {new Date(usage.resets_at).toLocaleDateString()}</span>
+        )}
+      </section>
+    </>
+  );
+}
+
+function ProfilePage({ confirmSignOut = false, onGoBack }: ProfilePageProps) {
+  const { ready, tokens } = useAuth();
+  const [profile, setProfile] = useState<AccountProfile | null>(null);
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [showConfirm, setShowConfirm] = useState(confirmSignOut);
+  const [clearHistory, setClearHistory] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const signedIn = tokens !== null;
+
+  useEffect(() => {
+    if (!signedIn) return;
+    let active = true;
+    fetchProfile()
+      .then((loaded) => {
+        if (!active) return;
+        setProfile(loaded);
+        setProfileError(null);
+      })
+      .catch((err) => {
+        if (active) setProfileError(err instanceof Error ? err.message : "Could not load your profile.");
+      });
+    return () => {
+      active = false;
+    };
+  }, [signedIn]);
+
+  const handleSignOut = async () => {
+    setShowConfirm(false);
+    try {
+      await signOut();
+      if (clearHistory) await historyRepository.clear();
+      setProfile(null);
+      setNotice(clearHistory ? "Signed out and cleared local history." : "Signed out.");
+    } catch {
+      setNotice("Could not finish signing out. Please try again.");
+    }
+  };
+
+  return (
+    <motion.div
+      className="analysis-view"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.25, ease: "easeOut" }}
+    >
+      <div className="analysis-top">
+        <h2>Profile</h2>
+        <motion.button
+          type="button"
+          className="analysis-back-btn"
+          onClick={onGoBack}
+          whileHover={{ y: -2, boxShadow: "0 12px 24px rgba(0, 0, 0, 0.34)" }}
+          transition={{ duration: 0.2, ease: "easeOut" }}
+        >
+          Go Back
+        </motion.button>
+      </div>
+
+      <div className="analysis-dashboard">
+        {!ready && <p className="settings-hint">Loading...</p>}
+        {ready && !signedIn && <SignInForm />}
+        {ready && signedIn && (
+          <>
+            {profile && <AccountDetails profile={profile} />}
+            {!profile && !profileError && <p className="settings-hint">Loading your account...</p>}
+            {profileError && <p className="settings-error">{profileError}</p>}
+            <div className="settings-actions">
+              <button type="button" className="settings-secondary-btn" onClick={() => setShowConfirm(true)}>
+                Sign out
+              </button>
+            </div>
+          </>
+        )}
+        {notice && <p className="settings-notice">{notice}</p>}
+      </div>
+
+      <AnimatePresence>
+        {showConfirm && signedIn && (
+          <motion.div
+            className="profile-confirm-overlay"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="profile-confirm-dialog"
+              initial={{ opacity: 0, y: 12, scale: 0.98 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: 8, scale: 0.98 }}
+              transition={{ duration: 0.16, ease: "easeOut" }}
+            >
+              <p>Sign out of Rook Lite?</p>
+              <label className="profile-checkbox">
+                <input type="checkbox" checked={clearHistory} onChange={(e) => setClearHistory(e.target.checked)} />
+                <span>Also clear history on this device</span>
+              </label>
+              <div className="settings-actions">
+                <button type="button" className="settings-secondary-btn" onClick={() => setShowConfirm(false)}>
+                  Cancel
+                </button>
+                <button type="button" className="settings-save-btn" onClick={handleSignOut}>
+                  Sign out
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+}
+
+export default ProfilePage;
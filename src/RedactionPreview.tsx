@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import "./RedactionPreview.css";
+import { REDACTION_LABELS, redactUrl, type BuiltInRedaction, type RedactionResult } from "./redaction";
+import { isDomainBlocked, prepareOutgoingPage, settingsStore } from "./settings";
+import { extractPage, getActiveTab } from "./tabs";
+
+type RedactionPreviewProps = {
+  onClose: () => void;
+};
+
+type PreviewState =
+  | { status: "loading" }
+  | { status: "error"; message: string }
+  | { status: "ready"; url: string; blocked: boolean; result: RedactionResult; payload: string };
+
+const MASK_PATTERN = /(\[[A-Z][A-Z0-9 _-]*\])/g;
+
+function countLabel(key: string): string {
+  return REDACTION_LABELS[key as BuiltInRedaction] ?? key;
+}
+
+async function buildPreview(): Promise<PreviewState> {
+  const tab = await getActiveTab();
+  if (!tab?.url) return { status: "error", message: "No active tab to preview." };
+
+  const [page, settings] = await Promise.all([extractPage(tab), settingsStore.get()]);
+  const result = prepareOutgoingPage(page, settings);
+  return {
+    status: "ready",
+    url: tab.url,
+    blocked: isDomainBlocked(tab.url, settings.blockedDomains),
+    result,
+    payload: JSON.stringify({ url: redactUrl(tab.url, settings.redaction), page: result.page }, null, 2),
+  };
+}
+
+function RedactionPreview({ onClose }: RedactionPreviewProps) {
+  const [state, setState] = useState<PreviewState>({ status: "loading" });
+
+  useEffect(() => {
+    let active = true;
+    buildPreview()
+      .then((next) => {
+        if (active) setState(next);
+      })
+      .catch((err) => {
+        if (active) setState({ status: "error", message: err instanceof Error ? err.message : "Could not read this page." });
+      });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return (
+    <motion.div
+      className="home-modal-overlay"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.25 }}
+    >
+      <motion.div
+        className="home-modal redaction-preview"
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.9 }}
+        transition={{ duration: 0.25 }}
+      >
+        <div className="redaction-preview-head">
+          <h3>Outgoing Data</h3>
+          <button type="button" className="redaction-preview-close" onClick={onClose} aria-label="Close preview">
+            ×
+          </button>
+        </div>
+
+        {state.status === "loading" && <p className="redaction-preview-note">Reading page...</p>}
+        {state.status === "error" && <p className="redaction-preview-note error">{state.message}</p>}
+        {state.status === "ready" && (
+          <>
+            {state.blocked && (
+              <p className="redaction-preview-note error">
+                This domain is blocked in Settings, so nothing will be sent.
+              </p>
+            )}
+            <p className="redaction-preview-note">
+              {state.result.total === 0
+                ? "Nothing was redacted on this page."
+                : `${state.result.total} ${state.result.total === 1 ? "item" : "items"} redacted before sending.`}
+            </p>
+            {state.result.total > 0 && (
+              <ul className="redaction-counts">
+                {Object.entries(state.result.counts).map(([key, count]) => (
+                  <li key={key}>
+                    <span>{countLabel(key)}</span>
+                    <strong>{count}</strong>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <pre className="redaction-payload">
+              {state.payload.split(MASK_PATTERN).map((part, index) =>
+                index % 2 === 1 ? (
+                  <mark key={index} className="redaction-mask">
+                    {part}
+                  </mark>
+                ) : (
+                  part
+                )
+              )}
+            </pre>
+          </>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
+
+export default RedactionPreview;
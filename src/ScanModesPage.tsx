@@ -0,0 +1,309 @@
+import { useRef, useState, type ChangeEvent } from "react";
+import { motion } from "framer-motion";
+import "./AnalysisView.css";
+import "./SettingsPage.css";
+import "./ScanModesPage.css";
+import { downloadFile } from "./reportExport";
+import {
+  EXTRACTION_FIELDS,
+  normalizeScanMode,
+  parseScanModes,
+  scanModeStore,
+  serializeScanModes,
+  validateScanMode,
+  type CustomScanMode,
+  type ExtractionField,
+} from "./scanModes";
+import { useScanModes } from "./useScanModes";
+
+type ScanModesPageProps = {
+  onGoBack: () => void;
+};
+
+/** Weights stay raw text while editing so a half-typed number is not rejected mid-keystroke. */
+type RubricDraft = { id: string; label: string; weight: string };
+type ModeDraft = Omit<CustomScanMode, "rubric"> & { rubric: RubricDraft[] };
+
+function emptyDraft(): ModeDraft {
+  return {
+    id: crypto.randomUUID(),
+    name: "",
+    instructions: "",
+    fields: EXTRACTION_FIELDS.map((field) => field.key),
+    rubric: [{ id: crypto.randomUUID(), label: "", weight: "1" }],
+  };
+}
+
+function toDraft(mode: CustomScanMode): ModeDraft {
+  return {
+    ...mode,
+    rubric: mode.rubric.map((metric) => ({ id: metric.key, label: metric.label, weight: String(metric.weight) })),
+  };
+}
+
+function fromDraft(draft: ModeDraft): CustomScanMode {
+  return normalizeScanMode({
+    ...draft,
+    rubric: draft.rubric.map((metric) => ({ key: "", label: metric.label, weight: Number(metric.weight) })),
+  });
+}
+
+function ModeEditor({
+  initial,
+  others,
+  onSaved,
+  onCancel,
+}: {
+  initial: ModeDraft;
+  others: CustomScanMode[];
+  onSaved: (mode: CustomScanMode) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState(initial);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (patch: Partial<ModeDraft>) => setDraft((prev) => ({ ...prev, ...patch }));
+  const updateMetric = (id: string, patch: Partial<RubricDraft>) =>
+    update({ rubric: draft.rubric.map((metric) => (metric.id === id ? { ...metric, ...patch } : metric)) });
+  const toggleField = (key: ExtractionField, checked: boolean) =>
+    update({ fields: checked ? [...draft.fields, key] : draft.fields.filter((field) => field !== key) });
+
+  const save = async () => {
+    const mode = fromDraft(draft);
+    const invalid = validateScanMode(mode, others);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      onSaved(await scanModeStore.save(mode));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save the scan mode.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="dashboard-card settings-section">
+      <h3>{others.some((mode) => mode.id === draft.id) ? "Edit Scan Mode" : "New Scan Mode"}</h3>
+      <label className="settings-field">
+        <span className="settings-label">Name</span>
+        <input
+          className="settings-input"
+          type="text"
+          placeholder="SaaS onboarding audit"
+          value={draft.name}
+          onChange={(e) => update({ name: e.target.value })}
+        />
+      </label>
+      <label className="settings-field">
+        <span className="settings-label">Instructions</span>
+        <textarea
+          className="settings-input settings-textarea"
+          rows={5}
+          placeholder="What should the analysis focus on and report?"
+          value={draft.instructions}
+          onChange={(e) => update({ instructions: e.target.value })}
+        />
+      </label>
+
+      <span className="settings-label">Page content to send</span>
+      <div className="settings-kind-grid">
+        {EXTRACTION_FIELDS.map((field) => (
+          <label key={field.key} className="settings-toggle">
+            <input
+              type="checkbox"
+              checked={draft.fields.includes(field.key)}
+              onChange={(e) => toggleField(field.key, e.target.checked)}
+            />
+            <span>{field.label}</span>
+          </label>
+        ))}
+      </div>
+
+      <span className="settings-label">Rubric</span>
+      <span className="settings-hint">Each metric is scored 0-100; the overall score weighs them by weight.</span>
+      {draft.rubric.map((metric) => (
+        <div key={metric.id} className="scan-mode-metric-row">
+          <input
+            className="settings-input"
+            type="text"
+            placeholder="Metric, e.g. Trial CTA visibility"
+            value={metric.label}
+            onChange={(e) => updateMetric(metric.id, { label: e.target.value })}
+          />
+          <input
+            className="settings-input"
+            type="number"
+            min={0}
+            step="any"
+            aria-label="Weight"
+            value={metric.weight}
+            onChange={(e) => updateMetric(metric.id, { weight: e.target.value })}
+          />
+          <button
+            type="button"
+            className="settings-rule-remove"
+            aria-label="Remove metric"
+            onClick={() => update({ rubric: draft.rubric.filter((item) => item.id !== metric.id) })}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        className="settings-secondary-btn settings-add-rule"
+        onClick={() => update({ rubric: [...draft.rubric, { id: crypto.randomUUID(), label: "", weight: "1" }] })}
+      >
+        Add metric
+      </button>
+
+      <div className="settings-actions">
+        {error && <span className="settings-error scan-mode-error">{error}</span>}
+        <button type="button" className="settings-secondary-btn" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="button" className="settings-save-btn" onClick={save} disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save mode"}
+        </button>
+      </div>
+    </section>
+  );
+}
+
+function ScanModesPage({ onGoBack }: ScanModesPageProps) {
+  const modes = useScanModes();
+  const [editing, setEditing] = useState<ModeDraft | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleImportFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setNotice(null);
+    try {
+      const imported = parseScanModes(await file.text());
+      if (imported.length === 0) {
+        setNotice("No scan modes found in that file.");
+        return;
+      }
+      await scanModeStore.importMany(imported);
+      setNotice(`Imported ${imported.length} scan ${imported.length === 1 ? "mode" : "modes"}.`);
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : "Could not read that file.");
+    }
+  };
+
+  const exportModes = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`rook-lite-scan-modes-${date}.json`, serializeScanModes(modes), "application/json");
+  };
+
+  const removeMode = (mode: CustomScanMode) => {
+    setNotice(null);
+    scanModeStore.remove(mode.id).catch(() => setNotice(`Could not delete "${mode.name}".`));
+  };
+
+  return (
+    <motion.div
+      className="analysis-view"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.25, ease: "easeOut" }}
+    >
+      <div className="analysis-top">
+        <h2>Scan Modes</h2>
+        <motion.button
+          type="button"
+          className="analysis-back-btn"
+          onClick={onGoBack}
+          whileHover={{ y: -2, boxShadow: "0 12px 24px rgba(0, 0, 0, 0.34)" }}
+          transition={{ duration: 0.2, ease: "easeOut" }}
+        >
+          Go Back
+        </motion.button>
+      </div>
+
+      <div className="analysis-dashboard">
+        {editing ? (
+          <ModeEditor
+            key={editing.id}
+            initial={editing}
+            others={modes}
+            onSaved={(mode) => {
+              setEditing(null);
+              setNotice(`Saved "${mode.name}".`);
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <section className="dashboard-card settings-section">
+            <h3>Your Modes</h3>
+            {modes.length === 0 && (
+              <p className="settings-hint">
+                Define your own audit with instructions, the page content to send and a weighted rubric. It then
+                shows up in every scan menu.
+              </p>
+            )}
+            <div className="scan-mode-list">
+              {modes.map((mode) => (
+                <div key={mode.id} className="scan-mode-row">
+                  <div className="scan-mode-summary">
+                    <strong>{mode.name}</strong>
+                    <span>
+                      {mode.rubric.map((metric) => metric.label).join(", ")} · {mode.fields.length}/
+                      {EXTRACTION_FIELDS.length} content groups
+                    </span>
+                  </div>
+                  <button type="button" className="settings-secondary-btn" onClick={() => setEditing(toDraft(mode))}>
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    className="settings-rule-remove"
+                    aria-label={`Delete ${mode.name}`}
+                    onClick={() => removeMode(mode)}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="settings-actions">
+              {notice && <span className="settings-notice">{notice}</span>}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="scan-mode-file-input"
+                onChange={handleImportFile}
+              />
+              <button type="button" className="settings-secondary-btn" onClick={() => fileInputRef.current?.click()}>
+                Import
+              </button>
+              <button
+                type="button"
+                className="settings-secondary-btn"
+                onClick={exportModes}
+                disabled={modes.length === 0}
+              >
+                Export
+              </button>
+              <button type="button" className="settings-save-btn" onClick={() => setEditing(emptyDraft())}>
+                New mode
+              </button>
+            </div>
+          </section>
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
+export default ScanModesPage;
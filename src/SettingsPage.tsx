@@ -0,0 +1,438 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { motion } from "framer-motion";
+import "./AnalysisView.css";
+import "./SettingsPage.css";
+import {
+  REDACTION_LABELS,
+  type BuiltInRedaction,
+  type CustomRedactionRule,
+  type RedactionSettings,
+} from "./redaction";
+import { scanModeNames } from "./scanModes";
+import {
+  DEFAULT_SETTINGS,
+  SettingsError,
+  TONES,
+  settingsStore,
+  type ContentPolicy,
+  type Settings,
+  type SettingsErrors,
+  type Tone,
+} from "./settings";
+import { toTitleCase } from "./scoring";
+import { useScanModes } from "./useScanModes";
+import { postWebhook, testWebhookPayload } from "./webhook";
+
+type SettingsPageProps = {
+  onGoBack: () => void;
+};
+
+/** Form state keeps numbers and the blocklist as raw text until the user saves. */
+type SettingsDraft = Omit<Settings, "historyLimit" | "autoPruneDays" | "blockedDomains"> & {
+  historyLimit: string;
+  autoPruneDays: string;
+  blockedDomains: string;
+};
+
+function toDraft(settings: Settings): SettingsDraft {
+  return {
+    ...settings,
+    historyLimit: String(settings.historyLimit),
+    autoPruneDays: String(settings.autoPruneDays),
+    blockedDomains: settings.blockedDomains.join("\n"),
+  };
+}
+
+function fromDraft(draft: SettingsDraft): Settings {
+  return {
+    ...draft,
+    historyLimit: Number(draft.historyLimit),
+    autoPruneDays: Number(draft.autoPruneDays),
+    blockedDomains: draft.blockedDomains
+      .split(/[\n,]+/)
+      .map((domain) => domain.trim())
+      .filter(Boolean),
+  };
+}
+
+function Field({ label, hint, error, children }: { label: string; hint?: string; error?: string; children: ReactNode }) {
+  return (
+    <label className="settings-field">
+      <span className="settings-label">{label}</span>
+      {children}
+      {error ? <span className="settings-error">{error}</span> : hint && <span className="settings-hint">{hint}</span>}
+    </label>
+  );
+}
+
+function RedactionEditor({
+  value,
+  error,
+  onChange,
+}: {
+  value: RedactionSettings;
+  error?: string;
+  onChange: (value: RedactionSettings) => void;
+}) {
+  const updateRule = (id: string, patch: Partial<CustomRedactionRule>) =>
+    onChange({
+      ...value,
+      customRules: value.customRules.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule)),
+    });
+
+  return (
+    <div className="settings-redaction">
+      <label className="settings-toggle">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+        />
+        <span>Mask personal data before sending</span>
+      </label>
+      <div className={`settings-kind-grid ${value.enabled ? "" : "disabled"}`}>
+        {(Object.keys(REDACTION_LABELS) as BuiltInRedaction[]).map((kind) => (
+          <label key={kind} className="settings-toggle">
+            <input
+              type="checkbox"
+              disabled={!value.enabled}
+              checked={value.kinds[kind]}
+              onChange={(e) => onChange({ ...value, kinds: { ...value.kinds, [kind]: e.target.checked } })}
+            />
+            <span>{REDACTION_LABELS[kind]}</span>
+          </label>
+        ))}
+      </div>
+      <span className="settings-label">Custom rules</span>
+      {value.customRules.map((rule) => (
+        <div key={rule.id} className="settings-rule-row">
+          <input
+            className="settings-input"
+            type="text"
+            placeholder="Label"
+            value={rule.label}
+            onChange={(e) => updateRule(rule.id, { label: e.target.value })}
+          />
+          <input
+            className="settings-input settings-rule-pattern"
+            type="text"
+            placeholder="Regular expression, e.g. CUST-\d{6}"
+            value={rule.pattern}
+            onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+          />
+          <button
+            type="button"
+            className="settings-rule-remove"
+            aria-label="Remove rule"
+            onClick={() => onChange({ ...value, customRules: value.customRules.filter((item) => item.id !== rule.id) })}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        className="settings-secondary-btn settings-add-rule"
+        disabled={!value.enabled}
+        onClick={() =>
+          onChange({
+            ...value,
+            customRules: [...value.customRules, { id: crypto.randomUUID(), label: "", pattern: "" }],
+          })
+        }
+      >
+        Add rule
+      </button>
+      {error && <span className="settings-error">{error}</span>}
+    </div>
+  );
+}
+
+function SettingsPage({ onGoBack }: SettingsPageProps) {
+  const customModes = useScanModes();
+  const [draft, setDraft] = useState<SettingsDraft | null>(null);
+  const [errors, setErrors] = useState<SettingsErrors>({});
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [webhookStatus, setWebhookStatus] = useState<string | null>(null);
+  const [isTestingWebhook, setIsTestingWebhook] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    settingsStore
+      .get()
+      .then((settings) => {
+        if (active) setDraft(toDraft(settings));
+      })
+      .catch(() => {
+        if (active) setDraft(toDraft(DEFAULT_SETTINGS));
+      });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const update = (patch: Partial<SettingsDraft>) => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+    setNotice(null);
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setErrors({});
+    try {
+      const saved = await settingsStore.save(fromDraft(draft));
+      setDraft(toDraft(saved));
+      setNotice("Settings saved.");
+    } catch (err) {
+      if (err instanceof SettingsError) setErrors(err.errors);
+      setNotice(err instanceof Error ? err.message : "Could not save settings.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /** Tests the URL and secret as typed, so a receiver can be checked before saving. */
+  const testWebhook = async () => {
+    if (!draft?.webhookUrl.trim()) {
+      setWebhookStatus("Enter a webhook URL first.");
+      return;
+    }
+    setIsTestingWebhook(true);
+    setWebhookStatus(null);
+    try {
+      await postWebhook(draft.webhookUrl.trim(), draft.webhookSecret, testWebhookPayload());
+      setWebhookStatus("Test delivered.");
+    } catch (err) {
+      setWebhookStatus(err instanceof Error ? err.message : "Could not send the test.");
+    } finally {
+      setIsTestingWebhook(false);
+    }
+  };
+
+  return (
+    <motion.div
+      className="analysis-view"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.25, ease: "easeOut" }}
+    >
+      <div className="analysis-top">
+        <h2>Settings</h2>
+        <motion.button
+          type="button"
+          className="analysis-back-btn"
+          onClick={onGoBack}
+          whileHover={{ y: -2, boxShadow: "0 12px 24px rgba(0, 0, 0, 0.34)" }}
+          transition={{ duration: 0.2, ease: "easeOut" }}
+        >
+          Go Back
+        </motion.button>
+      </div>
+
+      {!draft ? (
+        <p className="settings-hint">Loading settings...</p>
+      ) : (
+        <div className="analysis-dashboard">
+          <section className="dashboard-card settings-section">
+            <h3>Backend</h3>
+            <Field label="Base URL" error={errors.apiBaseUrl}>
+              <input
+                className="settings-input"
+                type="url"
+                value={draft.apiBaseUrl}
+                onChange={(e) => update({ apiBaseUrl: e.target.value })}
+              />
+            </Field>
+            <Field label="API key" hint="Sent as the X-API-Key header. Leave empty if not required." error={errors.apiKey}>
+              <input
+                className="settings-input"
+                type="password"
+                autoComplete="off"
+                value={draft.apiKey}
+                onChange={(e) => update({ apiKey: e.target.value })}
+              />
+            </Field>
+          </section>
+
+          <section className="dashboard-card settings-section">
+            <h3>Scanning</h3>
+            <Field label="Default scan mode" hint="Used when you click the scan button directly." error={errors.defaultScanMode}>
+              <select
+                className="settings-input"
+                value={draft.defaultScanMode}
+                onChange={(e) => update({ defaultScanMode: e.target.value })}
+              >
+                {scanModeNames(customModes).map((mode) => (
+                  <option key={mode} value={mode}>
+                    {mode}
+                  </option>
+                ))}
+              </select>
+            </Field>
+            <Field
+              label="Blocked domains"
+              hint="One per line. Subdomains are blocked too."
+              error={errors.blockedDomains}
+            >
+              <textarea
+                className="settings-input settings-textarea"
+                rows={3}
+                placeholder="intranet.example.com"
+                value={draft.blockedDomains}
+                onChange={(e) => update({ blockedDomains: e.target.value })}
+              />
+            </Field>
+          </section>
+
+          <section className="dashboard-card settings-section">
+            <h3>Privacy</h3>
+            <div className="settings-choice-group" role="radiogroup" aria-label="Page content sent to the backend">
+              {(
+                [
+                  { value: "full", label: "Full page text", hint: "Best results. Sends visible body text." },
+                  { value: "metadata", label: "Metadata only", hint: "Titles, headings, links and tags only." },
+                ] as Array<{ value: ContentPolicy; label: string; hint: string }>
+              ).map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  role="radio"
+                  aria-checked={draft.contentPolicy === option.value}
+                  className={`settings-choice ${draft.contentPolicy === option.value ? "active" : ""}`}
+                  onClick={() => update({ contentPolicy: option.value })}
+                >
+                  <strong>{option.label}</strong>
+                  <span>{option.hint}</span>
+                </button>
+              ))}
+            </div>
+            <RedactionEditor
+              value={draft.redaction}
+              error={errors.redaction}
+              onChange={(redaction) => update({ redaction })}
+            />
+          </section>
+
+          <section className="dashboard-card settings-section">
+            <h3>History</h3>
+            <div className="settings-row">
+              <Field label="Keep at most" hint="Entries (0 = no limit)" error={errors.historyLimit}>
+                <input
+                  className="settings-input"
+                  type="number"
+                  min={0}
+                  value={draft.historyLimit}
+                  onChange={(e) => update({ historyLimit: e.target.value })}
+                />
+              </Field>
+              <Field label="Delete after" hint="Days (0 = never)" error={errors.autoPruneDays}>
+                <input
+                  className="settings-input"
+                  type="number"
+                  min={0}
+                  value={draft.autoPruneDays}
+                  onChange={(e) => update({ autoPruneDays: e.target.value })}
+                />
+              </Field>
+            </div>
+          </section>
+
+          <section className="dashboard-card settings-section">
+            <h3>Output</h3>
+            <div className="settings-row">
+              <Field label="Language" hint="e.g. en, de, pt-BR" error={errors.language}>
+                <input
+                  className="settings-input"
+                  type="text"
+                  value={draft.language}
+                  onChange={(e) => update({ language: e.target.value })}
+                />
+              </Field>
+              <Field label="Tone" error={errors.tone}>
+                <select
+                  className="settings-input"
+                  value={draft.tone}
+                  onChange={(e) => update({ tone: e.target.value as Tone })}
+                >
+                  {TONES.map((tone) => (
+                    <option key={tone} value={tone}>
+                      {toTitleCase(tone)}
+                    </option>
+                  ))}
+                </select>
+              </Field>
+            </div>
+          </section>
+
+          <section className="dashboard-card settings-section">
+            <h3>Integrations</h3>
+            <Field
+              label="Webhook URL"
+              hint="Exporting to the webhook posts each analysis here as JSON."
+              error={errors.webhookUrl}
+            >
+              <input
+                className="settings-input"
+                type="url"
+                placeholder="https://hooks.example.com/rook"
+                value={draft.webhookUrl}
+                onChange={(e) => update({ webhookUrl: e.target.value })}
+              />
+            </Field>
+            <Field
+              label="Signing secret"
+              hint="Requests carry an X-Rook-Signature HMAC-SHA256 header. Leave empty to send them unsigned."
+              error={errors.webhookSecret}
+            >
+              <input
+                className="settings-input"
+                type="password"
+                autoComplete="off"
+                value={draft.webhookSecret}
+                onChange={(e) => update({ webhookSecret: e.target.value })}
+              />
+            </Field>
+            <div className="settings-actions">
+              {webhookStatus && <span className="settings-notice">{webhookStatus}</span>}
+              <button
+                type="button"
+                className="settings-secondary-btn"
+                onClick={testWebhook}
+                disabled={isTestingWebhook}
+              >
+                {isTestingWebhook ? "Sending..." : "Send test"}
+              </button>
+            </div>
+          </section>
+
+          <div className="settings-actions">
+            {notice && <span className="settings-notice">{notice}</span>}
+            <button
+              type="button"
+              className="settings-secondary-btn"
+              onClick={() =>
+                update(
+                  toDraft({
+                    ...DEFAULT_SETTINGS,
+                    apiKey: draft.apiKey,
+                    webhookUrl: draft.webhookUrl,
+                    webhookSecret: draft.webhookSecret,
+                  })
+                )
+              }
+            >
+              Restore defaults
+            </button>
+            <button type="button" className="settings-save-btn" onClick={save} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
+
+export default SettingsPage;
@@ -0,0 +1,193 @@
+import { useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import "./App.css";
+import "./AnalysisView.css";
+import "./SidePanel.css";
+import AnalysisView from "./AnalysisView";
+import type { HistoryAnalysis } from "./HistoryPage";
+import { historyRepository } from "./historyRepository";
+import { isJobRunning, jobTabId, type JobState } from "./jobProtocol";
+import { scanModeNames } from "./scanModes";
+import { groupByPage, normalizeUrl } from "./trends";
+import { useActiveTab } from "./useActiveTab";
+import { useAnalysisJob } from "./useAnalysisJob";
+import { useScanModes } from "./useScanModes";
+import { useSettings } from "./useSettings";
+
+type TabNotice = {
+  tabId: number;
+  message: string;
+  error: boolean;
+};
+
+function isScannable(tab: chrome.tabs.Tab): boolean {
+  return Boolean(tab.url && /^https?:\/\//i.test(tab.url));
+}
+
+function TabHeader({
+  tab,
+  job,
+  defaultMode,
+  modes,
+  hasAnalysis,
+  onScan,
+  onCancel,
+}: {
+  tab: chrome.tabs.Tab;
+  job: JobState | null;
+  defaultMode: string;
+  modes: string[];
+  hasAnalysis: boolean;
+  onScan: (mode: string) => void;
+  onCancel: () => void;
+}) {
+  const [selectedMode, setSelectedMode] = useState<string | null>(null);
+  const mode = selectedMode ?? defaultMode;
+  const busy = isJobRunning(job);
+  const jobForTab = job && jobTabId(job.params) === tab.id ? job : null;
+
+  return (
+    <section className="dashboard-card side-panel-tab">
+      <div className="side-panel-page">
+        <strong title={tab.title}>{tab.title || "Untitled page"}</strong>
+        <span>{tab.url ? new URL(tab.url).hostname : ""}</span>
+      </div>
+      {busy && jobForTab ? (
+        <div className="side-panel-job">
+          <div className="side-panel-job-status">
+            <span>{jobForTab.message}</span>
+            <div className="side-panel-job-track">
+              <motion.div
+                className="side-panel-job-fill"
+                animate={{ width: `${Math.round(jobForTab.progress * 100)}%` }}
+                transition={{ duration: 0.25, ease: "easeOut" }}
+              />
+            </div>
+          </div>
+          <button type="button" className="side-panel-cancel" onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div className="side-panel-scan">
+          <select className="side-panel-mode" value={mode} onChange={(e) => setSelectedMode(e.target.value)}>
+            {modes.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <button type="button" className="side-panel-scan-btn" disabled={busy} onClick={() => onScan(mode)}>
+            {hasAnalysis ? "Re-scan" : "Scan this page"}
+          </button>
+        </div>
+      )}
+      {busy && !jobForTab && <p className="side-panel-note">Another analysis is running in the background.</p>}
+    </section>
+  );
+}
+
+/** Persistent panel that follows the active tab and shows its latest analysis. */
+function SidePanel() {
+  const tab = useActiveTab();
+  const settings = useSettings();
+  const customModes = useScanModes();
+  const [history, setHistory] = useState<HistoryAnalysis[]>([]);
+  const [tabNotice, setTabNotice] = useState<TabNotice | null>(null);
+
+  const jobs = useAnalysisJob({
+    surface: "side-panel",
+    onSettled: (job) => {
+      // Jobs started from the popup stay in the worker until the popup has shown their result.
+      if (job.surface !== "side-panel") return;
+      const tabId = jobTabId(job.params);
+      if ((job.stage === "error" || job.stage === "queued") && tabId !== undefined) {
+        setTabNotice({ tabId, message: job.error ?? job.message, error: job.stage === "error" });
+      }
+      jobs.dismiss(job.id);
+    },
+    onRejected: (message) => {
+      if (tab?.id !== undefined) setTabNotice({ tabId: tab.id, message, error: true });
+    },
+  });
+
+  useEffect(() => {
+    let active = true;
+    historyRepository
+      .list()
+      .then((items) => {
+        if (active) setHistory(items);
+      })
+      .catch(() => undefined);
+    const unsubscribe = historyRepository.subscribe(setHistory);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const latest = useMemo(() => {
+    if (!tab?.url) return undefined;
+    const key = normalizeUrl(tab.url);
+    const page = groupByPage(history).find((item) => item.key === key);
+    return page?.runs[page.runs.length - 1];
+  }, [history, tab]);
+
+  const streaming =
+    tab && isJobRunning(jobs.job) && jobs.job?.params.kind === "scan" && jobs.job.params.tabId === tab.id
+      ? jobs.job.partial
+      : undefined;
+  const shown = streaming ?? latest;
+
+  const scan = (mode: string) => {
+    if (tab?.id === undefined) return;
+    setTabNotice(null);
+    jobs.start({ kind: "scan", mode, tabId: tab.id });
+  };
+
+  let content;
+  if (!tab) {
+    content = <p className="side-panel-note">Looking for the active tab...</p>;
+  } else if (!isScannable(tab)) {
+    content = (
+      <section className="dashboard-card side-panel-empty">
+        <h3>Nothing to analyze here</h3>
+        <p>Switch to a tab with a regular web page and Rook Lite will follow it.</p>
+      </section>
+    );
+  } else {
+    content = (
+      <>
+        <TabHeader
+          key={tab.id}
+          tab={tab}
+          job={jobs.job}
+          defaultMode={settings.defaultScanMode}
+          modes={scanModeNames(customModes)}
+          hasAnalysis={Boolean(latest)}
+          onScan={scan}
+          onCancel={jobs.cancel}
+        />
+        {tabNotice && tabNotice.tabId === tab.id && (
+          <p className={`side-panel-note ${tabNotice.error ? "error" : ""}`}>{tabNotice.message}</p>
+        )}
+        {shown ? (
+          <AnalysisView key={shown.id} analysis={shown} streaming={Boolean(streaming)} />
+        ) : (
+          <section className="dashboard-card side-panel-empty">
+            <h3>No analysis yet</h3>
+            <p>This page has not been scanned. Pick a mode above to analyze it.</p>
+          </section>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <div className="panel-bg">
+      <div className="panel-card side-panel">{content}</div>
+    </div>
+  );
+}
+
+export default SidePanel;
@@ -0,0 +1,110 @@
+import { useMemo } from "react";
+import { motion } from "framer-motion";
+import "./AnalysisView.css";
+import "./SiteReportView.css";
+import { ExecutiveScore, MetricsGraph } from "./AnalysisView";
+import { extractMetrics } from "./analysisModel";
+import ExportMenu from "./ExportMenu";
+import type { HistoryAnalysis } from "./HistoryPage";
+import { toOverallScore } from "./scoring";
+import type { SiteReport } from "./siteReport";
+
+type SiteReportViewProps = {
+  report: HistoryAnalysis & { batch: SiteReport };
+  history: HistoryAnalysis[];
+  onOpenAnalysis: (item: HistoryAnalysis) => void;
+  onGoBack: () => void;
+};
+
+function pagePath(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.pathname}${parsed.search}` || "/";
+  } catch {
+    return url;
+  }
+}
+
+function SiteReportView({ report, history, onOpenAnalysis, onGoBack }: SiteReportViewProps) {
+  const { pages, issues, scan_mode: scanMode } = report.batch;
+  const entries = useMemo(() => new Map(history.map((item) => [item.id, item])), [history]);
+  const metrics = useMemo(() => extractMetrics(report), [report]);
+  const scanned = pages.filter((page) => page.entry_id).length;
+  const ranked = useMemo(
+    () => [...pages].sort((a, b) => (a.score ?? Infinity) - (b.score ?? Infinity)),
+    [pages]
+  );
+
+  return (
+    <motion.div
+      className="analysis-view"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.25, ease: "easeOut" }}
+    >
+      <div className="analysis-top">
+        <h2>Site Report</h2>
+        <div className="analysis-top-actions">
+          <ExportMenu items={[report]} />
+          <motion.button
+            type="button"
+            className="analysis-back-btn"
+            onClick={onGoBack}
+            whileHover={{ y: -2, boxShadow: "0 12px 24px rgba(0, 0, 0, 0.34)" }}
+            transition={{ duration: 0.2, ease: "easeOut" }}
+          >
+            Go Back
+          </motion.button>
+        </div>
+      </div>
+
+      <div className="analysis-dashboard">
+        <ExecutiveScore score={toOverallScore(report.score)} overview={report.overview} />
+        <MetricsGraph metrics={metrics} />
+
+        <section className="dashboard-card">
+          <h3 className="site-report-title">
+            Pages <span className="insight-count">{scanned}/{pages.length}</span>
+          </h3>
+          <p className="site-report-meta">{scanMode} · lowest scores first</p>
+          <div className="site-report-pages">
+            {ranked.map((page) => {
+              const entry = page.entry_id ? entries.get(page.entry_id) : undefined;
+              return (
+                <button
+                  key={page.url}
+                  type="button"
+                  className={`site-report-page ${page.error ? "failed" : ""}`}
+                  onClick={() => entry && onOpenAnalysis(entry)}
+                  disabled={!entry}
+                  title={page.error ?? (entry ? page.url : "This scan was deleted from history.")}
+                >
+                  <span className="site-report-path">{pagePath(page.url)}</span>
+                  {page.error ? <em>Failed</em> : <strong>{page.score}</strong>}
+                </button>
+              );
+            })}
+          </div>
+        </section>
+
+        {issues.length > 0 && (
+          <section className="dashboard-card">
+            <h3 className="site-report-title">Most Common Issues</h3>
+            <ul className="site-report-issues">
+              {issues.map((issue) => (
+                <li key={issue.text}>
+                  <span>{issue.text}</span>
+                  <span className="site-report-issue-count">
+                    {issue.count}/{scanned} pages
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
+export default SiteReportView;
@@ -0,0 +1,199 @@
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import "./AnalysisView.css";
+import "./TasksView.css";
+import type { HistoryAnalysis } from "./HistoryPage";
+import {
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+  taskStore,
+  type InsightTask,
+  type TaskPriority,
+  type TaskStatus,
+} from "./tasks";
+import { useTasks } from "./useTasks";
+
+type TasksViewProps = {
+  history: HistoryAnalysis[];
+  onOpenAnalysis: (item: HistoryAnalysis) => void;
+  onGoBack: () => void;
+};
+
+type TaskFilter = "open" | "done" | "all";
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 };
+
+function pageLabel(url: string | undefined): string {
+  if (!url) return "No page";
+  try {
+    const parsed = new URL(url);
+    return `${parsed.hostname.replace(/^www\./, "")}${parsed.pathname.replace(/\/$/, "")}`;
+  } catch {
+    return url;
+  }
+}
+
+function TaskCard({
+  task,
+  source,
+  onOpenAnalysis,
+  onError,
+}: {
+  task: InsightTask;
+  source?: HistoryAnalysis;
+  onOpenAnalysis: (item: HistoryAnalysis) => void;
+  onError: (message: string) => void;
+}) {
+  // Free text is saved when the field loses focus rather than on every keystroke.
+  const [assignee, setAssignee] = useState(task.assignee);
+  const [notes, setNotes] = useState(task.notes);
+
+  const update = (patch: Partial<InsightTask>) => {
+    taskStore.update(task.id, patch).catch(() => onError("Could not update the task."));
+  };
+
+  return (
+    <section className={`dashboard-card task-card ${task.status}`}>
+      <div className="task-head">
+        <p className="task-insight">{task.insight}</p>
+        <button
+          type="button"
+          className="task-remove"
+          aria-label="Delete task"
+          onClick={() => taskStore.remove(task.id).catch(() => onError("Could not delete the task."))}
+        >
+          ×
+        </button>
+      </div>
+      <p className="task-meta">
+        {task.section} · {pageLabel(task.url)} · {new Date(task.createdAt).toLocaleDateString()}
+      </p>
+      <div className="task-fields">
+        <select
+          className="task-input"
+          value={task.status}
+          aria-label="Status"
+          onChange={(e) => update({ status: e.target.value as TaskStatus })}
+        >
+          {TASK_STATUSES.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          className="task-input"
+          value={task.priority}
+          aria-label="Priority"
+          onChange={(e) => update({ priority: e.target.value as TaskPriority })}
+        >
+          {TASK_PRIORITIES.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label} priority
+            </option>
+          ))}
+        </select>
+        <input
+          className="task-input"
+          type="text"
+          placeholder="Assignee"
+          value={assignee}
+          onChange={(e) => setAssignee(e.target.value)}
+          onBlur={() => assignee.trim() !== task.assignee && update({ assignee: assignee.trim() })}
+        />
+      </div>
+      <textarea
+        className="task-input task-notes"
+        rows={2}
+        placeholder="Notes"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        onBlur={() => notes !== task.notes && update({ notes })}
+      />
+      <button
+        type="button"
+        className="task-source"
+        disabled={!source}
+        title={source ? undefined : "The analysis was deleted from history."}
+        onClick={() => source && onOpenAnalysis(source)}
+      >
+        Open analysis
+      </button>
+    </section>
+  );
+}
+
+function TasksView({ history, onOpenAnalysis, onGoBack }: TasksViewProps) {
+  const tasks = useTasks();
+  const [filter, setFilter] = useState<TaskFilter>("open");
+  const [notice, setNotice] = useState<string | null>(null);
+  const entries = useMemo(() => new Map(history.map((item) => [item.id, item])), [history]);
+  const openCount = tasks.filter((task) => task.status !== "done").length;
+
+  const shown = useMemo(
+    () =>
+      tasks
+        .filter((task) => filter === "all" || (filter === "done") === (task.status === "done"))
+        .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || b.createdAt - a.createdAt),
+    [tasks, filter]
+  );
+
+  return (
+    <motion.div
+      className="analysis-view"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.25, ease: "easeOut" }}
+    >
+      <div className="analysis-top">
+        <h2>Tasks</h2>
+        <motion.button
+          type="button"
+          className="analysis-back-btn"
+          onClick={onGoBack}
+          whileHover={{ y: -2, boxShadow: "0 12px 24px rgba(0, 0, 0, 0.34)" }}
+          transition={{ duration: 0.2, ease: "easeOut" }}
+        >
+          Go Back
+        </motion.button>
+      </div>
+
+      <div className="analysis-dashboard">
+        <div className="task-filters">
+          {(["open", "done", "all"] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={`task-filter ${filter === option ? "active" : ""}`}
+              onClick={() => setFilter(option)}
+            >
+              {option === "open" ? `Open (${openCount})` : option === "done" ? "Done" : "All"}
+            </button>
+          ))}
+        </div>
+        {notice && <p className="task-notice">{notice}</p>}
+        {shown.length === 0 ? (
+          <section className="dashboard-card">
+            <p className="task-empty">
+              {tasks.length === 0
+                ? "No tasks yet. Use the + next to any insight in an analysis to track it here."
+                : "No tasks in this list."}
+            </p>
+          </section>
+        ) : (
+          shown.map((task) => (
+            <TaskCard
+              key={task.id}
+              task={task}
+              source={entries.get(task.analysisId)}
+              onOpenAnalysis={onOpenAnalysis}
+              onError={setNotice}
+            />
+          ))
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
+export default TasksView;
@@ -0,0 +1,220 @@
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import "./AnalysisView.css";
+import "./TrendView.css";
+import type { HistoryAnalysis } from "./HistoryPage";
+import { buildSeries, diffAnalyses, type PageTrend, type ScanDiff, type TrendSeries } from "./trends";
+
+type TrendViewProps = {
+  trend: PageTrend;
+  onOpenAnalysis: (item: HistoryAnalysis) => void;
+  onGoBack: () => void;
+};
+
+const SERIES_COLORS = ["#ffb57a", "#a8beff", "#8fe3b5", "#f7a8d8", "#ffe28a", "#9fe6f2", "#c9b3ff", "#ff9f9f"];
+const CHART = { width: 320, height: 150, padX: 14, padY: 12 };
+
+function formatShortDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+function pointX(index: number, count: number): number {
+  const span = CHART.width - CHART.padX * 2;
+  return count === 1 ? CHART.width / 2 : CHART.padX + (index * span) / (count - 1);
+}
+
+function pointY(value: number): number {
+  return CHART.padY + ((100 - value) * (CHART.height - CHART.padY * 2)) / 100;
+}
+
+function TrendChart({
+  series,
+  visible,
+  runs,
+  onOpenAnalysis,
+}: {
+  series: TrendSeries[];
+  visible: Set<string>;
+  runs: HistoryAnalysis[];
+  onOpenAnalysis: (item: HistoryAnalysis) => void;
+}) {
+  const count = runs.length;
+
+  return (
+    <svg className="trend-chart" viewBox={`0 0 ${CHART.width} ${CHART.height}`} role="img" aria-label="Score timeline">
+      {[0, 50, 100].map((tick) => (
+        <g key={tick}>
+          <line className="trend-grid" x1={0} x2={CHART.width} y1={pointY(tick)} y2={pointY(tick)} />
+          <text className="trend-tick" x={2} y={pointY(tick) - 2}>
+            {tick}
+          </text>
+        </g>
+      ))}
+      {series.map((line, seriesIndex) => {
+        if (!visible.has(line.key)) return null;
+        const color = SERIES_COLORS[seriesIndex % SERIES_COLORS.length];
+        const points = line.points
+          .map((point, index) => (point.value === null ? null : { ...point, x: pointX(index, count), y: pointY(point.value) }))
+          .filter((point): point is NonNullable<typeof point> => point !== null);
+        const isOverall = line.key === "overall";
+
+        return (
+          <g key={line.key}>
+            <polyline
+              className={`trend-line ${isOverall ? "overall" : ""}`}
+              points={points.map((point) => `${point.x},${point.y}`).join(" ")}
+              stroke={color}
+            />
+            {points.map((point) => (
+              <circle
+                key={point.id}
+                className={`trend-point ${isOverall ? "overall" : ""}`}
+                cx={point.x}
+                cy={point.y}
+                r={isOverall ? 3.5 : 2.5}
+                fill={color}
+                onClick={() => {
+                  const run = runs.find((item) => item.id === point.id);
+                  if (run) onOpenAnalysis(run);
+                }}
+              >
+                <title>
+                  {line.label}: {point.value} · {formatShortDate(point.createdAt)}
+                </title>
+              </circle>
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+function ChangeList({ title, items, tone }: { title: string; items: string[]; tone: "added" | "resolved" }) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className={`trend-change-group ${tone}`}>
+      <h4>
+        {title} <span className="insight-count">{items.length}</span>
+      </h4>
+      <ul className="insight-list">
+        {items.slice(0, 8).map((item, idx) => (
+          <li key={`${tone}-${idx}`}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function SinceLastScan({ diff, previousAt }: { diff: ScanDiff; previousAt: number }) {
+  const unchanged = diff.added.length === 0 && diff.resolved.length === 0 && diff.verdicts.length === 0;
+
+  return (
+    <section className="dashboard-card trend-diff">
+      <div className="trend-diff-head">
+        <h3>Since Last Scan</h3>
+        <span className={`trend-delta ${diff.scoreDelta >= 0 ? "up" : "down"}`}>
+          {diff.scoreDelta > 0 ? `+${diff.scoreDelta}` : diff.scoreDelta}
+        </span>
+      </div>
+      <p className="trend-diff-meta">Compared with the scan from {formatShortDate(previousAt)}.</p>
+      {unchanged && <p className="trend-diff-meta">No insight or verdict changes.</p>}
+      <ChangeList title="Resolved" items={diff.resolved} tone="resolved" />
+      <ChangeList title="New Issues" items={diff.added} tone="added" />
+      {diff.verdicts.map((change) => (
+        <div key={change.key} className="verdict-row trend-verdict">
+          <h4>{change.label}</h4>
+          {change.before && <p className="trend-verdict-before">{change.before}</p>}
+          <p>{change.after ?? "No verdict in the latest scan."}</p>
+        </div>
+      ))}
+    </section>
+  );
+}
+
+function TrendView({ trend, onOpenAnalysis, onGoBack }: TrendViewProps) {
+  const series = useMemo(() => buildSeries(trend.runs), [trend.runs]);
+  const [visible, setVisible] = useState<Set<string>>(() => new Set(["overall"]));
+  const latest = trend.runs[trend.runs.length - 1];
+  const previous = trend.runs.length > 1 ? trend.runs[trend.runs.length - 2] : undefined;
+  const diff = useMemo(() => (previous ? diffAnalyses(previous, latest) : null), [previous, latest]);
+
+  const toggleSeries = (key: string) => {
+    setVisible((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <motion.div
+      className="analysis-view"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.25, ease: "easeOut" }}
+    >
+      <div className="analysis-top">
+        <h2>Score Trend</h2>
+        <motion.button
+          type="button"
+          className="analysis-back-btn"
+          onClick={onGoBack}
+          whileHover={{ y: -2, boxShadow: "0 12px 24px rgba(0, 0, 0, 0.34)" }}
+          transition={{ duration: 0.2, ease: "easeOut" }}
+        >
+          Go Back
+        </motion.button>
+      </div>
+
+      <div className="analysis-dashboard">
+        <section className="dashboard-card trend-card">
+          <p className="trend-url">{trend.key}</p>
+          <p className="trend-diff-meta">
+            {trend.runs.length} {trend.runs.length === 1 ? "scan" : "scans"} · {formatShortDate(trend.runs[0].createdAt)}
+            {" – "}
+            {formatShortDate(latest.createdAt)}
+          </p>
+          <TrendChart series={series} visible={visible} runs={trend.runs} onOpenAnalysis={onOpenAnalysis} />
+          <div className="trend-legend">
+            {series.map((line, index) => (
+              <button
+                key={line.key}
+                type="button"
+                className={`trend-legend-chip ${visible.has(line.key) ? "active" : ""}`}
+                onClick={() => toggleSeries(line.key)}
+              >
+                <span className="trend-swatch" style={{ background: SERIES_COLORS[index % SERIES_COLORS.length] }} />
+                {line.label}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        {diff && previous ? (
+          <SinceLastScan diff={diff} previousAt={previous.createdAt} />
+        ) : (
+          <section className="dashboard-card">
+            <p className="trend-diff-meta">Scan this page again to see what changed.</p>
+          </section>
+        )}
+
+        <section className="dashboard-card">
+          <h3 className="trend-runs-title">Runs</h3>
+          <div className="trend-runs">
+            {[...trend.runs].reverse().map((run) => (
+              <button key={run.id} type="button" className="trend-run" onClick={() => onOpenAnalysis(run)}>
+                <span>{formatShortDate(run.createdAt)}</span>
+                <strong>{series[0].points.find((point) => point.id === run.id)?.value ?? 0}</strong>
+              </button>
+            ))}
+          </div>
+        </section>
+      </div>
+    </motion.div>
+  );
+}
+
+export default TrendView;
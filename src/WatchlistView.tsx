@@ -0,0 +1,204 @@
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import "./AnalysisView.css";
+import "./TasksView.css";
+import "./WatchlistView.css";
+import type { HistoryAnalysis } from "./HistoryPage";
+import { useWatchlist } from "./useWatchlist";
+import {
+  WATCH_FREQUENCIES,
+  nextRunTime,
+  notifyWatchlist,
+  watchStore,
+  type WatchFrequency,
+  type WatchedPage,
+} from "./watchlist";
+
+type WatchlistViewProps = {
+  history: HistoryAnalysis[];
+  onOpenAnalysis: (item: HistoryAnalysis) => void;
+  onGoBack: () => void;
+};
+
+const STATUS_LABELS = { ok: "No regressions", regressed: "Regressed", failed: "Failed" } as const;
+
+function formatDateTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function WatchCard({
+  page,
+  lastEntry,
+  onOpenAnalysis,
+  onError,
+}: {
+  page: WatchedPage;
+  lastEntry?: HistoryAnalysis;
+  onOpenAnalysis: (item: HistoryAnalysis) => void;
+  onError: (message: string) => void;
+}) {
+  // The threshold stays raw text while typing and is saved when the field loses focus.
+  const [threshold, setThreshold] = useState(String(page.threshold));
+  const { lastRun } = page;
+
+  const update = (patch: Partial<WatchedPage>) =>
+    watchStore
+      .update(page.id, patch)
+      .then(() => notifyWatchlist())
+      .catch(() => onError("Could not update the watched page."));
+
+  const saveThreshold = () => {
+    const value = Number(threshold);
+    if (!Number.isInteger(value) || value < 1 || value > 100) {
+      setThreshold(String(page.threshold));
+      onError("The alert threshold must be a whole number of points between 1 and 100.");
+      return;
+    }
+    if (value !== page.threshold) void update({ threshold: value });
+  };
+
+  const changeFrequency = (frequency: WatchFrequency) =>
+    update({ frequency, nextRunAt: nextRunTime(frequency, lastRun?.at ?? page.createdAt) });
+
+  return (
+    <section className={`dashboard-card watch-card ${lastRun?.status ?? ""}`}>
+      <div className="task-head">
+        <p className="watch-url">{page.url}</p>
+        <button
+          type="button"
+          className="task-remove"
+          aria-label="Stop watching"
+          onClick={() =>
+            watchStore
+              .remove(page.id)
+              .then(() => notifyWatchlist())
+              .catch(() => onError("Could not stop watching the page."))
+          }
+        >
+          ×
+        </button>
+      </div>
+      <p className="task-meta">
+        {page.mode} · next check {formatDateTime(page.nextRunAt)}
+      </p>
+
+      {lastRun ? (
+        <div className="watch-run">
+          <p className={`watch-status ${lastRun.status}`}>
+            {STATUS_LABELS[lastRun.status]} · {formatDateTime(lastRun.at)}
+            {lastRun.score !== undefined && ` · score ${lastRun.score}`}
+          </p>
+          {lastRun.error && <p className="watch-alert">{lastRun.error}</p>}
+          {lastRun.alerts.map((alert) => (
+            <p key={alert} className="watch-alert">
+              {alert}
+            </p>
+          ))}
+        </div>
+      ) : (
+        <p className="watch-status">Not checked yet. The first run records the baseline.</p>
+      )}
+
+      <div className="task-fields">
+        <select
+          className="task-input"
+          value={page.frequency}
+          aria-label="Frequency"
+          onChange={(e) => void changeFrequency(e.target.value as WatchFrequency)}
+        >
+          {WATCH_FREQUENCIES.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <label className="watch-threshold">
+          <span>Alert on drops over</span>
+          <input
+            className="task-input"
+            type="number"
+            min={1}
+            max={100}
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+            onBlur={saveThreshold}
+          />
+          <span>pts</span>
+        </label>
+      </div>
+      <div className="watch-actions">
+        <button
+          type="button"
+          className="task-source"
+          onClick={() => notifyWatchlist(page.id).catch(() => onError("Could not start the check."))}
+        >
+          Check now
+        </button>
+        <button
+          type="button"
+          className="task-source"
+          disabled={!lastEntry}
+          onClick={() => lastEntry && onOpenAnalysis(lastEntry)}
+        >
+          Open last result
+        </button>
+      </div>
+    </section>
+  );
+}
+
+function WatchlistView({ history, onOpenAnalysis, onGoBack }: WatchlistViewProps) {
+  const pages = useWatchlist();
+  const [notice, setNotice] = useState<string | null>(null);
+  const entries = useMemo(() => new Map(history.map((item) => [item.id, item])), [history]);
+
+  return (
+    <motion.div
+      className="analysis-view"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.25, ease: "easeOut" }}
+    >
+      <div className="analysis-top">
+        <h2>Watchlist</h2>
+        <motion.button
+          type="button"
+          className="analysis-back-btn"
+          onClick={onGoBack}
+          whileHover={{ y: -2, boxShadow: "0 12px 24px rgba(0, 0, 0, 0.34)" }}
+          transition={{ duration: 0.2, ease: "easeOut" }}
+        >
+          Go Back
+        </motion.button>
+      </div>
+
+      <div className="analysis-dashboard">
+        {notice && <p className="task-notice">{notice}</p>}
+        {pages.length === 0 ? (
+          <section className="dashboard-card">
+            <p className="task-empty">
+              No watched pages yet. In History → By Page, use the eye next to a page to re-scan it on a schedule.
+            </p>
+          </section>
+        ) : (
+          pages.map((page) => (
+            <WatchCard
+              key={page.id}
+              page={page}
+              lastEntry={page.lastRun?.entryId ? entries.get(page.lastRun.entryId) : undefined}
+              onOpenAnalysis={onOpenAnalysis}
+              onError={setNotice}
+            />
+          ))
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
+export default WatchlistView;
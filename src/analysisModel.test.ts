@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { normalizeInsight } from "./analysisModel";
+
+describe("normalizeInsight", () => {
+  it("ignores case, punctuation and spacing", () => {
+    expect(normalizeInsight("  Add testimonials,  near the plans! ")).toBe("add testimonials near the plans");
+  });
+
+  it("keeps letters of every script so different insights stay apart", () => {
+    const insights = [
+      "Ajoutez des témoignages.",
+      "Füge Kundenstimmen hinzu",
+      "価格表を簡潔にする",
+      "Добавьте отзывы",
+    ];
+
+    const normalized = insights.map(normalizeInsight);
+
+    expect(normalized).toEqual([
+      "ajoutez des témoignages",
+      "füge kundenstimmen hinzu",
+      "価格表を簡潔にする",
+      "добавьте отзывы",
+    ]);
+    expect(new Set(normalized).size).toBe(insights.length);
+  });
+});
@@ -0,0 +1,114 @@
+import type { AnalysisResult } from "./api";
+import type { HistoryAnalysis, ItemMode } from "./HistoryPage";
+import { describeInsight, describeMetric, metricBand, orderKeys, scaleMetrics, type MetricBand } from "./metricRegistry";
+import { toTitleCase } from "./scoring";
+
+export type MetricItem = {
+  key: string;
+  label: string;
+  /** On the 0-100 display scale, whatever scale the backend used. */
+  value: number;
+  description: string;
+  band: MetricBand;
+};
+
+export type StatItem = {
+  key: string;
+  value: string | number;
+};
+
+export type InsightItem = {
+  key: string;
+  title: string;
+  description?: string;
+  items: string[];
+};
+
+export function extractMetrics(analysis: AnalysisResult): MetricItem[] {
+  return scaleMetrics(analysis.conversion_scores).map(({ key, value }) => {
+    const definition = describeMetric(key);
+    return {
+      key,
+      label: definition.label,
+      value,
+      description: definition.description,
+      band: metricBand(value, definition),
+    };
+  });
+}
+
+export function extractStats(analysis: AnalysisResult): StatItem[] {
+  return Object.entries(analysis.pricing_analysis).map(([key, value]) => ({
+    key: toTitleCase(key),
+    value,
+  }));
+}
+
+export function extractInsights(analysis: AnalysisResult): InsightItem[] {
+  const source = analysis.insights;
+
+  if (Object.keys(source).length > 0) {
+    const sections: InsightItem[] = [];
+    orderKeys(Object.keys(source), describeInsight).forEach((key) => {
+      const items = source[key];
+      if (!items?.length) return;
+      const definition = describeInsight(key);
+      sections.push({
+        key,
+        title: definition.label,
+        description: definition.description || undefined,
+        items,
+      });
+    });
+    return sections;
+  }
+
+  return analysis.sections
+    .map((section, index) => {
+      const items = section.insights;
+      if (!items.length) return null;
+      const title = section.title?.trim() || `Section ${index + 1}`;
+      return {
+        key: section.id ?? `section-${index}`,
+        title,
+        items,
+      };
+    })
+    .filter((item): item is InsightItem => item !== null);
+}
+
+/**
+ * Lowercases and strips punctuation so the same insight matches across runs
+ * and pages. Letters and digits of every script are kept, so insights in any
+ * language stay distinct.
+ */
+export function normalizeInsight(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]+/gu, "").replace(/\s+/g, " ").trim();
+}
+
+export function collectInsights(analysis: AnalysisResult): string[] {
+  const fromInsights = Object.values(analysis.insights).flat();
+  const fromSections = analysis.sections.flatMap((section) => section.insights);
+  return [...fromInsights, ...fromSections];
+}
+
+export function getAnalysisName(item: HistoryAnalysis): string {
+  if (item.target_audience && item.target_audience.trim()) return item.target_audience.trim();
+  if (item.overview && item.overview.trim()) return item.overview.trim().slice(0, 110);
+  return "Untitled analysis";
+}
+
+export function getItemMode(item: HistoryAnalysis): ItemMode {
+  if (item.mode) return item.mode;
+  if (item.batch) return "batch";
+  if (item.comparison) return "compare";
+  if (item.assets) return "create";
+  const source = `${item.asset_type ?? ""} ${item.overview ?? ""}`.toLowerCase();
+  if (source.includes("compare") || source.includes("competitor") || source.includes("benchmark")) {
+    return "compare";
+  }
+  if (source.includes("create") || source.includes("generate") || source.includes("campaign")) {
+    return "create";
+  }
+  return "scan";
+}
@@ -0,0 +1,203 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiError, REQUEST_TIMEOUT_MS, StreamError, requestCompare, requestCreate, requestScan, requestScanStream } from "./api";
+import { SchemaError } from "./schema";
+import { DEFAULT_SETTINGS, settingsStore } from "./settings";
+import { samplePage } from "./test/fixtures";
+import { startMockServer, type MockServer } from "./test/mockServer";
+
+const ANALYSIS = {
+  overview: "A clear pricing page.",
+  overallScore: 7.5,
+  conversionScores: { clarity: 8, trust: 6 },
+  insights: { quick_fixes: ["Add testimonials near the plans."] },
+  marketingVerdict: "Solid.",
+};
+
+let server: MockServer;
+const scanRequest = () => ({ mode: "Marketing Audit", url: "https://example.com/pricing", page: samplePage() });
+
+beforeAll(async () => {
+  server = await startMockServer();
+  await settingsStore.save({ ...DEFAULT_SETTINGS, apiBaseUrl: server.url, apiKey: "test-key" });
+});
+
+afterAll(() => server.close());
+
+beforeEach(() => server.reset());
+
+describe("requestScan", () => {
+  it("posts the page, mode and preferences and normalises the response", async () => {
+    server.on("POST", "/analyze", { body: ANALYSIS });
+
+    const result = await requestScan(scanRequest());
+
+    expect(result.score).toEqual({ value: 7.5 });
+    expect(result.conversion_scores).toEqual({ clarity: 8, trust: 6 });
+    expect(result.verdicts.marketing).toBe("Solid.");
+    const [sent] = server.requests;
+    expect(sent.headers["x-api-key"]).toBe("test-key");
+    const body = JSON.parse(sent.body);
+    expect(body.mode).toBe("Marketing Audit");
+    expect(body.preferences).toEqual({ language: "en", tone: "neutral" });
+  });
+
+  it("masks personal data before the page leaves the browser", async () => {
+    server.on("POST", "/analyze", { body: ANALYSIS });
+
+    await requestScan(scanRequest());
+
+    const body = JSON.parse(server.requests[0].body);
+    expect(body.page.body_text).not.toContain("jane@example.com");
+    expect(body.page.body_text).toContain("[EMAIL]");
+  });
+
+  it("masks personal data in the page address", async () => {
+    server.on("POST", "/analyze", { body: ANALYSIS });
+
+    await requestScan({ ...scanRequest(), url: "https://example.com/pricing?email=jane@example.com" });
+
+    expect(JSON.parse(server.requests[0].body).url).toBe("https://example.com/pricing?email=%5BEMAIL%5D");
+  });
+
+  it("accepts an analysis wrapped in { analysis }", async () => {
+    server.on("POST", "/analyze", { body: { analysis: ANALYSIS } });
+
+    expect((await requestScan(scanRequest())).overview).toBe("A clear pricing page.");
+  });
+
+  it("turns error statuses into ApiError", async () => {
+    server.on("POST", "/analyze", { status: 503, body: { detail: "busy" } });
+
+    await expect(requestScan(scanRequest())).rejects.toMatchObject({ name: "ApiError", status: 503 });
+  });
+
+  it("asks the user to sign in on 401", async () => {
+    server.on("POST", "/analyze", { status: 401, body: {} });
+
+    await expect(requestScan(scanRequest())).rejects.toThrow(/Sign in/);
+  });
+
+  it("rejects responses that are not JSON", async () => {
+    server.on("POST", "/analyze", { body: "<html>oops</html>" });
+
+    await expect(requestScan(scanRequest())).rejects.toBeInstanceOf(ApiError);
+  });
+
+  it("rejects responses without any analysis content", async () => {
+    server.on("POST", "/analyze", { body: { unrelated: true } });
+
+    await expect(requestScan(scanRequest())).rejects.toBeInstanceOf(SchemaError);
+  });
+
+  it("reports a backend that cannot be reached", async () => {
+    const offline = await startMockServer();
+    await offline.close();
+    await settingsStore.save({ ...DEFAULT_SETTINGS, apiBaseUrl: offline.url });
+    try {
+      await expect(requestScan(scanRequest())).rejects.toThrow("Could not reach the Rook Lite backend.");
+    } finally {
+      await settingsStore.save({ ...DEFAULT_SETTINGS, apiBaseUrl: server.url, apiKey: "test-key" });
+    }
+  });
+
+  it("gives up on a backend that never answers", async () => {
+    server.on("POST", "/analyze", null);
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    try {
+      const pending = requestScan(scanRequest());
+      const outcome = expect(pending).rejects.toThrow("did not respond in time");
+      await vi.advanceTimersByTimeAsync(REQUEST_TIMEOUT_MS);
+      await outcome;
+      await expect(pending).rejects.toMatchObject({ status: undefined });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("requestScanStream", () => {
+  it("merges server-sent events and reports each partial", async () => {
+    server.on("POST", "/analyze/stream", {
+      headers: { "Content-Type": "text/event-stream" },
+      body: [
+        `data: ${JSON.stringify({ overview: "Streaming." })}`,
+        "",
+        `data: ${JSON.stringify({ conversion_scores: { clarity: 7 } })}`,
+        "",
+        `data: ${JSON.stringify({ conversion_scores: { trust: 5 } })}`,
+        "",
+        "data: [DONE]",
+        "",
+      ].join("\n"),
+    });
+    const partials: number[] = [];
+
+    const result = await requestScanStream(scanRequest(), (partial) =>
+      partials.push(Object.keys(partial.conversion_scores).length)
+    );
+
+    expect(partials).toEqual([0, 1, 2]);
+    expect(result.conversion_scores).toEqual({ clarity: 7, trust: 5 });
+    expect(server.requests[0].headers.accept).toContain("text/event-stream");
+  });
+
+  it("reads newline-delimited JSON", async () => {
+    server.on("POST", "/analyze/stream", {
+      headers: { "Content-Type": "application/x-ndjson" },
+      body: `${JSON.stringify({ overview: "One." })}\n${JSON.stringify({ sections: [{ insights: ["a"] }] })}\n`,
+    });
+
+    const result = await requestScanStream(scanRequest(), () => undefined);
+
+    expect(result.overview).toBe("One.");
+    expect(result.sections).toHaveLength(1);
+  });
+
+  it("falls back to /analyze when the backend has no stream endpoint", async () => {
+    server.on("POST", "/analyze", { body: ANALYSIS });
+
+    const result = await requestScanStream(scanRequest(), () => undefined);
+
+    expect(result.overview).toBe("A clear pricing page.");
+    expect(server.requests.map((request) => request.path)).toEqual(["/analyze/stream", "/analyze"]);
+  });
+
+  it("keeps what arrived when the stream reports an error", async () => {
+    server.on("POST", "/analyze/stream", {
+      headers: { "Content-Type": "application/x-ndjson" },
+      body: `${JSON.stringify({ overview: "Partial." })}\n${JSON.stringify({ error: "model overloaded" })}\n`,
+    });
+
+    const failure = await requestScanStream(scanRequest(), () => undefined).catch((err: unknown) => err);
+
+    expect(failure).toBeInstanceOf(StreamError);
+    expect((failure as StreamError).partial?.overview).toBe("Partial.");
+    expect((failure as StreamError).message).toContain("model overloaded");
+  });
+});
+
+describe("requestCompare and requestCreate", () => {
+  it("normalises both sides of a comparison", async () => {
+    server.on("POST", "/compare", { body: { primary: ANALYSIS, competitor: ANALYSIS, summary: "Close." } });
+
+    const result = await requestCompare({
+      mode: "Marketing Audit",
+      primary: { url: "https://example.com", page: samplePage() },
+      competitor: { url: "https://rival.example", page: samplePage() },
+    });
+
+    expect(result.summary).toBe("Close.");
+    expect(result.competitor.score?.value).toBe(7.5);
+  });
+
+  it("normalises generated assets under their aliases", async () => {
+    server.on("POST", "/create", {
+      body: { social_posts: [{ platform: "x", content: "Hello" }], adVariants: [], emails: [], pieces: [] },
+    });
+
+    const result = await requestCreate({ option: "Social Media Posts", url: "https://example.com", page: samplePage() });
+
+    expect(result.option).toBe("Social Media Posts");
+    expect(result.posts).toEqual([{ platform: "x", text: "Hello" }]);
+  });
+});
@@ -0,0 +1,511 @@
+import type { PageContent } from "./pageContent";
+import type { CustomModeSpec } from "./scanModes";
+import {
+  SchemaError,
+  arrayOf,
+  expectNumber,
+  expectRecord,
+  expectString,
+  isRecord,
+  optionalNumber,
+  optionalRecord,
+  optionalString,
+  pickKey,
+  recordOf,
+} from "./schema";
+import { AuthError, authorizedFetch } from "./auth";
+import { redactUrl } from "./redaction";
+import { prepareOutgoingPage, settingsStore } from "./settings";
+
+export type AnalysisSection = {
+  id?: string;
+  title?: string;
+  insights: string[];
+};
+
+export type Verdicts = {
+  marketing?: string;
+  strategic?: string;
+};
+
+export type Score = {
+  value: number;
+  reasoning?: string;
+};
+
+/** Points an insight at the page element it is about, using a selector from `PageContent.elements`. */
+export type InsightAnchor = {
+  insight: string;
+  selector: string;
+};
+
+export type AnalysisResult = {
+  asset_type?: string;
+  overview?: string;
+  target_audience?: string;
+  score?: Score;
+  conversion_scores: Record<string, number>;
+  pricing_analysis: Record<string, number | string>;
+  insights: Record<string, string[]>;
+  sections: AnalysisSection[];
+  verdicts: Verdicts;
+  anchors?: InsightAnchor[];
+};
+
+export type PageTarget = {
+  url: string;
+  page: PageContent;
+};
+
+export type ScanRequest = PageTarget & {
+  mode: string;
+  /** Instructions and rubric of a user-defined mode; absent for built-in modes. */
+  custom_mode?: CustomModeSpec;
+};
+
+export type CompareRequest = {
+  mode: string;
+  primary: PageTarget;
+  competitor: PageTarget;
+};
+
+export type CompareResult = {
+  primary: AnalysisResult;
+  competitor: AnalysisResult;
+  summary?: string;
+};
+
+export type AssetKind = "posts" | "ads" | "emails" | "pieces";
+
+export type CreateRequest = PageTarget & {
+  option: string;
+  analysis?: AnalysisResult;
+  regenerate?: { kind: AssetKind; index: number };
+};
+
+export type SocialPost = {
+  platform: string;
+  text: string;
+};
+
+export type AdVariant = {
+  headline: string;
+  description: string;
+};
+
+export type EmailStep = {
+  subject: string;
+  body: string;
+  send_day?: number;
+};
+
+export type RepurposedPiece = {
+  format: string;
+  title?: string;
+  body: string;
+};
+
+export type CreateResult = {
+  option: string;
+  summary?: string;
+  posts: SocialPost[];
+  ads: AdVariant[];
+  emails: EmailStep[];
+  pieces: RepurposedPiece[];
+};
+
+export class ApiError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+/** A stream that broke after some of the analysis arrived; `partial` holds what was received. */
+export class StreamError extends ApiError {
+  partial?: AnalysisResult;
+
+  constructor(message: string, partial?: AnalysisResult, status?: number) {
+    super(message, status);
+    this.name = "StreamError";
+    this.partial = partial;
+  }
+}
+
+const STREAM_ACCEPT = "text/event-stream, application/x-ndjson";
+
+const FIELD_ALIASES = {
+  asset_type: ["asset_type", "assetType"],
+  overview: ["overview", "summary"],
+  target_audience: ["target_audience", "targetAudience"],
+  score: ["score", "overall_score", "overallScore"],
+  conversion_scores: ["conversion_scores", "conversionScores"],
+  pricing_analysis: ["pricing_analysis", "pricingAnalysis", "analysis_stats", "analysisStats"],
+  insights: ["insights", "insights_data", "insightsData"],
+  marketing_verdict: ["marketing_verdict", "marketingVerdict"],
+  strategic_verdict: ["strategic_verdict", "strategicVerdict"],
+  anchors: ["anchors", "element_refs", "elementRefs"],
+  posts: ["posts", "social_posts", "socialPosts"],
+  ads: ["ads", "ad_variants", "adVariants"],
+  emails: ["emails", "email_sequence", "emailSequence"],
+  pieces: ["pieces", "repurposed", "repurposed_content", "repurposedContent"],
+} as const;
+
+function readAlias(
+  source: Record<string, unknown>,
+  path: string,
+  field: keyof typeof FIELD_ALIASES
+): { value: unknown; path: string } {
+  const key = pickKey(source, FIELD_ALIASES[field]);
+  return key ? { value: source[key], path: `${path}.${key}` } : { value: undefined, path: `${path}.${field}` };
+}
+
+function normalizeScore(value: unknown, path: string): Score | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) return { value: expectNumber(value, path) };
+  return {
+    value: expectNumber(value.value, `${path}.value`),
+    reasoning: optionalString(value.reasoning, `${path}.reasoning`),
+  };
+}
+
+function normalizeStats(source: Record<string, unknown>, path: string): Record<string, number | string> {
+  // Stats have lived under several keys over time; the first non-empty one wins.
+  for (const key of FIELD_ALIASES.pricing_analysis) {
+    const candidate = optionalRecord(source[key], `${path}.${key}`);
+    if (!candidate || Object.keys(candidate).length === 0) continue;
+
+    const stats: Record<string, number | string> = {};
+    Object.entries(candidate).forEach(([statKey, value]) => {
+      if (typeof value === "number" || typeof value === "string") stats[statKey] = value;
+    });
+    return stats;
+  }
+  return {};
+}
+
+function normalizeSection(value: unknown, path: string): AnalysisSection {
+  const source = expectRecord(value, path);
+  return {
+    id: optionalString(source.id, `${path}.id`),
+    title: optionalString(source.title, `${path}.title`),
+    insights: arrayOf(source.insights, `${path}.insights`, expectString),
+  };
+}
+
+function normalizeAnchor(value: unknown, path: string): InsightAnchor {
+  const source = expectRecord(value, path);
+  const insightKey = pickKey(source, ["insight", "text", "finding"]) ?? "insight";
+  return {
+    insight: expectString(source[insightKey], `${path}.${insightKey}`),
+    selector: expectString(source.selector, `${path}.selector`),
+  };
+}
+
+function normalizeVerdicts(source: Record<string, unknown>, path: string): Verdicts {
+  const nested = optionalRecord(source.verdicts, `${path}.verdicts`) ?? {};
+  const marketing = readAlias(source, path, "marketing_verdict");
+  const strategic = readAlias(source, path, "strategic_verdict");
+  return {
+    marketing:
+      optionalString(marketing.value, marketing.path) ??
+      optionalString(nested.marketing, `${path}.verdicts.marketing`),
+    strategic:
+      optionalString(strategic.value, strategic.path) ??
+      optionalString(nested.strategic, `${path}.verdicts.strategic`),
+  };
+}
+
+/**
+ * Converts any analysis shape the backend has produced (snake_case, camelCase,
+ * or wrapped in `{ analysis }`) into the canonical `AnalysisResult`.
+ */
+export function normalizeAnalysis(data: unknown, path = "$"): AnalysisResult {
+  const root = expectRecord(data, path);
+  const source = isRecord(root.analysis) ? root.analysis : root;
+  const sourcePath = source === root ? path : `${path}.analysis`;
+
+  const field = (name: keyof typeof FIELD_ALIASES) => readAlias(source, sourcePath, name);
+  const assetType = field("asset_type");
+  const overview = field("overview");
+  const audience = field("target_audience");
+  const score = field("score");
+  const conversion = field("conversion_scores");
+  const insights = field("insights");
+  const anchors = field("anchors");
+
+  const result: AnalysisResult = {
+    asset_type: optionalString(assetType.value, assetType.path),
+    overview: optionalString(overview.value, overview.path),
+    target_audience: optionalString(audience.value, audience.path),
+    score: normalizeScore(score.value, score.path),
+    conversion_scores: recordOf(conversion.value, conversion.path, expectNumber),
+    pricing_analysis: normalizeStats(source, sourcePath),
+    insights: recordOf(insights.value, insights.path, (value, itemPath) =>
+      arrayOf(value, itemPath, expectString)
+    ),
+    sections: arrayOf(source.sections, `${sourcePath}.sections`, normalizeSection),
+    verdicts: normalizeVerdicts(source, sourcePath),
+    anchors: arrayOf(anchors.value, anchors.path, normalizeAnchor),
+  };
+
+  return result;
+}
+
+function expectAnalysis(data: unknown, path: string): AnalysisResult {
+  const result = normalizeAnalysis(data, path);
+  const hasContent =
+    result.overview !== undefined ||
+    result.score !== undefined ||
+    result.sections.length > 0 ||
+    Object.keys(result.insights).length > 0 ||
+    Object.keys(result.conversion_scores).length > 0;
+  if (!hasContent) {
+    throw new SchemaError(path, "an analysis with an overview, score, insights or sections");
+  }
+  return result;
+}
+
+function normalizeCompareResult(data: unknown): CompareResult {
+  const source = expectRecord(data, "$");
+  return {
+    primary: expectAnalysis(source.primary, "$.primary"),
+    competitor: expectAnalysis(source.competitor, "$.competitor"),
+    summary: optionalString(source.summary, "$.summary"),
+  };
+}
+
+function normalizePost(value: unknown, path: string): SocialPost {
+  const source = expectRecord(value, path);
+  return {
+    platform: expectString(source.platform, `${path}.platform`),
+    text: expectString(source.text ?? source.content, `${path}.text`),
+  };
+}
+
+function normalizeAd(value: unknown, path: string): AdVariant {
+  const source = expectRecord(value, path);
+  return {
+    headline: expectString(source.headline, `${path}.headline`),
+    description: expectString(source.description, `${path}.description`),
+  };
+}
+
+function normalizeEmail(value: unknown, path: string): EmailStep {
+  const source = expectRecord(value, path);
+  const subjectKey = pickKey(source, ["subject", "subject_line", "subjectLine"]) ?? "subject";
+  const dayKey = pickKey(source, ["send_day", "sendDay", "day"]) ?? "send_day";
+  return {
+    subject: expectString(source[subjectKey], `${path}.${subjectKey}`),
+    body: expectString(source.body, `${path}.body`),
+    send_day: optionalNumber(source[dayKey], `${path}.${dayKey}`),
+  };
+}
+
+function normalizePiece(value: unknown, path: string): RepurposedPiece {
+  const source = expectRecord(value, path);
+  return {
+    format: expectString(source.format, `${path}.format`),
+    title: optionalString(source.title, `${path}.title`),
+    body: expectString(source.body, `${path}.body`),
+  };
+}
+
+function normalizeCreateResult(data: unknown, option: string, path = "$"): CreateResult {
+  const source = expectRecord(data, path);
+  const field = (name: keyof typeof FIELD_ALIASES) => readAlias(source, path, name);
+  const posts = field("posts");
+  const ads = field("ads");
+  const emails = field("emails");
+  const pieces = field("pieces");
+
+  return {
+    option: optionalString(source.option, `${path}.option`) ?? option,
+    summary: optionalString(source.summary, `${path}.summary`),
+    posts: arrayOf(posts.value, posts.path, normalizePost),
+    ads: arrayOf(ads.value, ads.path, normalizeAd),
+    emails: arrayOf(emails.value, emails.path, normalizeEmail),
+    pieces: arrayOf(pieces.value, pieces.path, normalizePiece),
+  };
+}
+
+/**
+ * How long the backend may take to start answering. Streams are only timed
+ * until their headers arrive, so a long analysis can keep streaming.
+ */
+export const REQUEST_TIMEOUT_MS = 60_000;
+
+async function sendRequest(path: string, body: object, signal?: AbortSignal, accept = "application/json"): Promise<Response> {
+  const settings = await settingsStore.get();
+  const headers: Record<string, string> = { "Content-Type": "application/json", Accept: accept };
+  if (settings.apiKey) headers["X-API-Key"] = settings.apiKey;
+
+  const timeout = new AbortController();
+  const timer = setTimeout(() => timeout.abort(), REQUEST_TIMEOUT_MS);
+  let response: Response;
+  try {
+    response = await authorizedFetch(`${settings.apiBaseUrl}${path}`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ ...body, preferences: { language: settings.language, tone: settings.tone } }),
+      signal: signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal,
+    });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    // Without a status a hung backend counts as unreachable, so SEO Audit falls back to the local audit.
+    if (timeout.signal.aborted) throw new ApiError("The Rook Lite backend did not respond in time.");
+    if (err instanceof AuthError) throw new ApiError(err.message, err.status);
+    throw new ApiError("Could not reach the Rook Lite backend.");
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (response.status === 401) {
+    throw new ApiError("Sign in from the Profile page to use the Rook Lite backend.", 401);
+  }
+  if (!response.ok) {
+    throw new ApiError(`Backend request failed (${response.status}).`, response.status);
+  }
+  return response;
+}
+
+async function postJson(path: string, body: object, signal?: AbortSignal): Promise<unknown> {
+  const response = await sendRequest(path, body, signal);
+  try {
+    return await response.json();
+  } catch {
+    throw new ApiError("Backend returned a response that is not JSON.", response.status);
+  }
+}
+
+/** A page and its address as they leave the browser: content policy and redaction applied. */
+export async function withOutgoingPage<T extends PageTarget>(target: T): Promise<T> {
+  const settings = await settingsStore.get();
+  return {
+    ...target,
+    url: redactUrl(target.url, settings.redaction),
+    page: prepareOutgoingPage(target.page, settings).page,
+  };
+}
+
+export async function requestScan(request: ScanRequest, signal?: AbortSignal): Promise<AnalysisResult> {
+  const data = await postJson("/analyze", await withOutgoingPage(request), signal);
+  return expectAnalysis(data, "$");
+}
+
+export async function requestCompare(request: CompareRequest, signal?: AbortSignal): Promise<CompareResult> {
+  const data = await postJson(
+    "/compare",
+    {
+      ...request,
+      primary: await withOutgoingPage(request.primary),
+      competitor: await withOutgoingPage(request.competitor),
+    },
+    signal
+  );
+  return normalizeCompareResult(data);
+}
+
+export async function requestCreate(request: CreateRequest, signal?: AbortSignal): Promise<CreateResult> {
+  const data = await postJson("/create", await withOutgoingPage(request), signal);
+  return normalizeCreateResult(data, request.option);
+}
+
+/**
+ * Reads a streamed response line by line. Server-sent events deliver each
+ * chunk in `data:` fields; anything else is treated as newline-delimited JSON.
+ */
+async function readStream(response: Response, onChunk: (chunk: unknown) => void): Promise<void> {
+  if (!response.body) throw new ApiError("Backend returned an empty stream.", response.status);
+
+  const sse = (response.headers.get("Content-Type") ?? "").includes("text/event-stream");
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let eventData: string[] = [];
+
+  const emit = (text: string) => {
+    if (!text || text === "[DONE]") return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new ApiError("Backend streamed a chunk that is not JSON.", response.status);
+    }
+    onChunk(parsed);
+  };
+  const handleLine = (line: string) => {
+    if (!sse) {
+      emit(line.trim());
+    } else if (line === "") {
+      emit(eventData.join("\n").trim());
+      eventData = [];
+    } else if (line.startsWith("data:")) {
+      eventData.push(line.slice(5).replace(/^ /, ""));
+    }
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+  if (sse) handleLine("");
+}
+
+/** Folds a streamed chunk into the analysis so far: records merge, lists append, values replace. */
+function mergeChunk(target: Record<string, unknown>, chunk: Record<string, unknown>) {
+  Object.entries(chunk).forEach(([key, value]) => {
+    const current = target[key];
+    if (Array.isArray(current) && Array.isArray(value)) target[key] = [...current, ...value];
+    else if (isRecord(current) && isRecord(value)) target[key] = { ...current, ...value };
+    else target[key] = value;
+  });
+}
+
+/**
+ * Streams a scan from `/analyze/stream`, calling `onPartial` with the
+ * analysis so far after every chunk. Backends without the endpoint fall back
+ * to a single `/analyze` request.
+ */
+export async function requestScanStream(
+  request: ScanRequest,
+  onPartial: (partial: AnalysisResult) => void,
+  signal?: AbortSignal
+): Promise<AnalysisResult> {
+  let response: Response;
+  try {
+    response = await sendRequest("/analyze/stream", await withOutgoingPage(request), signal, STREAM_ACCEPT);
+  } catch (err) {
+    if (err instanceof ApiError && (err.status === 404 || err.status === 405)) return requestScan(request, signal);
+    throw err;
+  }
+
+  if ((response.headers.get("Content-Type") ?? "").includes("application/json")) {
+    return expectAnalysis(await response.json(), "$");
+  }
+
+  const accumulated: Record<string, unknown> = {};
+  let partial: AnalysisResult | undefined;
+  try {
+    await readStream(response, (chunk) => {
+      const record = expectRecord(chunk, "$");
+      if (typeof record.error === "string") throw new ApiError(record.error, response.status);
+      mergeChunk(accumulated, isRecord(record.analysis) ? record.analysis : record);
+      partial = normalizeAnalysis(accumulated);
+      onPartial(partial);
+    });
+  } catch (err) {
+    if (err instanceof DOMException && err.name === "AbortError") throw err;
+    const reason = err instanceof Error ? err.message : "The connection dropped.";
+    throw new StreamError(`The analysis stream broke: ${reason}`, partial, response.status);
+  }
+
+  return expectAnalysis(accumulated, "$");
+}
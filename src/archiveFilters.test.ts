@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_ARCHIVE_FILTERS,
+  applyArchiveFilters,
+  collectFilterOptions,
+  countActiveFilters,
+  type ArchiveFilters,
+} from "./archiveFilters";
+import { buildSearchIndex } from "./searchIndex";
+import { sampleEntry } from "./test/fixtures";
+
+const entries = [
+  sampleEntry({
+    id: "home",
+    createdAt: new Date(2026, 0, 1, 9).getTime(),
+    url: "https://www.example.com/",
+    overview: "Home page with a pricing teaser.",
+    score: { value: 6 },
+    scan_mode: "Marketing Audit",
+  }),
+  sampleEntry({
+    id: "pricing",
+    createdAt: new Date(2026, 0, 2, 23, 30).getTime(),
+    url: "https://example.com/pricing",
+    overview: "Pricing page.",
+    score: { value: 8 },
+    scan_mode: "SEO Audit",
+  }),
+  sampleEntry({
+    id: "compare",
+    createdAt: new Date(2026, 0, 3, 9).getTime(),
+    url: "https://shop.test/",
+    overview: "Shop against a competitor.",
+    score: { value: 8 },
+    mode: "compare",
+    asset_type: "Comparison",
+  }),
+];
+const index = buildSearchIndex(entries);
+
+function run(filters: Partial<ArchiveFilters>): string[] {
+  return applyArchiveFilters(entries, { ...DEFAULT_ARCHIVE_FILTERS, ...filters }, index).map((item) => item.id);
+}
+
+describe("applyArchiveFilters", () => {
+  it("lists everything newest first by default", () => {
+    expect(run({})).toEqual(["compare", "pricing", "home"]);
+  });
+
+  it.each<[string, Partial<ArchiveFilters>, string[]]>([
+    ["mode", { mode: "compare" }, ["compare"]],
+    ["score range", { scoreMin: 70, scoreMax: 80 }, ["compare", "pricing"]],
+    ["domain, ignoring www", { domain: "example.com" }, ["pricing", "home"]],
+    ["scan mode", { scanMode: "SEO Audit" }, ["pricing"]],
+    ["asset type", { assetType: "Comparison" }, ["compare"]],
+    ["whole local days", { dateFrom: "2026-01-02", dateTo: "2026-01-02" }, ["pricing"]],
+    ["an open-ended date range", { dateFrom: "2026-01-02" }, ["compare", "pricing"]],
+  ])("filters by %s", (_filter, filters, ids) => {
+    expect(run(filters)).toEqual(ids);
+  });
+
+  it("combines the query with the other filters", () => {
+    expect(run({ query: "pricing" })).toEqual(["pricing", "home"]);
+    expect(run({ query: "pricing", scoreMax: 70 })).toEqual(["home"]);
+    expect(run({ query: "pricing", mode: "compare" })).toEqual([]);
+  });
+
+  it("sorts by relevance with a query and by date without one", () => {
+    expect(run({ query: "pricing", sort: "relevance" })).toEqual(["pricing", "home"]);
+    expect(run({ sort: "relevance" })).toEqual(["compare", "pricing", "home"]);
+  });
+
+  it.each<[ArchiveFilters["sort"], string[]]>([
+    ["date-asc", ["home", "pricing", "compare"]],
+    ["score-desc", ["compare", "pricing", "home"]],
+    ["score-asc", ["home", "compare", "pricing"]],
+    ["domain", ["pricing", "home", "compare"]],
+  ])("sorts by %s, newest first among ties", (sort, ids) => {
+    expect(run({ sort })).toEqual(ids);
+  });
+});
+
+describe("collectFilterOptions", () => {
+  it("offers each domain, asset type and scan mode once, sorted", () => {
+    expect(collectFilterOptions(entries)).toEqual({
+      domains: ["example.com", "shop.test"],
+      assetTypes: ["Comparison"],
+      scanModes: ["Marketing Audit", "SEO Audit"],
+    });
+  });
+});
+
+describe("countActiveFilters", () => {
+  it("counts changed filters but not the query or sort order", () => {
+    expect(countActiveFilters({ ...DEFAULT_ARCHIVE_FILTERS, query: "x", sort: "domain" })).toBe(0);
+    const filters: ArchiveFilters = { ...DEFAULT_ARCHIVE_FILTERS, mode: "scan", scoreMin: 50, domain: "example.com" };
+
+    expect(countActiveFilters(filters)).toBe(3);
+  });
+});
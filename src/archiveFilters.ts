@@ -0,0 +1,127 @@
+import { getItemMode } from "./analysisModel";
+import type { HistoryAnalysis, ItemMode } from "./HistoryPage";
+import { toOverallScore } from "./scoring";
+import { searchIndex, type SearchIndex } from "./searchIndex";
+import { getDefaultStorageArea } from "./storage";
+
+export type ArchiveSort = "relevance" | "date-desc" | "date-asc" | "score-desc" | "score-asc" | "domain";
+
+export type ArchiveFilters = {
+  query: string;
+  mode: "all" | ItemMode;
+  scoreMin: number;
+  scoreMax: number;
+  /** Inclusive `YYYY-MM-DD` bounds in local time; empty means unbounded. */
+  dateFrom: string;
+  dateTo: string;
+  domain: string;
+  assetType: string;
+  scanMode: string;
+  sort: ArchiveSort;
+};
+
+export type FilterOptions = {
+  domains: string[];
+  assetTypes: string[];
+  scanModes: string[];
+};
+
+export const DEFAULT_ARCHIVE_FILTERS: ArchiveFilters = {
+  query: "",
+  mode: "all",
+  scoreMin: 0,
+  scoreMax: 100,
+  dateFrom: "",
+  dateTo: "",
+  domain: "",
+  assetType: "",
+  scanMode: "",
+  sort: "date-desc",
+};
+
+const FILTERS_KEY = "archiveFilters";
+
+export function getDomain(url: string | undefined): string {
+  if (!url) return "";
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+function distinct(values: Array<string | undefined>): string[] {
+  return Array.from(new Set(values.filter((value): value is string => Boolean(value)))).sort((a, b) =>
+    a.localeCompare(b)
+  );
+}
+
+export function collectFilterOptions(items: HistoryAnalysis[]): FilterOptions {
+  return {
+    domains: distinct(items.map((item) => getDomain(item.url))),
+    assetTypes: distinct(items.map((item) => item.asset_type)),
+    scanModes: distinct(items.map((item) => item.scan_mode)),
+  };
+}
+
+/** Number of filters that differ from the defaults, excluding the query and sort order. */
+export function countActiveFilters(filters: ArchiveFilters): number {
+  const keys: Array<keyof ArchiveFilters> = ["mode", "scoreMin", "scoreMax", "dateFrom", "dateTo", "domain", "assetType", "scanMode"];
+  return keys.filter((key) => filters[key] !== DEFAULT_ARCHIVE_FILTERS[key]).length;
+}
+
+function dayStart(value: string): number {
+  return value ? new Date(`${value}T00:00:00`).getTime() : -Infinity;
+}
+
+function dayEnd(value: string): number {
+  return value ? new Date(`${value}T23:59:59.999`).getTime() : Infinity;
+}
+
+/** Filters, ranks and sorts history entries; `relevance` falls back to newest first without a query. */
+export function applyArchiveFilters(
+  items: HistoryAnalysis[],
+  filters: ArchiveFilters,
+  index: SearchIndex
+): HistoryAnalysis[] {
+  const ranks = searchIndex(index, filters.query);
+  const from = dayStart(filters.dateFrom);
+  const to = dayEnd(filters.dateTo);
+
+  const matches = items.filter((item) => {
+    if (ranks && !ranks.has(item.id)) return false;
+    if (filters.mode !== "all" && getItemMode(item) !== filters.mode) return false;
+    const score = toOverallScore(item.score);
+    if (score < filters.scoreMin || score > filters.scoreMax) return false;
+    if (item.createdAt < from || item.createdAt > to) return false;
+    if (filters.domain && getDomain(item.url) !== filters.domain) return false;
+    if (filters.assetType && item.asset_type !== filters.assetType) return false;
+    if (filters.scanMode && item.scan_mode !== filters.scanMode) return false;
+    return true;
+  });
+
+  const byDate = (a: HistoryAnalysis, b: HistoryAnalysis) => b.createdAt - a.createdAt;
+  switch (filters.sort) {
+    case "relevance":
+      return matches.sort((a, b) => (ranks ? (ranks.get(b.id) ?? 0) - (ranks.get(a.id) ?? 0) : 0) || byDate(a, b));
+    case "date-asc":
+      return matches.sort((a, b) => a.createdAt - b.createdAt);
+    case "score-desc":
+      return matches.sort((a, b) => toOverallScore(b.score) - toOverallScore(a.score) || byDate(a, b));
+    case "score-asc":
+      return matches.sort((a, b) => toOverallScore(a.score) - toOverallScore(b.score) || byDate(a, b));
+    case "domain":
+      return matches.sort((a, b) => getDomain(a.url).localeCompare(getDomain(b.url)) || byDate(a, b));
+    default:
+      return matches.sort(byDate);
+  }
+}
+
+export async function loadArchiveFilters(): Promise<ArchiveFilters> {
+  const stored = await getDefaultStorageArea().get<Partial<ArchiveFilters>>(FILTERS_KEY);
+  return { ...DEFAULT_ARCHIVE_FILTERS, ...stored };
+}
+
+export function saveArchiveFilters(filters: ArchiveFilters): Promise<void> {
+  return getDefaultStorageArea().set(FILTERS_KEY, filters);
+}
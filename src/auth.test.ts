@@ -0,0 +1,116 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { AuthError, authStore, authorizedFetch, fetchProfile, signInWithPassword } from "./auth";
+import { DEFAULT_SETTINGS, settingsStore } from "./settings";
+import { startMockServer, type MockServer } from "./test/mockServer";
+
+let server: MockServer;
+const SESSION = { access_token: "old-access", refresh_token: "refresh-1" };
+
+/** A protected route that only accepts `token`. */
+const acceptOnly = (token: string) => (request: { headers: Record<string, unknown> }) =>
+  request.headers.authorization === `Bearer ${token}` ? { body: { ok: true } } : { status: 401, body: {} };
+
+beforeAll(async () => {
+  server = await startMockServer();
+  await settingsStore.save({ ...DEFAULT_SETTINGS, apiBaseUrl: server.url });
+});
+
+afterAll(() => server.close());
+
+beforeEach(async () => {
+  server.reset();
+  await authStore.clear();
+});
+
+describe("signInWithPassword", () => {
+  it("stores the tokens the backend returns", async () => {
+    server.on("POST", "/auth/login", { body: { tokens: { accessToken: "a", refreshToken: "r", expiresIn: 3600 } } });
+
+    await signInWithPassword(" jane@example.com ", "secret");
+
+    expect(JSON.parse(server.requests[0].body)).toEqual({ email: "jane@example.com", password: "secret" });
+    const stored = await authStore.get();
+    expect(stored).toMatchObject({ access_token: "a", refresh_token: "r" });
+    expect(stored?.expires_at).toBeGreaterThan(Date.now());
+  });
+
+  it("reports wrong credentials", async () => {
+    server.on("POST", "/auth/login", { status: 401, body: { error: "invalid_grant" } });
+
+    await expect(signInWithPassword("jane@example.com", "wrong")).rejects.toThrow("Email or password is incorrect.");
+  });
+
+  it("turns a malformed token response into an AuthError", async () => {
+    server.on("POST", "/auth/login", { body: { token: "missing-access-token" } });
+
+    await expect(signInWithPassword("jane@example.com", "secret")).rejects.toBeInstanceOf(AuthError);
+    expect(await authStore.get()).toBeNull();
+  });
+});
+
+describe("authorizedFetch", () => {
+  it("refreshes once on 401 and retries with the new token", async () => {
+    await authStore.set(SESSION);
+    server.on("GET", "/private", acceptOnly("new-access"));
+    server.on("POST", "/auth/refresh", { body: { access_token: "new-access" } });
+
+    const response = await authorizedFetch(`${server.url}/private`);
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(server.requests[1].body)).toEqual({ refresh_token: "refresh-1" });
+    expect(await authStore.get()).toMatchObject({ access_token: "new-access", refresh_token: "refresh-1" });
+  });
+
+  it("signs out when the backend rejects the refresh token", async () => {
+    await authStore.set(SESSION);
+    server.on("GET", "/private", acceptOnly("new-access"));
+    server.on("POST", "/auth/refresh", { status: 400, body: { error: "invalid_grant" } });
+
+    await expect(authorizedFetch(`${server.url}/private`)).rejects.toMatchObject({ status: 401 });
+    expect(await authStore.get()).toBeNull();
+  });
+
+  it("keeps the session when the refresh endpoint fails", async () => {
+    await authStore.set(SESSION);
+    server.on("GET", "/private", acceptOnly("new-access"));
+    server.on("POST", "/auth/refresh", { status: 503, body: {} });
+
+    await expect(authorizedFetch(`${server.url}/private`)).rejects.toMatchObject({ status: 503 });
+    expect(await authStore.get()).toEqual(SESSION);
+  });
+
+  it("signs out when the retry is refused as well", async () => {
+    await authStore.set(SESSION);
+    server.on("GET", "/private", acceptOnly("never-valid"));
+    server.on("POST", "/auth/refresh", { body: { access_token: "new-access" } });
+
+    await expect(authorizedFetch(`${server.url}/private`)).rejects.toThrow("Your session has expired.");
+    expect(await authStore.get()).toBeNull();
+  });
+
+  it("refreshes an expired token before sending", async () => {
+    await authStore.set({ ...SESSION, expires_at: Date.now() - 1000 });
+    server.on("GET", "/private", acceptOnly("new-access"));
+    server.on("POST", "/auth/refresh", { body: { access_token: "new-access" } });
+
+    expect((await authorizedFetch(`${server.url}/private`)).status).toBe(200);
+    expect(server.requests.map((request) => request.path)).toEqual(["/auth/refresh", "/private"]);
+  });
+});
+
+describe("fetchProfile", () => {
+  it("reads the profile and usage", async () => {
+    await authStore.set(SESSION);
+    server.on("GET", "/auth/me", {
+      body: { user: { email: "jane@example.com", name: "Jane" }, usage: { used: 3, limit: 50 } },
+    });
+
+    expect(await fetchProfile()).toEqual({
+      email: "jane@example.com",
+      name: "Jane",
+      plan: "Free",
+      usage: { used: 3, limit: 50, resets_at: undefined },
+    });
+    expect(server.requests[0].headers.authorization).toBe("Bearer old-access");
+  });
+});
@@ -0,0 +1,264 @@
+import { SchemaError, expectRecord, expectString, isRecord, optionalNumber, optionalString } from "./schema";
+import { settingsStore } from "./settings";
+import { getDefaultStorageArea, type StorageArea } from "./storage";
+
+export type AuthTokens = {
+  access_token: string;
+  refresh_token?: string;
+  /** Epoch milliseconds after which the access token should be refreshed. */
+  expires_at?: number;
+};
+
+export type UsageQuota = {
+  used: number;
+  limit: number | null;
+  resets_at?: string;
+};
+
+export type AccountProfile = {
+  email: string;
+  name?: string;
+  plan: string;
+  usage: UsageQuota;
+};
+
+export class AuthError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "AuthError";
+    this.status = status;
+  }
+}
+
+const AUTH_KEY = "auth";
+/** Refresh this long before expiry so a request never leaves with a token that dies in flight. */
+const EXPIRY_SKEW_MS = 60_000;
+
+function normalizeTokens(data: unknown): AuthTokens {
+  try {
+    const source = expectRecord(isRecord(data) && isRecord(data.tokens) ? data.tokens : data, "$");
+    const expiresIn = optionalNumber(source.expires_in ?? source.expiresIn, "$.expires_in");
+    return {
+      access_token: expectString(source.access_token ?? source.accessToken, "$.access_token"),
+      refresh_token: optionalString(source.refresh_token ?? source.refreshToken, "$.refresh_token"),
+      expires_at: expiresIn === undefined ? undefined : Date.now() + expiresIn * 1000,
+    };
+  } catch (err) {
+    if (err instanceof SchemaError) throw new AuthError(`The backend returned invalid tokens: ${err.message}`);
+    throw err;
+  }
+}
+
+function normalizeProfile(data: unknown): AccountProfile {
+  const source = expectRecord(isRecord(data) && isRecord(data.user) ? { ...data.user, ...data } : data, "$");
+  const usage = isRecord(source.usage) ? source.usage : {};
+  return {
+    email: expectString(source.email, "$.email"),
+    name: optionalString(source.name, "$.name"),
+    plan: optionalString(source.plan, "$.plan") ?? "Free",
+    usage: {
+      used: optionalNumber(usage.used, "$.usage.used") ?? 0,
+      limit: optionalNumber(usage.limit, "$.usage.limit") ?? null,
+      resets_at: optionalString(usage.resets_at ?? usage.resetsAt, "$.usage.resets_at"),
+    },
+  };
+}
+
+type AuthListener = (tokens: AuthTokens | null) => void;
+
+export type AuthStore = {
+  get(): Promise<AuthTokens | null>;
+  set(tokens: AuthTokens): Promise<void>;
+  clear(): Promise<void>;
+  subscribe(listener: AuthListener): () => void;
+};
+
+export function createAuthStore(area: StorageArea): AuthStore {
+  return {
+    async get() {
+      return (await area.get<AuthTokens>(AUTH_KEY)) ?? null;
+    },
+    set: (tokens) => area.set(AUTH_KEY, tokens),
+    clear: () => area.remove(AUTH_KEY),
+    subscribe(listener) {
+      return area.subscribe((key, newValue) => {
+        if (key === AUTH_KEY) listener((newValue as AuthTokens | undefined) ?? null);
+      });
+    },
+  };
+}
+
+/**
+ * Tokens live in chrome.storage.local so a session survives a browser
+ * restart. Web pages cannot read it, but the extension's own content script
+ * could, so content.ts must never import this module.
+ */
+export const authStore = createAuthStore(getDefaultStorageArea());
+
+async function authEndpoint(path: string): Promise<string> {
+  const { apiBaseUrl } = await settingsStore.get();
+  return `${apiBaseUrl}${path}`;
+}
+
+async function postAuth(path: string, body: unknown): Promise<AuthTokens> {
+  let response: Response;
+  try {
+    response = await fetch(await authEndpoint(path), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new AuthError("Could not reach the Rook Lite backend.");
+  }
+  if (response.status === 400 || response.status === 401) {
+    throw new AuthError("Email or password is incorrect.", response.status);
+  }
+  if (!response.ok) throw new AuthError(`Sign-in failed (${response.status}).`, response.status);
+
+  return normalizeTokens(await response.json().catch(() => null));
+}
+
+async function storeTokens(tokens: AuthTokens): Promise<AuthTokens> {
+  await authStore.set(tokens);
+  return tokens;
+}
+
+export async function signInWithPassword(email: string, password: string): Promise<AuthTokens> {
+  return storeTokens(await postAuth("/auth/login", { email: email.trim(), password }));
+}
+
+/**
+ * Runs the backend's OAuth flow in a Chrome-managed window. The backend
+ * redirects back to the extension's identity URL with either tokens in the
+ * fragment or an authorization code to exchange.
+ */
+export async function signInWithOAuth(provider: string): Promise<AuthTokens> {
+  const redirectUri = chrome.identity.getRedirectURL("oauth");
+  const startUrl = new URL(await authEndpoint(`/auth/oauth/${encodeURIComponent(provider)}/start`));
+  startUrl.searchParams.set("redirect_uri", redirectUri);
+
+  let responseUrl: string | undefined;
+  try {
+    responseUrl = await chrome.identity.launchWebAuthFlow({ url: startUrl.toString(), interactive: true });
+  } catch (err) {
+    throw new AuthError(err instanceof Error ? err.message : "Sign-in was cancelled.");
+  }
+  if (!responseUrl) throw new AuthError("Sign-in was cancelled.");
+
+  const result = new URL(responseUrl);
+  const fragment = new URLSearchParams(result.hash.slice(1));
+  const error = fragment.get("error") ?? result.searchParams.get("error");
+  if (error) throw new AuthError(`Sign-in failed: ${error}.`);
+
+  if (fragment.get("access_token")) return storeTokens(normalizeTokens(Object.fromEntries(fragment)));
+  const code = result.searchParams.get("code");
+  if (!code) throw new AuthError("Sign-in did not return a token.");
+  return storeTokens(
+    await postAuth(`/auth/oauth/${encodeURIComponent(provider)}/callback`, { code, redirect_uri: redirectUri })
+  );
+}
+
+let refreshing: Promise<AuthTokens | null> | null = null;
+
+/** The backend answers an expired or revoked refresh token (OAuth `invalid_grant`) with one of these. */
+function isRejectedGrant(err: unknown): boolean {
+  return err instanceof AuthError && (err.status === 400 || err.status === 401);
+}
+
+/**
+ * Exchanges the refresh token for a new access token; concurrent callers
+ * share one request. Resolves to null when there is no refresh token or the
+ * backend rejects it, which ends the session. Any other failure (network,
+ * 5xx) rejects with an AuthError and keeps the tokens for a later retry.
+ */
+function refreshTokens(current: AuthTokens): Promise<AuthTokens | null> {
+  if (!current.refresh_token) return Promise.resolve(null);
+  refreshing ??= postAuth("/auth/refresh", { refresh_token: current.refresh_token })
+    .then((tokens) => storeTokens({ ...tokens, refresh_token: tokens.refresh_token ?? current.refresh_token }))
+    .catch(async (err: unknown) => {
+      if (isRejectedGrant(err)) {
+        await authStore.clear();
+        return null;
+      }
+      const status = err instanceof AuthError ? err.status : undefined;
+      throw new AuthError(
+        status === undefined ? "Could not reach the Rook Lite backend." : `Could not refresh your session (${status}).`,
+        status
+      );
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+async function currentAccessToken(): Promise<string | null> {
+  const tokens = await authStore.get();
+  if (!tokens) return null;
+  if (tokens.expires_at === undefined || tokens.expires_at - EXPIRY_SKEW_MS > Date.now()) return tokens.access_token;
+  try {
+    return (await refreshTokens(tokens))?.access_token ?? null;
+  } catch {
+    // The refresh could not happen right now; the old token may still be inside the skew window.
+    return tokens.access_token;
+  }
+}
+
+/**
+ * `fetch` with the bearer token attached. A 401 triggers one refresh and
+ * retry. The stored session is cleared only when the backend rejects the
+ * refresh token or the retry is refused too, so the UI asks the user to sign
+ * in again; a refresh that fails for other reasons throws and keeps it.
+ */
+export async function authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = (token: string | null) => {
+    const headers = new Headers(init.headers);
+    if (token) headers.set("Authorization", `Bearer ${token}`);
+    return fetch(url, { ...init, headers });
+  };
+
+  const token = await currentAccessToken();
+  const response = await send(token);
+  if (response.status !== 401 || !token) return response;
+
+  const stored = await authStore.get();
+  // Network errors and 5xx from the refresh propagate here without touching the session.
+  const refreshed = stored ? await refreshTokens(stored) : null;
+  if (refreshed) {
+    const retried = await send(refreshed.access_token);
+    if (retried.status !== 401) return retried;
+  }
+  await authStore.clear();
+  throw new AuthError("Your session has expired. Sign in again from the Profile page.", 401);
+}
+
+export async function fetchProfile(): Promise<AccountProfile> {
+  let response: Response;
+  try {
+    response = await authorizedFetch(await authEndpoint("/auth/me"));
+  } catch (err) {
+    if (err instanceof AuthError) throw err;
+    throw new AuthError("Could not reach the Rook Lite backend.");
+  }
+  if (!response.ok) throw new AuthError(`Could not load your profile (${response.status}).`, response.status);
+  return normalizeProfile(await response.json().catch(() => null));
+}
+
+/** Clears local tokens and tells the backend to revoke the refresh token (best effort). */
+export async function signOut(): Promise<void> {
+  const tokens = await authStore.get();
+  await authStore.clear();
+  if (!tokens?.refresh_token) return;
+  try {
+    await fetch(await authEndpoint("/auth/logout"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${tokens.access_token}` },
+      body: JSON.stringify({ refresh_token: tokens.refresh_token }),
+    });
+  } catch {
+    // The local session is already gone; a failed revoke only leaves a token that will expire.
+  }
+}
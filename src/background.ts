@@ -0,0 +1,331 @@
+import { historyRepository } from "./historyRepository";
+import {
+  JOB_PORT_NAME,
+  isJobRunning,
+  type JobEvent,
+  type JobParams,
+  type JobRequest,
+  type JobState,
+  type JobSurface,
+} from "./jobProtocol";
+import { RequestQueuedError, describeJob, runJob, scanWatchedPage, sendQueuedRequest } from "./jobRunners";
+import {
+  MAX_ATTEMPTS,
+  PROCESS_QUEUE_MESSAGE,
+  QUEUE_ALARM,
+  isRetryableError,
+  requestQueue,
+  retryDelay,
+} from "./requestQueue";
+import { toOverallScore } from "./scoring";
+import {
+  RUN_WATCHLIST_MESSAGE,
+  WATCH_ALARM,
+  baselineFor,
+  findRegressions,
+  nextRunTime,
+  watchStore,
+  type WatchedPage,
+} from "./watchlist";
+
+const JOB_STORAGE_KEY = "activeJob";
+
+const ports = new Set<chrome.runtime.Port>();
+let currentJob: JobState | null = null;
+let currentController: AbortController | null = null;
+// Job claims run one at a time, so two quick START_JOB messages cannot both find the worker idle.
+let claiming: Promise<unknown> = Promise.resolve();
+
+function broadcast(event: JobEvent) {
+  ports.forEach((port) => port.postMessage(event));
+}
+
+function publish(job: JobState | null) {
+  currentJob = job;
+  // Session storage outlives a worker restart, so a reopened popup can still see the last job.
+  const persist = job
+    ? chrome.storage.session.set({ [JOB_STORAGE_KEY]: job })
+    : chrome.storage.session.remove(JOB_STORAGE_KEY);
+  persist.catch(() => undefined);
+  broadcast({ type: "JOB_SNAPSHOT", job });
+}
+
+async function loadJob(): Promise<JobState | null> {
+  if (currentJob) return currentJob;
+
+  const stored = (await chrome.storage.session.get(JOB_STORAGE_KEY))[JOB_STORAGE_KEY] as JobState | undefined;
+  if (!stored) return null;
+
+  if (isJobRunning(stored) && !currentController) {
+    // The worker was restarted mid-job; the request it was waiting on is gone.
+    // A scan that had started streaming keeps what arrived, flagged as incomplete.
+    const saved = stored.partial
+      ? await historyRepository.add({ ...stored.partial, incomplete: true }).then(
+          () => true,
+          () => false
+        )
+      : false;
+    const message = saved
+      ? "The job was interrupted. The partial result was saved to history."
+      : "The job was interrupted. Please run it again.";
+    publish({ ...stored, partial: undefined, stage: "error", progress: 1, message, error: message });
+  } else {
+    currentJob = stored;
+  }
+  return currentJob;
+}
+
+function updateJob(jobId: string, patch: Partial<JobState>) {
+  if (currentJob?.id !== jobId) return;
+  publish({ ...currentJob, ...patch });
+}
+
+/** Publishes a new job for `params` unless one is still running; null when the request was rejected. */
+async function claimJob(
+  params: JobParams,
+  surface: JobSurface,
+  port: chrome.runtime.Port
+): Promise<{ job: JobState; controller: AbortController } | null> {
+  if (isJobRunning(await loadJob())) {
+    port.postMessage({ type: "JOB_REJECTED", message: "Another analysis is still running." } satisfies JobEvent);
+    return null;
+  }
+
+  const label = describeJob(params);
+  const job: JobState = {
+    id: crypto.randomUUID(),
+    params,
+    surface,
+    label,
+    stage: "extracting",
+    progress: 0,
+    message: `Starting: ${label}`,
+    startedAt: Date.now(),
+  };
+  const controller = new AbortController();
+  currentController = controller;
+  publish(job);
+  return { job, controller };
+}
+
+async function startJob(params: JobParams, surface: JobSurface, port: chrome.runtime.Port) {
+  const claim = claiming.then(() => claimJob(params, surface, port));
+  claiming = claim.catch(() => undefined);
+  const claimed = await claim;
+  if (!claimed) return;
+  const { job, controller } = claimed;
+
+  try {
+    const entry = await runJob(params, {
+      signal: controller.signal,
+      report: (stage, progress, message) => updateJob(job.id, { stage, progress, message }),
+      partial: (entry) => updateJob(job.id, { partial: entry }),
+    });
+    if (controller.signal.aborted) return;
+
+    updateJob(job.id, { stage: "saving", progress: 0.9, message: "Saving to history..." });
+    await historyRepository.add(entry);
+    updateJob(job.id, { stage: "done", progress: 1, message: "Done.", result: entry });
+  } catch (err) {
+    if (controller.signal.aborted) return;
+    if (err instanceof RequestQueuedError) {
+      updateJob(job.id, { stage: "queued", progress: 1, message: err.message });
+      scheduleQueue().catch(() => undefined);
+      return;
+    }
+    const message = err instanceof Error ? err.message : "The analysis failed.";
+    updateJob(job.id, { stage: "error", progress: 1, message, error: message });
+  } finally {
+    if (currentController === controller) currentController = null;
+  }
+}
+
+function cancelJob(jobId: string) {
+  if (currentJob?.id !== jobId || !isJobRunning(currentJob)) return;
+  currentController?.abort();
+  currentController = null;
+  updateJob(jobId, { stage: "cancelled", progress: 1, message: "Cancelled." });
+}
+
+function dismissJob(jobId: string) {
+  if (currentJob?.id !== jobId || isJobRunning(currentJob)) return;
+  publish(null);
+}
+
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== JOB_PORT_NAME) return;
+
+  ports.add(port);
+  port.onDisconnect.addListener(() => ports.delete(port));
+  port.onMessage.addListener((request: JobRequest) => {
+    if (request.type === "START_JOB") void startJob(request.params, request.surface, port);
+    else if (request.type === "CANCEL_JOB") cancelJob(request.jobId);
+    else if (request.type === "DISMISS_JOB") dismissJob(request.jobId);
+  });
+
+  loadJob()
+    .then((job) => port.postMessage({ type: "JOB_SNAPSHOT", job } satisfies JobEvent))
+    .catch(() => port.postMessage({ type: "JOB_SNAPSHOT", job: null } satisfies JobEvent));
+});
+
+/** Points the queue alarm at the next due request, or clears it when nothing is waiting. */
+async function scheduleQueue() {
+  const due = (await requestQueue.list()).filter((item) => item.status === "pending");
+  if (due.length === 0) {
+    await chrome.alarms.clear(QUEUE_ALARM);
+    return;
+  }
+  const next = Math.min(...due.map((item) => item.nextAttemptAt));
+  await chrome.alarms.create(QUEUE_ALARM, { when: Math.max(next, Date.now() + 1000) });
+}
+
+let queueRun: Promise<void> | null = null;
+
+async function drainQueue(force: boolean) {
+  const now = Date.now();
+  const due = (await requestQueue.list()).filter(
+    (item) => item.status === "pending" && (force || item.nextAttemptAt <= now)
+  );
+
+  for (const item of due) {
+    await requestQueue.update(item.id, { status: "sending" });
+    try {
+      const entry = await sendQueuedRequest(item);
+      // The user may have cancelled the request while it was in flight.
+      if (!(await requestQueue.get(item.id))) continue;
+      await historyRepository.add(entry);
+      await requestQueue.remove(item.id);
+    } catch (err) {
+      const attempts = item.attempts + 1;
+      const retryable = isRetryableError(err) && attempts < MAX_ATTEMPTS;
+      await requestQueue.update(item.id, {
+        status: retryable ? "pending" : "failed",
+        attempts,
+        nextAttemptAt: Date.now() + retryDelay(attempts),
+        lastError: err instanceof Error ? err.message : "The request failed.",
+      });
+    }
+  }
+}
+
+/** Sends due queued requests one at a time; `force` ignores the backoff, e.g. when the browser comes back online. */
+function processQueue(force = false): Promise<void> {
+  queueRun ??= drainQueue(force)
+    .catch(() => undefined)
+    .then(() => scheduleQueue())
+    .catch(() => undefined)
+    .finally(() => {
+      queueRun = null;
+    });
+  return queueRun;
+}
+
+/** Points the watch alarm at the next page due for a re-scan. */
+async function scheduleWatchlist() {
+  const pages = await watchStore.list();
+  if (pages.length === 0) {
+    await chrome.alarms.clear(WATCH_ALARM);
+    return;
+  }
+  const next = Math.min(...pages.map((page) => page.nextRunAt));
+  await chrome.alarms.create(WATCH_ALARM, { when: Math.max(next, Date.now() + 1000) });
+}
+
+function notifyRegression(page: WatchedPage, alerts: string[]) {
+  chrome.notifications
+    .create(page.id, {
+      type: "basic",
+      iconUrl: chrome.runtime.getURL("Rook-Lite_logo.png"),
+      title: `Regression on ${new URL(page.url).hostname}`,
+      message: alerts.join(" "),
+    })
+    .catch(() => undefined);
+}
+
+async function runWatchedPage(page: WatchedPage) {
+  const at = Date.now();
+  try {
+    const { entry, page: content } = await scanWatchedPage(page.url, page.mode);
+    await historyRepository.add(entry);
+    const baseline = baselineFor(entry, content);
+    const alerts = page.baseline ? findRegressions(page.baseline, baseline, page.threshold) : [];
+    await watchStore.update(page.id, {
+      baseline,
+      nextRunAt: nextRunTime(page.frequency, at),
+      lastRun: {
+        at,
+        status: alerts.length ? "regressed" : "ok",
+        entryId: entry.id,
+        score: toOverallScore(entry.score),
+        alerts,
+      },
+    });
+    if (alerts.length) notifyRegression(page, alerts);
+  } catch (err) {
+    // A failed run keeps the old baseline and waits for its next slot rather than retrying in a loop.
+    await watchStore.update(page.id, {
+      nextRunAt: nextRunTime(page.frequency, at),
+      lastRun: { at, status: "failed", alerts: [], error: err instanceof Error ? err.message : "The scan failed." },
+    });
+  }
+}
+
+let watchRun: Promise<void> | null = null;
+
+/** Re-scans due watched pages one at a time, so at most one background tab is open for them. */
+function processWatchlist(): Promise<void> {
+  watchRun ??= watchStore
+    .list()
+    .then(async (pages) => {
+      const now = Date.now();
+      for (const page of pages.filter((item) => item.nextRunAt <= now)) {
+        // The page may have been unwatched while earlier ones were scanning.
+        if ((await watchStore.list()).some((item) => item.id === page.id)) await runWatchedPage(page);
+      }
+    })
+    .catch(() => undefined)
+    .then(() => scheduleWatchlist())
+    .catch(() => undefined)
+    .finally(() => {
+      watchRun = null;
+    });
+  return watchRun;
+}
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === QUEUE_ALARM) void processQueue();
+  else if (alarm.name === WATCH_ALARM) void processWatchlist();
+});
+
+chrome.runtime.onMessage.addListener((message) => {
+  if (message?.type === PROCESS_QUEUE_MESSAGE) void processQueue();
+  else if (message?.type === RUN_WATCHLIST_MESSAGE) void processWatchlist();
+});
+
+chrome.notifications.onClicked.addListener((notificationId) => {
+  watchStore
+    .list()
+    .then((pages) => {
+      const page = pages.find((item) => item.id === notificationId);
+      if (page) return chrome.tabs.create({ url: page.url });
+    })
+    .catch(() => undefined);
+  chrome.notifications.clear(notificationId).catch(() => undefined);
+});
+
+self.addEventListener("online", () => void processQueue(true));
+
+// A request left "sending" by a worker that was shut down mid-flight goes back to pending.
+requestQueue
+  .list()
+  .then((items) =>
+    Promise.all(
+      items
+        .filter((item) => item.status === "sending")
+        .map((item) => requestQueue.update(item.id, { status: "pending" }))
+    )
+  )
+  .then(() => processQueue())
+  .catch(() => undefined);
+
+processWatchlist().catch(() => undefined);
@@ -1,30 +1,469 @@
-console.log("Rook Lite content script loaded");
+import type {
+  FormField,
+  HighlightFindingsMessage,
+  HighlightResult,
+  HighlightTarget,
+  HreflangLink,
+  ImageCoverage,
+  LinkCounts,
+  PageContent,
+  PageElement,
+  PageForm,
+  PageHeading,
+  PricingSignals,
+  SocialPlatform,
+  SocialProfile,
+} from "./pageContent";
+
+declare global {
+  interface Window {
+    /** Set by the first copy of this script to run in the page. */
+    __rookLiteContent?: boolean;
+  }
+}
+
+const SOCIAL_HOSTS: Array<{ platform: SocialPlatform; hosts: string[] }> = [
+  { platform: "x", hosts: ["twitter.com", "x.com"] },
+  { platform: "linkedin", hosts: ["linkedin.com"] },
+  { platform: "instagram", hosts: ["instagram.com"] },
+  { platform: "youtube", hosts: ["youtube.com", "youtu.be"] },
+  { platform: "tiktok", hosts: ["tiktok.com"] },
+  { platform: "facebook", hosts: ["facebook.com", "fb.com"] },
+  { platform: "github", hosts: ["github.com"] },
+];
+
+const PRICE_PATTERN = /(?:[$€£¥₹]\s?\d[\d,.]*|\d[\d,.]*\s?(?:USD|EUR|GBP))(?:\s?\/\s?(?:mo|month|yr|year|user))?/gi;
+
+function cleanText(text: string | null | undefined): string {
+  return (text ?? "").replace(/\s+/g, " ").trim();
+}
+
+function metaContent(selector: string): string {
+  return document.querySelector(selector)?.getAttribute("content")?.trim() || "";
+}
+
+function collectMetaGroup(attribute: "property" | "name", prefix: string): Record<string, string> {
+  const group: Record<string, string> = {};
+  document.querySelectorAll(`meta[${attribute}^='${prefix}']`).forEach(meta => {
+    const key = meta.getAttribute(attribute)?.slice(prefix.length);
+    const content = meta.getAttribute("content")?.trim();
+    if (key && content && !(key in group)) group[key] = content;
+  });
+  return group;
+}
+
+function collectStructuredData(): { items: unknown[]; types: string[] } {
+  const items: unknown[] = [];
+  const types = new Set<string>();
+
+  const collectTypes = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(collectTypes);
+      return;
+    }
+    if (!node || typeof node !== "object") return;
+    const record = node as Record<string, unknown>;
+    const type = record["@type"];
+    if (typeof type === "string") types.add(type);
+    if (Array.isArray(type)) type.forEach(t => typeof t === "string" && types.add(t));
+    if (record["@graph"]) collectTypes(record["@graph"]);
+  };
+
+  document.querySelectorAll("script[type='application/ld+json']").forEach(script => {
+    try {
+      const parsed: unknown = JSON.parse(script.textContent || "");
+      items.push(parsed);
+      collectTypes(parsed);
+    } catch {
+      // Malformed JSON-LD is common in the wild; skip it rather than fail the scan.
+    }
+  });
+
+  return { items, types: Array.from(types) };
+}
+
+function collectHreflang(): HreflangLink[] {
+  return Array.from(document.querySelectorAll<HTMLLinkElement>("link[rel='alternate'][hreflang]"))
+    .map(link => ({ lang: link.hreflang, href: link.href }))
+    .filter(link => Boolean(link.lang && link.href));
+}
+
+function collectHeadingOutline(): PageHeading[] {
+  return Array.from(document.querySelectorAll("h1, h2, h3, h4, h5, h6"))
+    .map(h => ({ level: Number(h.tagName.slice(1)), text: cleanText(h.textContent) }))
+    .filter(h => Boolean(h.text));
+}
+
+function collectImages(): ImageCoverage {
+  const images = Array.from(document.images).filter(img => img.width > 1 || img.height > 1);
+  const missing = images.filter(img => !img.hasAttribute("alt"));
+  const empty = images.filter(img => img.hasAttribute("alt") && !img.alt.trim());
+
+  return {
+    total: images.length,
+    with_alt: images.length - missing.length - empty.length,
+    empty_alt: empty.length,
+    missing_alt: missing.length,
+    missing_alt_src: missing.map(img => img.currentSrc || img.src).filter(Boolean).slice(0, 20),
+  };
+}
+
+function collectLinks(): LinkCounts {
+  const counts: LinkCounts = { total: 0, internal: 0, external: 0, nofollow: 0 };
+
+  document.querySelectorAll<HTMLAnchorElement>("a[href]").forEach(a => {
+    if (!/^https?:/i.test(a.protocol)) return;
+    counts.total += 1;
+    if (a.hostname === location.hostname) counts.internal += 1;
+    else counts.external += 1;
+    if (a.rel.toLowerCase().split(/\s+/).includes("nofollow")) counts.nofollow += 1;
+  });
+
+  return counts;
+}
+
+function fieldLabel(field: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement): string {
+  const byFor = field.id ? document.querySelector(`label[for='${CSS.escape(field.id)}']`) : null;
+  return cleanText(
+    byFor?.textContent ||
+      field.closest("label")?.textContent ||
+      field.getAttribute("aria-label") ||
+      field.getAttribute("placeholder")
+  );
+}
+
+function collectForms(): PageForm[] {
+  return Array.from(document.forms).slice(0, 10).map(form => {
+    const fields: FormField[] = Array.from(
+      form.querySelectorAll<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>(
+        "input, select, textarea"
+      )
+    )
+      .filter(field => !["hidden", "submit", "button", "reset", "image"].includes(field.type))
+      .map(field => ({
+        type: field.type || field.tagName.toLowerCase(),
+        name: field.name,
+        label: fieldLabel(field),
+        required: field.required,
+      }));
+
+    const submit = form.querySelector<HTMLElement>(
+      "button[type='submit'], input[type='submit'], button:not([type])"
+    );
+
+    return {
+      action: form.action,
+      method: (form.getAttribute("method") || "get").toLowerCase(),
+      fields,
+      submit_text: cleanText(
+        submit instanceof HTMLInputElement ? submit.value : submit?.textContent
+      ),
+    };
+  });
+}
+
+function collectPricing(bodyText: string): PricingSignals {
+  const containers = Array.from(
+    document.querySelectorAll("[class*='pricing' i], [id*='pricing' i], [class*='price-table' i]")
+  );
+  const planNames = containers
+    .flatMap(container => Array.from(container.querySelectorAll("h2, h3, h4")))
+    .map(h => cleanText(h.textContent))
+    .filter(Boolean);
+  const prices = Array.from(new Set(bodyText.match(PRICE_PATTERN) ?? [])).slice(0, 10);
+
+  return {
+    detected: containers.length > 0 || prices.length >= 2,
+    plan_names: Array.from(new Set(planNames)).slice(0, 10),
+    prices,
+  };
+}
+
+function socialPlatform(href: string): SocialPlatform | null {
+  let host: string;
+  try {
+    host = new URL(href).hostname.replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+  const match = SOCIAL_HOSTS.find(entry =>
+    entry.hosts.some(candidate => host === candidate || host.endsWith(`.${candidate}`))
+  );
+  return match?.platform ?? null;
+}
+
+function collectSocialProfiles(): SocialProfile[] {
+  const seen = new Set<string>();
+  const profiles: SocialProfile[] = [];
+
+  document.querySelectorAll<HTMLAnchorElement>("a[href]").forEach(a => {
+    const platform = socialPlatform(a.href);
+    if (!platform || seen.has(a.href)) return;
+    seen.add(a.href);
+    profiles.push({ platform, url: a.href });
+  });
+
+  return profiles;
+}
+
+function uniqueIdSelector(element: Element): string | null {
+  if (!element.id) return null;
+  const selector = `#${CSS.escape(element.id)}`;
+  return document.querySelectorAll(selector).length === 1 ? selector : null;
+}
+
+/** Builds a selector that resolves back to `element`, anchored on the nearest unique id. */
+function selectorFor(element: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== document.body && current !== document.documentElement) {
+    const idSelector = uniqueIdSelector(current);
+    if (idSelector) {
+      parts.unshift(idSelector);
+      return parts.join(" > ");
+    }
+    const tag = current.tagName.toLowerCase();
+    const siblings: Element[] = current.parentElement ? Array.from(current.parentElement.children) : [];
+    const sameTag = siblings.filter(sibling => sibling.tagName === current?.tagName);
+    parts.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(current) + 1})` : tag);
+    current = current.parentElement;
+  }
+
+  parts.unshift("body");
+  return parts.join(" > ");
+}
+
+function collectElements(): PageElement[] {
+  const headings: PageElement[] = Array.from(document.querySelectorAll("h1, h2, h3, h4, h5, h6"))
+    .filter(h => Boolean(cleanText(h.textContent)))
+    .slice(0, 40)
+    .map(h => ({
+      kind: "heading",
+      selector: selectorFor(h),
+      text: cleanText(h.textContent),
+      level: Number(h.tagName.slice(1)),
+    }));
+
+  const ctas: PageElement[] = Array.from(document.querySelectorAll("button, a"))
+    .filter(el => Boolean(el.textContent?.trim()))
+    .slice(0, 20)
+    .map(el => ({ kind: "cta", selector: selectorFor(el), text: cleanText(el.textContent) }));
+
+  const images: PageElement[] = Array.from(document.images)
+    .filter(img => (img.width > 1 || img.height > 1) && !img.hasAttribute("alt"))
+    .slice(0, 20)
+    .map(img => ({ kind: "image", selector: selectorFor(img), text: img.currentSrc || img.src }));
+
+  const forms: PageElement[] = Array.from(document.forms)
+    .slice(0, 10)
+    .map(form => ({
+      kind: "form",
+      selector: selectorFor(form),
+      text: cleanText(form.getAttribute("aria-label") || form.getAttribute("name")),
+    }));
+
+  return [...headings, ...ctas, ...images, ...forms];
+}
+
+function extractPageContent(): PageContent {
+  const fullText = document.body.innerText;
+  const structuredData = collectStructuredData();
+  const socialProfiles = collectSocialProfiles();
 
-function extractPageContent() {
   return {
+    schema_version: 3,
+    url: location.href,
+    lang: document.documentElement.lang || "",
     title: document.title,
     meta_description:
       document.querySelector("meta[name='description']")?.getAttribute("content") || "",
+    canonical_url: document.querySelector<HTMLLinkElement>("link[rel='canonical']")?.href || "",
+    robots: metaContent("meta[name='robots']"),
+    open_graph: collectMetaGroup("property", "og:"),
+    twitter_card: collectMetaGroup("name", "twitter:"),
+    structured_data: structuredData.items,
+    structured_data_types: structuredData.types,
+    hreflang: collectHreflang(),
     headings: Array.from(document.querySelectorAll("h1, h2, h3"))
       .map(h => h.textContent?.trim())
-      .filter(Boolean),
-    body_text: document.body.innerText.slice(0, 5000),
+      .filter((text): text is string => Boolean(text)),
+    heading_outline: collectHeadingOutline(),
+    body_text: fullText.slice(0, 5000),
+    word_count: fullText.split(/\s+/).filter(Boolean).length,
     cta_texts: Array.from(document.querySelectorAll("button, a"))
       .map(el => el.textContent?.trim())
-      .filter(Boolean)
+      .filter((text): text is string => Boolean(text))
       .slice(0, 20),
-    social_links: Array.from(document.querySelectorAll("a"))
-      .map(a => a.href)
-      .filter(href =>
-        href.includes("twitter.com") ||
-        href.includes("linkedin.com") ||
-        href.includes("instagram.com")
-      )
+    images: collectImages(),
+    links: collectLinks(),
+    forms: collectForms(),
+    pricing: collectPricing(fullText),
+    social_links: socialProfiles.map(profile => profile.url),
+    social_profiles: socialProfiles,
+    elements: collectElements(),
   };
 }
 
-chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
-  if (message.type === "EXTRACT_PAGE") {
-    sendResponse(extractPageContent());
+const HIGHLIGHT_HOST_ID = "rook-lite-highlights";
+
+const HIGHLIGHT_STYLES = `
+  :host { all: initial; }
+  .box {
+    position: absolute;
+    box-sizing: border-box;
+    border: 2px solid #ff924d;
+    border-radius: 6px;
+    background: rgba(255, 146, 77, 0.12);
+    pointer-events: none;
+  }
+  .box.focus { animation: pulse 1.2s ease-out 2; }
+  .tip {
+    position: absolute;
+    left: -2px;
+    bottom: calc(100% + 6px);
+    max-width: 280px;
+    width: max-content;
+    padding: 6px 8px;
+    border-radius: 8px;
+    background: #17181d;
+    border: 1px solid #ffb57a;
+    color: #f2f2f2;
+    font: 12px/1.35 Arial, sans-serif;
+  }
+  .tip p { margin: 0; }
+  .tip p + p { margin-top: 4px; }
+  .clear {
+    position: fixed;
+    top: 12px;
+    right: 12px;
+    padding: 6px 12px;
+    border-radius: 999px;
+    border: 1px solid #ffb57a;
+    background: #17181d;
+    color: #ffd2b0;
+    font: 12px Arial, sans-serif;
+    cursor: pointer;
+  }
+  @keyframes pulse {
+    0% { box-shadow: 0 0 0 0 rgba(255, 146, 77, 0.6); }
+    100% { box-shadow: 0 0 0 14px rgba(255, 146, 77, 0); }
+  }
+`;
+
+let drawnHighlights: Array<{ element: Element; box: HTMLDivElement }> = [];
+let layoutFrame = 0;
+
+function layoutHighlights() {
+  drawnHighlights.forEach(({ element, box }) => {
+    const rect = element.getBoundingClientRect();
+    box.style.top = `${rect.top + window.scrollY - 4}px`;
+    box.style.left = `${rect.left + window.scrollX - 4}px`;
+    box.style.width = `${rect.width + 8}px`;
+    box.style.height = `${rect.height + 8}px`;
+  });
+}
+
+function scheduleLayout() {
+  cancelAnimationFrame(layoutFrame);
+  layoutFrame = requestAnimationFrame(layoutHighlights);
+}
+
+function onHighlightKeydown(event: KeyboardEvent) {
+  if (event.key === "Escape") clearHighlights();
+}
+
+function clearHighlights() {
+  document.getElementById(HIGHLIGHT_HOST_ID)?.remove();
+  drawnHighlights = [];
+  window.removeEventListener("resize", scheduleLayout);
+  window.removeEventListener("scroll", scheduleLayout, true);
+  document.removeEventListener("keydown", onHighlightKeydown);
+}
+
+function findVisibleElement(selector: string): Element | null {
+  let element: Element | null;
+  try {
+    element = document.querySelector(selector);
+  } catch {
+    return null;
   }
-});
+  if (!element) return null;
+  const rect = element.getBoundingClientRect();
+  return rect.width > 0 || rect.height > 0 ? element : null;
+}
+
+function showHighlights(targets: HighlightTarget[], focus: boolean): HighlightResult {
+  clearHighlights();
+
+  // Several findings can point at the same element; they share one overlay.
+  const labelsBySelector = new Map<string, string[]>();
+  targets.forEach(target => {
+    labelsBySelector.set(target.selector, [...(labelsBySelector.get(target.selector) ?? []), target.label]);
+  });
+
+  const host = document.createElement("div");
+  host.id = HIGHLIGHT_HOST_ID;
+  host.style.cssText = "position:absolute;top:0;left:0;width:0;height:0;z-index:2147483647;";
+  const root = host.attachShadow({ mode: "open" });
+  const style = document.createElement("style");
+  style.textContent = HIGHLIGHT_STYLES;
+  root.append(style);
+
+  let missing = 0;
+  labelsBySelector.forEach((labels, selector) => {
+    const element = findVisibleElement(selector);
+    if (!element) {
+      missing += 1;
+      return;
+    }
+    const box = document.createElement("div");
+    box.className = focus && drawnHighlights.length === 0 ? "box focus" : "box";
+    const tip = document.createElement("div");
+    tip.className = "tip";
+    labels.forEach(label => {
+      const line = document.createElement("p");
+      line.textContent = label;
+      tip.append(line);
+    });
+    box.append(tip);
+    root.append(box);
+    drawnHighlights.push({ element, box });
+  });
+
+  if (drawnHighlights.length === 0) return { shown: 0, missing };
+
+  const clear = document.createElement("button");
+  clear.type = "button";
+  clear.className = "clear";
+  clear.textContent = "Clear Rook Lite highlights";
+  clear.addEventListener("click", clearHighlights);
+  root.append(clear);
+
+  document.body.append(host);
+  layoutHighlights();
+  window.addEventListener("resize", scheduleLayout);
+  window.addEventListener("scroll", scheduleLayout, true);
+  document.addEventListener("keydown", onHighlightKeydown);
+
+  if (focus) drawnHighlights[0].element.scrollIntoView({ behavior: "smooth", block: "center" });
+  return { shown: drawnHighlights.length, missing };
+}
+
+// The extension re-injects this file into tabs that do not answer; a second copy must not add another listener.
+if (!window.__rookLiteContent) {
+  window.__rookLiteContent = true;
+  console.log("Rook Lite content script loaded");
+
+  chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+    if (message.type === "EXTRACT_PAGE") {
+      sendResponse(extractPageContent());
+    } else if (message.type === "HIGHLIGHT_FINDINGS") {
+      const { targets, focus } = message as HighlightFindingsMessage;
+      sendResponse(showHighlights(targets, focus));
+    } else if (message.type === "CLEAR_HIGHLIGHTS") {
+      clearHighlights();
+      sendResponse({ shown: 0, missing: 0 } satisfies HighlightResult);
+    }
+  });
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { mergeHistory, parseHistoryBundle } from "./historyImport";
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION } from "./reportExport";
+import { sampleEntry } from "./test/fixtures";
+
+const legacyFile = JSON.stringify([
+  { url: "https://example.com/", overview: "Home page.", score: { value: 6 } },
+  { url: "https://example.com/pricing", overview: "Pricing page.", score: { value: 8 } },
+]);
+
+describe("parseHistoryBundle", () => {
+  it("reads an archive bundle and reports invalid entries", () => {
+    const preview = parseHistoryBundle(
+      JSON.stringify({
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        items: [sampleEntry(), { id: "broken", createdAt: "yesterday" }],
+      })
+    );
+
+    expect(preview.legacy).toBe(false);
+    expect(preview.items.map((item) => item.id)).toEqual(["entry-1"]);
+    expect(preview.rejected).toEqual([{ index: 1, reason: expect.stringContaining("createdAt") }]);
+  });
+
+  it("gives legacy entries the same ids on every import", () => {
+    const first = parseHistoryBundle(legacyFile);
+    const second = parseHistoryBundle(legacyFile);
+
+    expect(first.legacy).toBe(true);
+    expect(new Set(first.items.map((item) => item.id)).size).toBe(2);
+    expect(second.items.map((item) => item.id)).toEqual(first.items.map((item) => item.id));
+  });
+
+  it("skips legacy entries that were already imported", () => {
+    const { items } = parseHistoryBundle(legacyFile);
+    const { summary } = mergeHistory(items, parseHistoryBundle(legacyFile).items, "skip");
+
+    expect(summary).toEqual({ added: 0, replaced: 0, skipped: 2 });
+  });
+
+  it("imports distinct legacy entries that have no url, timestamp or overview", () => {
+    const preview = parseHistoryBundle(
+      JSON.stringify([
+        { target_audience: "Founders", score: { value: 6 } },
+        { target_audience: "Agencies", score: { value: 8 } },
+      ])
+    );
+    const { summary } = mergeHistory([], preview.items, "skip");
+
+    expect(preview.rejected).toEqual([]);
+    expect(new Set(preview.items.map((item) => item.id)).size).toBe(2);
+    expect(summary).toEqual({ added: 2, replaced: 0, skipped: 0 });
+  });
+
+  it("rejects files that are not JSON", () => {
+    expect(() => parseHistoryBundle("not json")).toThrow("not valid JSON");
+  });
+});
@@ -0,0 +1,152 @@
+import { normalizeAnalysis } from "./api";
+import type { HistoryAnalysis, ItemMode } from "./HistoryPage";
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION } from "./reportExport";
+import { SchemaError, expectNumber, isRecord, optionalString } from "./schema";
+
+export type DuplicateStrategy = "skip" | "replace" | "keep-both";
+
+export type RejectedEntry = {
+  index: number;
+  reason: string;
+};
+
+export type ImportPreview = {
+  items: HistoryAnalysis[];
+  rejected: RejectedEntry[];
+  legacy: boolean;
+};
+
+export type ImportSummary = {
+  added: number;
+  replaced: number;
+  skipped: number;
+};
+
+const LEGACY_BUNDLE_KEYS = ["rook-lite-history", "rook-lite-history-v2"];
+const ITEM_MODES: ItemMode[] = ["scan", "compare", "create", "batch"];
+
+/** Validates a stored or imported history entry, normalising its analysis payloads. */
+export function normalizeHistoryEntry(value: unknown, path: string): HistoryAnalysis {
+  if (!isRecord(value)) throw new SchemaError(path, "an object");
+  const stored = value as Partial<HistoryAnalysis>;
+  const id = optionalString(value.id, `${path}.id`);
+  if (!id) throw new SchemaError(`${path}.id`, "a non-empty string");
+  const mode = optionalString(value.mode, `${path}.mode`);
+  if (mode !== undefined && !ITEM_MODES.includes(mode as ItemMode)) {
+    throw new SchemaError(`${path}.mode`, ITEM_MODES.join(" | "));
+  }
+
+  return {
+    ...stored,
+    ...normalizeAnalysis(value, path),
+    id,
+    createdAt: expectNumber(value.createdAt, `${path}.createdAt`),
+    url: optionalString(value.url, `${path}.url`),
+    comparison: stored.comparison && {
+      ...stored.comparison,
+      competitor: normalizeAnalysis(stored.comparison.competitor, `${path}.comparison.competitor`),
+    },
+  };
+}
+
+/** 53-bit string hash (cyrb53); enough to tell apart the entries of one history. */
+function hashString(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let index = 0; index < text.length; index += 1) {
+    const code = text.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Legacy v1 entries predate ids. Deriving one from the whole entry and its
+ * place in the file gives the same entry the same id on every import, so
+ * re-importing a file finds the entries it already added, while entries that
+ * differ in any field never share an id.
+ */
+function legacyEntryId(entry: Record<string, unknown>, index: number): string {
+  return `imported-${hashString(JSON.stringify([index, entry]))}`;
+}
+
+function readBundleItems(data: unknown): { items: unknown[]; legacy: boolean } {
+  if (Array.isArray(data)) return { items: data, legacy: true };
+  if (!isRecord(data)) throw new SchemaError("$", "an archive bundle or history array");
+
+  if (data.format === ARCHIVE_FORMAT) {
+    const version = expectNumber(data.version, "$.version");
+    if (version > ARCHIVE_VERSION) {
+      throw new Error(`This archive was exported by a newer version (v${version}). Update Rook Lite to import it.`);
+    }
+    if (!Array.isArray(data.items)) throw new SchemaError("$.items", "an array");
+    return { items: data.items, legacy: false };
+  }
+
+  const legacyKey = LEGACY_BUNDLE_KEYS.find((key) => Array.isArray(data[key]));
+  if (legacyKey) return { items: data[legacyKey] as unknown[], legacy: true };
+  throw new SchemaError("$", "an archive bundle or history array");
+}
+
+/**
+ * Parses an exported archive (or a legacy `rook-lite-history` array) into
+ * valid history entries. Invalid entries are reported rather than thrown so
+ * the rest of the bundle can still be imported.
+ */
+export function parseHistoryBundle(text: string): ImportPreview {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The selected file is not valid JSON.");
+  }
+
+  const { items: raw, legacy } = readBundleItems(data);
+  const importedAt = Date.now();
+  const items: HistoryAnalysis[] = [];
+  const rejected: RejectedEntry[] = [];
+
+  raw.forEach((entry, index) => {
+    // Legacy v1 entries predate ids and timestamps; entries without a timestamp keep the file order.
+    const candidate =
+      legacy && isRecord(entry) ? { id: legacyEntryId(entry, index), createdAt: importedAt - index, ...entry } : entry;
+    try {
+      items.push(normalizeHistoryEntry(candidate, `$.items[${index}]`));
+    } catch (err) {
+      rejected.push({ index, reason: err instanceof Error ? err.message : "Invalid entry." });
+    }
+  });
+
+  return { items, rejected, legacy };
+}
+
+/** Merges imported entries into existing history according to the duplicate strategy. */
+export function mergeHistory(
+  existing: HistoryAnalysis[],
+  incoming: HistoryAnalysis[],
+  strategy: DuplicateStrategy
+): { items: HistoryAnalysis[]; summary: ImportSummary } {
+  const byId = new Map(existing.map((item) => [item.id, item]));
+  const summary: ImportSummary = { added: 0, replaced: 0, skipped: 0 };
+
+  incoming.forEach((entry, index) => {
+    if (!byId.has(entry.id)) {
+      byId.set(entry.id, entry);
+      summary.added += 1;
+    } else if (strategy === "replace") {
+      byId.set(entry.id, entry);
+      summary.replaced += 1;
+    } else if (strategy === "keep-both") {
+      const id = `${entry.id}-copy-${Date.now()}-${index}`;
+      byId.set(id, { ...entry, id });
+      summary.added += 1;
+    } else {
+      summary.skipped += 1;
+    }
+  });
+
+  return { items: Array.from(byId.values()), summary };
+}
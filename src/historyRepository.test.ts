@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { HistoryQuotaError, createHistoryRepository } from "./historyRepository";
+import { createMemoryStorageArea } from "./storage";
+import { sampleEntry } from "./test/fixtures";
+
+const entry = (id: string, day: number) => sampleEntry({ id, createdAt: Date.UTC(2026, 0, day) });
+const ids = (items: Array<{ id: string }>) => items.map((item) => item.id);
+
+describe("createHistoryRepository", () => {
+  it("lists entries newest first", async () => {
+    const repository = createHistoryRepository(createMemoryStorageArea());
+    await repository.add(entry("old", 1));
+    await repository.add(entry("new", 3));
+    await repository.add(entry("middle", 2));
+
+    expect(ids(await repository.list())).toEqual(["new", "middle", "old"]);
+  });
+
+  it("keeps writes from two extension pages that overlap", async () => {
+    // Two repositories on one area stand in for the background worker and the popup.
+    const area = createMemoryStorageArea();
+    const worker = createHistoryRepository(area);
+    const popup = createHistoryRepository(area);
+    await worker.add(entry("a", 1));
+    await worker.add(entry("b", 2));
+
+    await Promise.all([
+      worker.add(entry("c", 3)),
+      popup.update({ ...entry("a", 1), overview: "Edited." }),
+      popup.removeMany(["b"]),
+    ]);
+
+    const items = await worker.list();
+    expect(ids(items)).toEqual(["c", "a"]);
+    expect(items[1].overview).toBe("Edited.");
+  });
+
+  it("does not bring back an entry another page deleted", async () => {
+    const area = createMemoryStorageArea();
+    const worker = createHistoryRepository(area);
+    const popup = createHistoryRepository(area);
+    await worker.add(entry("a", 1));
+    await worker.removeMany(["a"]);
+
+    await popup.update(entry("a", 1));
+
+    expect(await popup.list()).toEqual([]);
+  });
+
+  it("applies the retention limit and age", async () => {
+    const now = Date.now();
+    const repository = createHistoryRepository(createMemoryStorageArea(), async () => ({ limit: 2, maxAgeDays: 30 }));
+    await repository.add(sampleEntry({ id: "stale", createdAt: now - 40 * 24 * 60 * 60 * 1000 }));
+    await repository.add(sampleEntry({ id: "first", createdAt: now - 3 }));
+    await repository.add(sampleEntry({ id: "second", createdAt: now - 2 }));
+    await repository.add(sampleEntry({ id: "third", createdAt: now - 1 }));
+
+    expect(ids(await repository.list())).toEqual(["third", "second"]);
+  });
+
+  it("evicts the oldest entries when the storage quota is full", async () => {
+    const entrySize = JSON.stringify(entry("x", 1)).length + 20;
+    const repository = createHistoryRepository(createMemoryStorageArea({}, entrySize * 3));
+    for (let day = 1; day <= 4; day += 1) await repository.add(entry(`day-${day}`, day));
+
+    const items = ids(await repository.list());
+    expect(items[0]).toBe("day-4");
+    expect(items).not.toContain("day-1");
+  });
+
+  it("fails to save an entry larger than the quota instead of dropping it", async () => {
+    const entrySize = JSON.stringify(entry("x", 1)).length + 20;
+    const repository = createHistoryRepository(createMemoryStorageArea({}, entrySize * 3));
+    await repository.add(entry("kept", 1));
+
+    await expect(repository.add({ ...entry("huge", 2), overview: "x".repeat(entrySize * 3) })).rejects.toBeInstanceOf(
+      HistoryQuotaError
+    );
+    expect(ids(await repository.list())).not.toContain("huge");
+  });
+
+  it("imports with the chosen duplicate strategy", async () => {
+    const repository = createHistoryRepository(createMemoryStorageArea());
+    await repository.add(entry("a", 1));
+
+    const summary = await repository.importMany(
+      [{ ...entry("a", 1), overview: "Imported." }, entry("b", 2)],
+      "skip"
+    );
+
+    expect(summary).toEqual({ added: 1, replaced: 0, skipped: 1 });
+    const items = await repository.list();
+    expect(ids(items)).toEqual(["b", "a"]);
+    expect(items[1].overview).toBe("A clear pricing page.");
+  });
+
+  it("moves v3 history to one key per entry and sets unreadable entries aside", async () => {
+    const broken = { id: "broken", createdAt: "yesterday" };
+    const area = createMemoryStorageArea({
+      history: { version: 2, items: [entry("a", 1), broken] },
+    });
+    const repository = createHistoryRepository(area);
+
+    expect(ids(await repository.list())).toEqual(["a"]);
+    expect(await repository.listUnreadable()).toEqual([broken]);
+    expect(await area.get("history")).toBeUndefined();
+
+    await repository.discardUnreadable();
+    expect(await repository.listUnreadable()).toEqual([]);
+  });
+
+  it("notifies subscribers once per write with the stored entries", async () => {
+    const area = createMemoryStorageArea();
+    const repository = createHistoryRepository(area);
+    await repository.add(entry("a", 1));
+    const calls: string[][] = [];
+    const unsubscribe = repository.subscribe((items) => calls.push(ids(items)));
+
+    await repository.importMany([entry("b", 2), entry("c", 3)], "skip");
+    // Lets the subscriber finish its re-read.
+    await repository.list();
+
+    unsubscribe();
+    expect(calls).toEqual([["c", "b", "a"]]);
+  });
+
+  it("clears entries and set-aside data", async () => {
+    const repository = createHistoryRepository(
+      createMemoryStorageArea({ history: { version: 2, items: [{ id: "broken" }] } })
+    );
+    await repository.add(entry("a", 1));
+
+    await repository.clear();
+
+    expect(await repository.list()).toEqual([]);
+    expect(await repository.listUnreadable()).toEqual([]);
+  });
+});
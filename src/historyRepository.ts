@@ -0,0 +1,264 @@
+import type { HistoryAnalysis } from "./HistoryPage";
+import { mergeHistory, normalizeHistoryEntry, type DuplicateStrategy, type ImportSummary } from "./historyImport";
+import { settingsStore } from "./settings";
+import { QuotaExceededError, getDefaultStorageArea, type StorageArea } from "./storage";
+
+/** Single-key layout of schema versions up to 3. */
+const LEGACY_STORAGE_KEY = "history";
+const LEGACY_KEYS = { 1: "rook-lite-history", 2: "rook-lite-history-v2" } as const;
+const ENTRY_PREFIX = "history:";
+const UNREADABLE_KEY = "history-unreadable";
+const SCHEMA_VERSION = 4;
+
+type StoredHistory = {
+  version: number;
+  items: unknown[];
+};
+
+type HistoryListener = (items: HistoryAnalysis[]) => void;
+
+export type RetentionPolicy = {
+  /** Maximum number of entries kept; 0 keeps everything. */
+  limit: number;
+  /** Entries older than this many days are dropped; 0 disables pruning. */
+  maxAgeDays: number;
+};
+
+const KEEP_EVERYTHING: RetentionPolicy = { limit: 0, maxAgeDays: 0 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type HistoryRepository = {
+  list(): Promise<HistoryAnalysis[]>;
+  add(entry: HistoryAnalysis): Promise<void>;
+  update(entry: HistoryAnalysis): Promise<void>;
+  removeMany(ids: string[]): Promise<void>;
+  importMany(entries: HistoryAnalysis[], strategy: DuplicateStrategy): Promise<ImportSummary>;
+  clear(): Promise<void>;
+  /** Stored entries a migration could not read, kept as they were so they can be exported. */
+  listUnreadable(): Promise<unknown[]>;
+  discardUnreadable(): Promise<void>;
+  subscribe(listener: HistoryListener): () => void;
+};
+
+/** Thrown when entries being saved do not fit in storage even after older history is evicted. */
+export class HistoryQuotaError extends Error {
+  constructor() {
+    super("Not enough browser storage to save to history, even after removing the oldest entries.");
+    this.name = "HistoryQuotaError";
+  }
+}
+
+type Migrated = {
+  items: unknown[];
+  unreadable: unknown[];
+};
+
+/**
+ * `MIGRATIONS[n]` upgrades items stored at schema version `n` to `n + 1`.
+ * v1 was a bare array of analyses in popup localStorage, v2 added `id` and
+ * `createdAt`, v3 moved to chrome.storage with every entry normalised, and
+ * v4 gave every entry its own key (layout only, so it has no item migration).
+ */
+const MIGRATIONS: Record<number, (items: unknown[]) => Migrated> = {
+  1: (items) => ({
+    items: items.map((item, index) => ({
+      ...(item as object),
+      id: `migrated-${Date.now()}-${index}`,
+      createdAt: Date.now() - index,
+    })),
+    unreadable: [],
+  }),
+  2: (items) => {
+    const result: Migrated = { items: [], unreadable: [] };
+    items.forEach((item, index) => {
+      try {
+        result.items.push(normalizeHistoryEntry(item, `$[${index}]`));
+      } catch {
+        // Entries that no longer match the analysis schema are set aside, not deleted.
+        result.unreadable.push(item);
+      }
+    });
+    return result;
+  },
+};
+
+function migrate(stored: StoredHistory): { items: HistoryAnalysis[]; unreadable: unknown[] } {
+  let items = stored.items;
+  const unreadable: unknown[] = [];
+  for (let version = stored.version; version < SCHEMA_VERSION; version += 1) {
+    const step = MIGRATIONS[version]?.(items);
+    if (!step) continue;
+    items = step.items;
+    unreadable.push(...step.unreadable);
+  }
+  return { items: items as HistoryAnalysis[], unreadable };
+}
+
+function readLegacyHistory(): StoredHistory | null {
+  if (typeof localStorage === "undefined") return null;
+  for (const version of [2, 1] as const) {
+    const raw = localStorage.getItem(LEGACY_KEYS[version]);
+    if (!raw) continue;
+    try {
+      const items: unknown = JSON.parse(raw);
+      if (Array.isArray(items)) return { version, items };
+    } catch {
+      // Corrupt legacy data is ignored; the next legacy key may still be usable.
+    }
+  }
+  return null;
+}
+
+function clearLegacyHistory() {
+  if (typeof localStorage === "undefined") return;
+  Object.values(LEGACY_KEYS).forEach((key) => localStorage.removeItem(key));
+}
+
+function applyRetention(items: HistoryAnalysis[], policy: RetentionPolicy): HistoryAnalysis[] {
+  const cutoff = policy.maxAgeDays > 0 ? Date.now() - policy.maxAgeDays * DAY_MS : -Infinity;
+  const fresh = items.filter((item) => item.createdAt >= cutoff);
+  return policy.limit > 0 ? fresh.slice(0, policy.limit) : fresh;
+}
+
+const entryKey = (id: string) => `${ENTRY_PREFIX}${id}`;
+
+const newestFirst = (items: HistoryAnalysis[]) => [...items].sort((a, b) => b.createdAt - a.createdAt);
+
+/**
+ * Every entry lives under its own `history:<id>` key. The popup, the side
+ * panel and the background worker all write history, and a write only ever
+ * touches the keys of the entries it changes, so one context cannot overwrite
+ * an entry another context saved in the meantime.
+ */
+export function createHistoryRepository(
+  area: StorageArea,
+  getRetention: () => Promise<RetentionPolicy> = async () => KEEP_EVERYTHING
+): HistoryRepository {
+  let pending: Promise<unknown> = Promise.resolve();
+  let migration: Promise<void> | null = null;
+
+  // Keeps this context's operations in call order.
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = pending.then(task, task);
+    pending = run.catch(() => undefined);
+    return run;
+  };
+
+  const readEntries = async (): Promise<HistoryAnalysis[]> => {
+    const stored = await area.getAll();
+    return newestFirst(
+      Object.entries(stored)
+        .filter(([key]) => key.startsWith(ENTRY_PREFIX))
+        .map(([, value]) => value as HistoryAnalysis)
+    );
+  };
+
+  const removeEntries = (items: HistoryAnalysis[]) =>
+    items.length > 0 ? area.removeMany(items.map((item) => entryKey(item.id))) : Promise.resolve();
+
+  const saveEntries = async (entries: HistoryAnalysis[]) => {
+    if (entries.length === 0) return;
+    const writing = new Set(entries.map((entry) => entry.id));
+    for (;;) {
+      try {
+        await area.setMany(Object.fromEntries(entries.map((entry) => [entryKey(entry.id), entry])));
+        return;
+      } catch (err) {
+        if (!(err instanceof QuotaExceededError)) throw err;
+        // Evict the stored part of the oldest tenth (at least one entry) of stored and new entries together,
+        // then try again. New entries are never dropped: once only they are left to evict, the save fails.
+        const all = newestFirst([...(await readEntries()).filter((item) => !writing.has(item.id)), ...entries]);
+        const stale = all.slice(all.length - Math.max(1, Math.ceil(all.length / 10)));
+        const evicted = stale.filter((item) => !writing.has(item.id));
+        if (evicted.length === 0) throw new HistoryQuotaError();
+        await removeEntries(evicted);
+      }
+    }
+  };
+
+  const prune = async () => {
+    const items = await readEntries();
+    const kept = applyRetention(items, await getRetention());
+    if (kept.length !== items.length) {
+      const keptIds = new Set(kept.map((item) => item.id));
+      await removeEntries(items.filter((item) => !keptIds.has(item.id)));
+    }
+    return kept;
+  };
+
+  const migrateLegacy = async () => {
+    const source = (await area.get<StoredHistory>(LEGACY_STORAGE_KEY)) ?? readLegacyHistory();
+    if (!source) return;
+    const { items, unreadable } = migrate(source);
+    if (unreadable.length > 0) {
+      const previous = (await area.get<unknown[]>(UNREADABLE_KEY)) ?? [];
+      await area.set(UNREADABLE_KEY, [...previous, ...unreadable]);
+    }
+    await saveEntries(items);
+    await area.remove(LEGACY_STORAGE_KEY);
+    clearLegacyHistory();
+  };
+
+  /** Runs every operation after the one-time move off older layouts; a failed move is retried next time. */
+  const migrated = <T>(task: () => Promise<T>): Promise<T> =>
+    enqueue(async () => {
+      migration ??= migrateLegacy().catch((err: unknown) => {
+        migration = null;
+        throw err;
+      });
+      await migration;
+      return task();
+    });
+
+  return {
+    // Age-based pruning also has to happen when nothing new is written.
+    list: () => migrated(prune),
+    add: (entry) =>
+      migrated(async () => {
+        await saveEntries([entry]);
+        await prune();
+      }),
+    update: (entry) =>
+      migrated(async () => {
+        // An entry deleted elsewhere in the meantime stays deleted.
+        if (await area.get(entryKey(entry.id))) await saveEntries([entry]);
+      }),
+    removeMany: (ids) => migrated(() => area.removeMany(ids.map(entryKey))),
+    importMany: (entries, strategy) =>
+      migrated(async () => {
+        const existing = await readEntries();
+        const { items, summary } = mergeHistory(existing, entries, strategy);
+        const unchanged = new Set(existing);
+        await saveEntries(items.filter((item) => !unchanged.has(item)));
+        await prune();
+        return summary;
+      }),
+    clear: () =>
+      migrated(async () => {
+        await removeEntries(await readEntries());
+        await area.remove(UNREADABLE_KEY);
+      }),
+    listUnreadable: () => migrated(async () => (await area.get<unknown[]>(UNREADABLE_KEY)) ?? []),
+    discardUnreadable: () => migrated(() => area.remove(UNREADABLE_KEY)),
+    subscribe(listener) {
+      // One write can change many keys; they are re-read once, in order of the changes.
+      let scheduled = false;
+      let reads: Promise<void> = Promise.resolve();
+      return area.subscribe((key) => {
+        if (!key.startsWith(ENTRY_PREFIX) || scheduled) return;
+        scheduled = true;
+        reads = reads
+          .then(async () => {
+            scheduled = false;
+            listener(await readEntries());
+          })
+          .catch(() => undefined);
+      });
+    },
+  };
+}
+
+export const historyRepository = createHistoryRepository(getDefaultStorageArea(), async () => {
+  const settings = await settingsStore.get();
+  return { limit: settings.historyLimit, maxAgeDays: settings.autoPruneDays };
+});
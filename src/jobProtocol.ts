@@ -0,0 +1,48 @@
+import type { HistoryAnalysis } from "./HistoryPage";
+
+export const JOB_PORT_NAME = "rook-lite-jobs";
+
+/** The extension pages that start jobs. */
+export type JobSurface = "popup" | "side-panel";
+
+export type JobStage = "extracting" | "analyzing" | "saving" | "done" | "queued" | "error" | "cancelled";
+
+export type JobParams =
+  | { kind: "scan"; mode: string; tabId: number }
+  | { kind: "compare"; mode: string; primaryUrl: string; competitorUrl: string }
+  | { kind: "create"; option: string; tabId: number }
+  | { kind: "batch"; mode: string; urls: string[] };
+
+export type JobState = {
+  id: string;
+  params: JobParams;
+  /** Where the job was started; only that page dismisses it once it settles. */
+  surface: JobSurface;
+  label: string;
+  stage: JobStage;
+  progress: number;
+  message: string;
+  startedAt: number;
+  /** The analysis received so far while a scan streams in. */
+  partial?: HistoryAnalysis;
+  result?: HistoryAnalysis;
+  error?: string;
+};
+
+export type JobRequest =
+  | { type: "START_JOB"; params: JobParams; surface: JobSurface }
+  | { type: "CANCEL_JOB"; jobId: string }
+  | { type: "DISMISS_JOB"; jobId: string };
+
+export type JobEvent =
+  | { type: "JOB_SNAPSHOT"; job: JobState | null }
+  | { type: "JOB_REJECTED"; message: string };
+
+export function isJobRunning(job: JobState | null): boolean {
+  return Boolean(job && (job.stage === "extracting" || job.stage === "analyzing" || job.stage === "saving"));
+}
+
+/** The tab a job reads from, for jobs that run against an open tab rather than URLs. */
+export function jobTabId(params: JobParams): number | undefined {
+  return params.kind === "scan" || params.kind === "create" ? params.tabId : undefined;
+}
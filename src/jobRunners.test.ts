@@ -0,0 +1,39 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { sendQueuedRequest } from "./jobRunners";
+import { outgoingPayload, payloadUrl, type QueuedRequest } from "./requestQueue";
+import { DEFAULT_SETTINGS, settingsStore } from "./settings";
+import { samplePage } from "./test/fixtures";
+import { startMockServer, type MockServer } from "./test/mockServer";
+
+let server: MockServer;
+
+beforeAll(async () => {
+  server = await startMockServer();
+  server.on("POST", "/analyze", { body: { overview: "A clear pricing page.", overallScore: 7.5 } });
+  await settingsStore.save({ ...DEFAULT_SETTINGS, apiBaseUrl: server.url, apiKey: "test-key" });
+});
+
+afterAll(() => server.close());
+
+describe("sendQueuedRequest", () => {
+  it("files the replayed scan under the unredacted page address", async () => {
+    const url = "https://example.com/pricing?email=jane@example.com";
+    const payload = { kind: "scan" as const, request: { mode: "Marketing Audit", url, page: samplePage() } };
+    const item: QueuedRequest = {
+      id: "queued-1",
+      createdAt: 1,
+      label: "Marketing Audit",
+      status: "sending",
+      attempts: 1,
+      nextAttemptAt: 1,
+      url: payloadUrl(payload),
+      payload: await outgoingPayload(payload),
+    };
+
+    const entry = await sendQueuedRequest(item);
+
+    expect(payloadUrl(item.payload)).not.toContain("jane@example.com");
+    expect(JSON.parse(server.requests[0].body).url).not.toContain("jane@example.com");
+    expect(entry).toMatchObject({ id: "queued-1", url, mode: "scan" });
+  });
+});
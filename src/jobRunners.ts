@@ -0,0 +1,330 @@
+import {
+  ApiError,
+  StreamError,
+  requestCompare,
+  requestCreate,
+  requestScan,
+  requestScanStream,
+  type AnalysisResult,
+  type CompareRequest,
+  type CompareResult,
+  type CreateRequest,
+  type CreateResult,
+  type ScanRequest,
+} from "./api";
+import type { HistoryAnalysis } from "./HistoryPage";
+import { historyRepository } from "./historyRepository";
+import type { JobParams, JobStage } from "./jobProtocol";
+import type { PageContent } from "./pageContent";
+import {
+  isRetryableError,
+  outgoingPayload,
+  payloadUrl,
+  requestQueue,
+  retryDelay,
+  type QueuedPayload,
+  type QueuedRequest,
+} from "./requestQueue";
+import { applyRubric, findCustomScanMode, pickPageFields } from "./scanModes";
+import { toOverallScore } from "./scoring";
+import { runSeoAudit } from "./seoAudit";
+import { isDomainBlocked, settingsStore } from "./settings";
+import { buildSiteReport, siteUrl, type BatchPageResult } from "./siteReport";
+import { extractPage, extractPageForUrl, extractUrl } from "./tabs";
+
+export type JobContext = {
+  signal: AbortSignal;
+  report: (stage: JobStage, progress: number, message: string) => void;
+  /** Publishes the part of the result that has arrived so far. */
+  partial: (entry: HistoryAnalysis) => void;
+};
+
+function throwIfAborted(signal: AbortSignal) {
+  if (signal.aborted) throw new DOMException("The job was cancelled.", "AbortError");
+}
+
+async function assertScanAllowed(...urls: string[]) {
+  const { blockedDomains } = await settingsStore.get();
+  const blocked = urls.find((url) => isDomainBlocked(url, blockedDomains));
+  if (blocked) throw new Error(`Scanning is disabled for ${new URL(blocked).hostname} in Settings.`);
+}
+
+async function latestAnalysisFor(url: string): Promise<AnalysisResult | undefined> {
+  const history = await historyRepository.list();
+  return history.find((item) => item.url === url && !item.assets && !item.batch);
+}
+
+/** Thrown when the backend could not be reached and the request was queued for a later retry. */
+export class RequestQueuedError extends Error {
+  constructor(label: string) {
+    super(`The backend is unreachable, so "${label}" was queued. It will retry automatically.`);
+    this.name = "RequestQueuedError";
+  }
+}
+
+type EntryBase = Pick<HistoryAnalysis, "id" | "createdAt">;
+
+function newEntryBase(): EntryBase {
+  return { id: crypto.randomUUID(), createdAt: Date.now() };
+}
+
+function scanEntry(
+  base: EntryBase,
+  request: ScanRequest,
+  result: AnalysisResult,
+  source: HistoryAnalysis["source"],
+  seoBaseline?: AnalysisResult,
+  batchId?: string
+): HistoryAnalysis {
+  return {
+    ...(request.custom_mode ? applyRubric(result, request.custom_mode.rubric) : result),
+    ...base,
+    url: request.url,
+    mode: "scan",
+    scan_mode: request.mode,
+    source,
+    seo_baseline: source === "ai" ? seoBaseline : undefined,
+    batch_id: batchId,
+  };
+}
+
+function compareEntry(base: EntryBase, request: CompareRequest, result: CompareResult): HistoryAnalysis {
+  return {
+    ...result.primary,
+    ...base,
+    url: request.primary.url,
+    mode: "compare",
+    comparison: {
+      competitor_url: request.competitor.url,
+      competitor: result.competitor,
+      summary: result.summary,
+    },
+  };
+}
+
+function createEntry(base: EntryBase, request: CreateRequest, assets: CreateResult): HistoryAnalysis {
+  return {
+    asset_type: request.option,
+    overview: assets.summary,
+    conversion_scores: {},
+    pricing_analysis: {},
+    insights: {},
+    sections: [],
+    verdicts: {},
+    ...base,
+    url: request.url,
+    mode: "create",
+    assets,
+  };
+}
+
+/** Builds the request for `mode`, sending only the page content a custom mode asks for. */
+async function scanRequestFor(mode: string, url: string, page: PageContent): Promise<ScanRequest> {
+  const custom = await findCustomScanMode(mode);
+  if (!custom) return { mode, url, page };
+  return {
+    mode,
+    url,
+    page: pickPageFields(page, custom.fields),
+    custom_mode: { instructions: custom.instructions, rubric: custom.rubric },
+  };
+}
+
+async function queueRequest(base: EntryBase, label: string, payload: QueuedPayload, err: unknown): Promise<never> {
+  await requestQueue.add({
+    ...base,
+    label,
+    status: "pending",
+    attempts: 1,
+    nextAttemptAt: Date.now() + retryDelay(1),
+    lastError: err instanceof Error ? err.message : undefined,
+    url: payloadUrl(payload),
+    payload: await outgoingPayload(payload),
+  });
+  throw new RequestQueuedError(label);
+}
+
+async function runScan(params: Extract<JobParams, { kind: "scan" }>, ctx: JobContext): Promise<HistoryAnalysis> {
+  const { mode } = params;
+  ctx.report("extracting", 0.15, `Reading page: ${mode}`);
+  const tab = await chrome.tabs.get(params.tabId);
+  await assertScanAllowed(tab.url ?? "");
+  const page = await extractPage(tab);
+  throwIfAborted(ctx.signal);
+
+  ctx.report("analyzing", 0.45, `Analyzing: ${mode}`);
+  const request = await scanRequestFor(mode, tab.url ?? "", page);
+  const localAudit = mode === "SEO Audit" ? runSeoAudit(page) : undefined;
+  const base = newEntryBase();
+
+  try {
+    const result = await requestScanStream(
+      request,
+      (partial) => ctx.partial(scanEntry(base, request, partial, "ai", localAudit)),
+      ctx.signal
+    );
+    return scanEntry(base, request, result, "ai", localAudit);
+  } catch (err) {
+    // Keep whatever streamed in before the connection broke rather than losing it.
+    if (err instanceof StreamError && err.partial) {
+      return { ...scanEntry(base, request, err.partial, "ai", localAudit), incomplete: true };
+    }
+    if (localAudit && err instanceof ApiError) return scanEntry(base, request, localAudit, "local");
+    if (isRetryableError(err)) return queueRequest(base, mode, { kind: "scan", request }, err);
+    throw err;
+  }
+}
+
+async function runCompare(
+  params: Extract<JobParams, { kind: "compare" }>,
+  ctx: JobContext
+): Promise<HistoryAnalysis> {
+  await assertScanAllowed(params.primaryUrl, params.competitorUrl);
+  ctx.report("extracting", 0.15, `Reading pages: ${new URL(params.competitorUrl).hostname}`);
+  const [primary, competitor] = await Promise.all([
+    extractPageForUrl(params.primaryUrl),
+    extractUrl(params.competitorUrl),
+  ]);
+  throwIfAborted(ctx.signal);
+
+  ctx.report("analyzing", 0.45, "Comparing pages...");
+  const request: CompareRequest = {
+    mode: params.mode,
+    primary: { url: params.primaryUrl, page: primary },
+    competitor: { url: params.competitorUrl, page: competitor },
+  };
+  const base = newEntryBase();
+
+  try {
+    return compareEntry(base, request, await requestCompare(request, ctx.signal));
+  } catch (err) {
+    if (isRetryableError(err)) return queueRequest(base, describeJob(params), { kind: "compare", request }, err);
+    throw err;
+  }
+}
+
+async function runCreate(
+  params: Extract<JobParams, { kind: "create" }>,
+  ctx: JobContext
+): Promise<HistoryAnalysis> {
+  const { option } = params;
+  ctx.report("extracting", 0.15, `Reading page: ${option}`);
+  const tab = await chrome.tabs.get(params.tabId);
+  await assertScanAllowed(tab.url ?? "");
+  const page = await extractPage(tab);
+  throwIfAborted(ctx.signal);
+
+  ctx.report("analyzing", 0.45, `Generating: ${option}`);
+  const url = tab.url ?? "";
+  const request: CreateRequest = { option, url, page, analysis: await latestAnalysisFor(url) };
+  const base = newEntryBase();
+
+  try {
+    return createEntry(base, request, await requestCreate(request, ctx.signal));
+  } catch (err) {
+    if (isRetryableError(err)) return queueRequest(base, option, { kind: "create", request }, err);
+    throw err;
+  }
+}
+
+/** Pages loaded and scanned at once during a batch; more would flood the browser with background tabs. */
+const BATCH_CONCURRENCY = 3;
+
+/** Scans `url` in a background tab; the extracted page is returned too for callers that compare it. */
+async function scanPageAt(
+  url: string,
+  mode: string,
+  signal: AbortSignal,
+  batchId?: string
+): Promise<{ entry: HistoryAnalysis; page: PageContent }> {
+  await assertScanAllowed(url);
+  const page = await extractUrl(url);
+  throwIfAborted(signal);
+
+  const request = await scanRequestFor(mode, url, page);
+  const localAudit = mode === "SEO Audit" ? runSeoAudit(page) : undefined;
+  const base = newEntryBase();
+  try {
+    return { entry: scanEntry(base, request, await requestScan(request, signal), "ai", localAudit, batchId), page };
+  } catch (err) {
+    if (localAudit && err instanceof ApiError) {
+      return { entry: scanEntry(base, request, localAudit, "local", undefined, batchId), page };
+    }
+    throw err;
+  }
+}
+
+async function runBatch(params: Extract<JobParams, { kind: "batch" }>, ctx: JobContext): Promise<HistoryAnalysis> {
+  const { mode, urls } = params;
+  const base = newEntryBase();
+  const pages: BatchPageResult[] = urls.map((url) => ({ url }));
+  const entries: HistoryAnalysis[] = [];
+  let next = 0;
+  let finished = 0;
+
+  ctx.report("analyzing", 0.05, `Scanning 0 of ${urls.length} pages`);
+
+  // Each worker takes the next unscanned URL until the list runs out, so at most
+  // BATCH_CONCURRENCY pages are open at once. A failed page is recorded, not fatal.
+  const worker = async () => {
+    while (next < urls.length) {
+      throwIfAborted(ctx.signal);
+      const index = next++;
+      try {
+        const { entry } = await scanPageAt(urls[index], mode, ctx.signal, base.id);
+        await historyRepository.add(entry);
+        entries.push(entry);
+        pages[index] = { url: urls[index], entry_id: entry.id, score: toOverallScore(entry.score) };
+      } catch (err) {
+        throwIfAborted(ctx.signal);
+        pages[index] = { url: urls[index], error: err instanceof Error ? err.message : "Scan failed." };
+      }
+      finished += 1;
+      ctx.report("analyzing", 0.05 + (finished / urls.length) * 0.9, `Scanned ${finished} of ${urls.length} pages`);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, urls.length) }, worker));
+
+  if (!entries.length) throw new Error("None of the pages could be scanned.");
+  return { ...buildSiteReport(mode, pages, entries), ...base, url: siteUrl(urls), mode: "batch" };
+}
+
+export function describeJob(params: JobParams): string {
+  if (params.kind === "scan") return params.mode;
+  if (params.kind === "create") return params.option;
+  if (params.kind === "batch") return `Site scan (${params.urls.length} pages)`;
+  return "Competitor Comparison";
+}
+
+export function runJob(params: JobParams, ctx: JobContext): Promise<HistoryAnalysis> {
+  if (params.kind === "scan") return runScan(params, ctx);
+  if (params.kind === "compare") return runCompare(params, ctx);
+  if (params.kind === "batch") return runBatch(params, ctx);
+  return runCreate(params, ctx);
+}
+
+/** A scheduled re-scan of a watched page; it runs outside the job system, so nothing can cancel it. */
+export function scanWatchedPage(url: string, mode: string): Promise<{ entry: HistoryAnalysis; page: PageContent }> {
+  return scanPageAt(url, mode, new AbortController().signal);
+}
+
+async function replayQueuedRequest(item: QueuedRequest): Promise<HistoryAnalysis> {
+  const base = { id: item.id, createdAt: item.createdAt };
+  const { payload } = item;
+  if (payload.kind === "scan") {
+    return scanEntry(base, payload.request, await requestScan(payload.request), "ai");
+  }
+  if (payload.kind === "compare") {
+    return compareEntry(base, payload.request, await requestCompare(payload.request));
+  }
+  return createEntry(base, payload.request, await requestCreate(payload.request));
+}
+
+/**
+ * Sends a queued request and turns the response into the history entry it
+ * stands for, filed under the page's unredacted address.
+ */
+export async function sendQueuedRequest(item: QueuedRequest): Promise<HistoryAnalysis> {
+  const entry = await replayQueuedRequest(item);
+  return item.url ? { ...entry, url: item.url } : entry;
+}
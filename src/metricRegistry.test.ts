@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { inferScale, scaleMetrics } from "./metricRegistry";
+
+describe("scaleMetrics", () => {
+  it("reads the core metrics on their registered 0-100 scale whatever their values", () => {
+    expect(scaleMetrics({ clarity: 8, trust: 1, cta_strength: 0 })).toEqual([
+      { key: "clarity", value: 8 },
+      { key: "trust", value: 1 },
+      { key: "cta_strength", value: 0 },
+    ]);
+  });
+
+  it("infers the scale of unregistered metrics from their values alone", () => {
+    expect(scaleMetrics({ clarity: 90, proof: 0.5, offer: 0.8 })).toEqual([
+      { key: "clarity", value: 90 },
+      { key: "proof", value: 50 },
+      { key: "offer", value: 80 },
+    ]);
+  });
+});
+
+describe("inferScale", () => {
+  it.each([
+    [[0.2, 1], 1],
+    [[0, 1], 10],
+    [[3, 10], 10],
+    [[12, 4], 100],
+    [[], 100],
+  ])("reads %j as 0-%i", (values, scale) => {
+    expect(inferScale(values)).toBe(scale);
+  });
+});
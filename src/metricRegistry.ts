@@ -0,0 +1,161 @@
+import { clampScore, toTitleCase } from "./scoring";
+
+/** The top of the range a backend reports a metric on: 0-1, 0-10 or 0-100. */
+export type MetricScale = 1 | 10 | 100;
+export type MetricBand = "poor" | "fair" | "good";
+
+export type MetricDefinition = {
+  label: string;
+  /** Shown as the tooltip on the metric's bar. */
+  description: string;
+  /** Position among registered metrics; keys the registry does not know come last. */
+  order: number;
+  /** Fixed scale for the metric; when absent it is inferred from the analysis it appears in. */
+  scale?: MetricScale;
+  /** Lower bounds, on the 0-100 display scale, of the fair and good bands. */
+  thresholds: { fair: number; good: number };
+};
+
+export type InsightDefinition = {
+  label: string;
+  description: string;
+  order: number;
+};
+
+const DEFAULT_THRESHOLDS = { fair: 50, good: 75 };
+
+/**
+ * Metrics the frontend knows how to present. Anything else the backend sends
+ * still renders, with a title-cased label and the default bands.
+ */
+export const METRIC_REGISTRY: Record<string, MetricDefinition> = {
+  clarity: {
+    label: "Clarity",
+    description: "How quickly a visitor understands what is offered and for whom.",
+    order: 1,
+    scale: 100,
+    thresholds: DEFAULT_THRESHOLDS,
+  },
+  trust: {
+    label: "Trust",
+    description: "Proof that the offer is credible: testimonials, logos, guarantees and security cues.",
+    order: 2,
+    scale: 100,
+    thresholds: DEFAULT_THRESHOLDS,
+  },
+  urgency: {
+    label: "Urgency",
+    description: "Reasons to act now rather than later, such as deadlines, scarcity or momentum.",
+    order: 3,
+    scale: 100,
+    thresholds: { fair: 40, good: 70 },
+  },
+  differentiation: {
+    label: "Differentiation",
+    description: "How clearly the page sets the offer apart from alternatives.",
+    order: 4,
+    scale: 100,
+    thresholds: DEFAULT_THRESHOLDS,
+  },
+  cta_strength: {
+    label: "CTA Strength",
+    description: "Visibility, wording and placement of the primary calls to action.",
+    order: 5,
+    scale: 100,
+    thresholds: DEFAULT_THRESHOLDS,
+  },
+  metadata: {
+    label: "Metadata",
+    description: "Title, meta description, canonical URL and language tags.",
+    order: 6,
+    scale: 100,
+    thresholds: { fair: 60, good: 85 },
+  },
+  content_structure: {
+    label: "Content Structure",
+    description: "Heading hierarchy and enough body copy for search engines to understand the page.",
+    order: 7,
+    scale: 100,
+    thresholds: { fair: 60, good: 85 },
+  },
+  accessibility: {
+    label: "Accessibility",
+    description: "Image alt text and labelled form fields.",
+    order: 8,
+    scale: 100,
+    thresholds: { fair: 60, good: 85 },
+  },
+  indexability: {
+    label: "Indexability",
+    description: "Whether robots directives and canonical tags let the page be indexed.",
+    order: 9,
+    scale: 100,
+    thresholds: { fair: 60, good: 85 },
+  },
+  social_sharing: {
+    label: "Social Sharing",
+    description: "Open Graph and Twitter card tags that control how shared links look.",
+    order: 10,
+    scale: 100,
+    thresholds: { fair: 60, good: 85 },
+  },
+};
+
+export const INSIGHT_REGISTRY: Record<string, InsightDefinition> = {
+  messaging_issues: { label: "Messaging Issues", description: "Copy that confuses or undersells the offer.", order: 1 },
+  funnel_gaps: { label: "Funnel Gaps", description: "Places where visitors are likely to drop off.", order: 2 },
+  tone_fit: { label: "Tone Fit", description: "How well the voice suits the target audience.", order: 3 },
+  seo_improvements: { label: "SEO Improvements", description: "Changes that help search visibility.", order: 4 },
+  quick_fixes: { label: "Quick Fixes", description: "Small changes with an outsized effect.", order: 5 },
+  common_issues: { label: "Common Issues", description: "Issues reported on several pages of a site.", order: 6 },
+};
+
+export function describeMetric(key: string): MetricDefinition {
+  return (
+    METRIC_REGISTRY[key] ?? {
+      label: toTitleCase(key),
+      description: "",
+      order: Infinity,
+      thresholds: DEFAULT_THRESHOLDS,
+    }
+  );
+}
+
+export function describeInsight(key: string): InsightDefinition {
+  return INSIGHT_REGISTRY[key] ?? { label: toTitleCase(key), description: "", order: Infinity };
+}
+
+/** Registered keys in registry order, then the rest in the order they were given. */
+export function orderKeys(keys: string[], describe: (key: string) => { order: number }): string[] {
+  return keys
+    .map((key, index) => ({ key, index, order: describe(key).order }))
+    .sort((a, b) => a.order - b.order || a.index - b.index)
+    .map((entry) => entry.key);
+}
+
+/**
+ * Guesses the scale of an analysis's metrics from their values: fractions no
+ * larger than 1 mean 0-1, values up to 10 mean 0-10, anything larger 0-100.
+ */
+export function inferScale(values: number[]): MetricScale {
+  if (values.length === 0) return 100;
+  if (values.every((value) => value <= 1) && values.some((value) => value > 0 && value < 1)) return 1;
+  if (values.every((value) => value <= 10)) return 10;
+  return 100;
+}
+
+export function metricBand(value: number, definition: MetricDefinition): MetricBand {
+  if (value >= definition.thresholds.good) return "good";
+  if (value >= definition.thresholds.fair) return "fair";
+  return "poor";
+}
+
+/** Every numeric metric in `scores`, ordered by the registry and converted to the 0-100 display scale. */
+export function scaleMetrics(scores: Record<string, number>): Array<{ key: string; value: number }> {
+  const keys = Object.keys(scores).filter((key) => typeof scores[key] === "number");
+  const inferred = inferScale(keys.filter((key) => !describeMetric(key).scale).map((key) => scores[key]));
+  return orderKeys(keys, describeMetric).map((key) => {
+    const scale = describeMetric(key).scale ?? inferred;
+    return { key, value: clampScore((scores[key] * 100) / scale) };
+  });
+}
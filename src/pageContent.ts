@@ -0,0 +1,131 @@
+export type SocialPlatform =
+  | "x"
+  | "linkedin"
+  | "instagram"
+  | "youtube"
+  | "tiktok"
+  | "facebook"
+  | "github";
+
+export type PageHeading = {
+  level: number;
+  text: string;
+};
+
+export type HreflangLink = {
+  lang: string;
+  href: string;
+};
+
+export type ImageCoverage = {
+  total: number;
+  with_alt: number;
+  empty_alt: number;
+  missing_alt: number;
+  missing_alt_src: string[];
+};
+
+export type LinkCounts = {
+  total: number;
+  internal: number;
+  external: number;
+  nofollow: number;
+};
+
+export type FormField = {
+  type: string;
+  name: string;
+  label: string;
+  required: boolean;
+};
+
+export type PageForm = {
+  action: string;
+  method: string;
+  fields: FormField[];
+  submit_text: string;
+};
+
+export type PricingSignals = {
+  detected: boolean;
+  plan_names: string[];
+  prices: string[];
+};
+
+export type SocialProfile = {
+  platform: SocialPlatform;
+  url: string;
+};
+
+export type PageElementKind = "heading" | "cta" | "image" | "form";
+
+/**
+ * An element the content script located during extraction. Findings refer
+ * back to it by `selector` so the popup can highlight it on the live page.
+ */
+export type PageElement = {
+  kind: PageElementKind;
+  selector: string;
+  text: string;
+  /** Heading level for `heading` elements. */
+  level?: number;
+};
+
+/**
+ * Payload returned by the content script for `EXTRACT_PAGE`. Bump
+ * `schema_version` whenever a field changes meaning so the backend can branch
+ * on it; `headings`, `cta_texts` and `social_links` keep their v1 shape.
+ */
+export type PageContent = {
+  schema_version: 3;
+  url: string;
+  lang: string;
+  title: string;
+  meta_description: string;
+  canonical_url: string;
+  robots: string;
+  open_graph: Record<string, string>;
+  twitter_card: Record<string, string>;
+  structured_data: unknown[];
+  structured_data_types: string[];
+  hreflang: HreflangLink[];
+  headings: string[];
+  heading_outline: PageHeading[];
+  body_text: string;
+  word_count: number;
+  cta_texts: string[];
+  images: ImageCoverage;
+  links: LinkCounts;
+  forms: PageForm[];
+  pricing: PricingSignals;
+  social_links: string[];
+  social_profiles: SocialProfile[];
+  elements: PageElement[];
+};
+
+export const PAGE_CONTENT_VERSION: PageContent["schema_version"] = 3;
+
+export type ExtractPageMessage = {
+  type: "EXTRACT_PAGE";
+};
+
+export type HighlightTarget = {
+  selector: string;
+  label: string;
+};
+
+/** Draws overlays around `targets`; with `focus`, the first one is scrolled into view. */
+export type HighlightFindingsMessage = {
+  type: "HIGHLIGHT_FINDINGS";
+  targets: HighlightTarget[];
+  focus: boolean;
+};
+
+export type ClearHighlightsMessage = {
+  type: "CLEAR_HIGHLIGHTS";
+};
+
+export type HighlightResult = {
+  shown: number;
+  missing: number;
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_REDACTION, redactPage, redactUrl } from "./redaction";
+import { samplePage } from "./test/fixtures";
+
+describe("redactUrl", () => {
+  it("masks personal data and credentials in the query string", () => {
+    const url = "https://example.com/welcome?email=jane%40example.com&access_token=abc123&plan=pro";
+
+    const redacted = new URL(redactUrl(url, DEFAULT_REDACTION));
+
+    expect(redacted.pathname).toBe("/welcome");
+    expect(redacted.searchParams.get("email")).toBe("[EMAIL]");
+    expect(redacted.searchParams.get("access_token")).toBe("[TOKEN]");
+    expect(redacted.searchParams.get("plan")).toBe("pro");
+  });
+
+  it("masks tokens passed in the fragment", () => {
+    const redacted = redactUrl("https://example.com/callback#id_token=xyz&state=1", DEFAULT_REDACTION);
+
+    expect(redacted).toBe("https://example.com/callback#id_token=%5BTOKEN%5D&state=1");
+  });
+
+  it("leaves clean addresses and disabled redaction untouched", () => {
+    const url = "https://example.com/pricing?utm_source=news+letter";
+
+    expect(redactUrl(url, DEFAULT_REDACTION)).toBe(url);
+    expect(redactUrl("https://example.com/?token=abc", { ...DEFAULT_REDACTION, enabled: false })).toBe(
+      "https://example.com/?token=abc"
+    );
+  });
+});
+
+describe("redactPage", () => {
+  it("redacts URL fields of the page and counts what it masked", () => {
+    const { page, counts } = redactPage(
+      samplePage({ canonical_url: "https://example.com/pricing?ref=jane@example.com&session_id=42" }),
+      DEFAULT_REDACTION
+    );
+
+    expect(page.canonical_url).toBe("https://example.com/pricing?ref=%5BEMAIL%5D&session_id=%5BTOKEN%5D");
+    expect(page.body_text).toContain("[EMAIL]");
+    expect(counts).toEqual({ email: 2, "URL credentials": 1 });
+  });
+});
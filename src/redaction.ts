@@ -0,0 +1,255 @@
+import type { PageContent } from "./pageContent";
+
+export type BuiltInRedaction = "email" | "phone" | "card" | "iban" | "address";
+
+export type CustomRedactionRule = {
+  id: string;
+  label: string;
+  pattern: string;
+  /** Extra RegExp flags; `g` is always added. */
+  flags?: string;
+};
+
+export type RedactionSettings = {
+  enabled: boolean;
+  kinds: Record<BuiltInRedaction, boolean>;
+  customRules: CustomRedactionRule[];
+};
+
+/** Redaction counts keyed by built-in kind or custom rule label. */
+export type RedactionCounts = Record<string, number>;
+
+export type RedactionResult = {
+  page: PageContent;
+  counts: RedactionCounts;
+  total: number;
+};
+
+type Rule = {
+  key: string;
+  mask: string;
+  pattern: RegExp;
+  accept?: (match: string) => boolean;
+};
+
+export const REDACTION_LABELS: Record<BuiltInRedaction, string> = {
+  email: "Email addresses",
+  phone: "Phone numbers",
+  card: "Card numbers",
+  iban: "IBANs",
+  address: "Street addresses",
+};
+
+export const DEFAULT_REDACTION: RedactionSettings = {
+  enabled: true,
+  kinds: { email: true, phone: true, card: true, iban: true, address: true },
+  customRules: [],
+};
+
+const STREET_SUFFIXES =
+  "Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy|Square|Sq|Highway|Hwy|Straße|Strasse|Str";
+
+// Fields holding selectors, language codes, crawler directives or public links rather than page copy.
+const SKIPPED_KEYS = new Set([
+  "schema_version",
+  "lang",
+  "robots",
+  "hreflang",
+  "social_links",
+  "social_profiles",
+  "missing_alt_src",
+  "action",
+  "selector",
+]);
+
+/** URL fields: only their query string and fragment are redacted, so the address itself stays usable. */
+const URL_KEYS = new Set(["url", "canonical_url", "href"]);
+
+/** Query parameters that carry credentials whatever their value looks like. */
+const CREDENTIAL_PARAM =
+  /^(?:.*[_-])?(?:token|key|apikey|secret|password|passwd|auth|session|sessionid|sid|sig|signature|code|jwt)(?:[_-].*)?$/i;
+const CREDENTIAL_MASK = "[TOKEN]";
+const CREDENTIAL_COUNT_KEY = "URL credentials";
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, "");
+}
+
+function passesLuhn(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function isValidIban(value: string): boolean {
+  const compact = value.replace(/\s/g, "").toUpperCase();
+  if (compact.length < 15 || compact.length > 34) return false;
+  const rearranged = `${compact.slice(4)}${compact.slice(0, 4)}`;
+  let remainder = 0;
+  for (const char of rearranged) {
+    const chunk = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of chunk) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+const DATE_LIKE = /^(?:\d{4}[./-]\d{1,2}[./-]\d{1,2}|\d{1,2}[./-]\d{1,2}[./-]\d{2,4})$/;
+
+/**
+ * Digit runs only count as phone numbers when written the way phones are:
+ * an international prefix, a trunk `0`, brackets or dash/dot separators.
+ * This keeps years, SKUs and dates in body copy intact.
+ */
+function isPhoneLike(match: string): boolean {
+  const count = digitsOf(match).length;
+  if (count < 8 || count > 15 || DATE_LIKE.test(match)) return false;
+  return /^(?:\+|00|0|\()/.test(match) || /[().-]/.test(match);
+}
+
+// Order matters: cards and IBANs are masked before the looser phone pattern can claim their digits.
+const BUILT_IN_RULES: Array<Rule & { key: BuiltInRedaction }> = [
+  {
+    key: "email",
+    mask: "[EMAIL]",
+    pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  },
+  {
+    key: "card",
+    mask: "[CARD]",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    accept: passesLuhn,
+  },
+  {
+    key: "iban",
+    mask: "[IBAN]",
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    accept: isValidIban,
+  },
+  {
+    key: "phone",
+    mask: "[PHONE]",
+    pattern: /(?<![\w/])(?:\+|00)?\(?\d[\d ().-]{6,}\d(?![\w/])/g,
+    accept: isPhoneLike,
+  },
+  {
+    key: "address",
+    mask: "[ADDRESS]",
+    pattern: new RegExp(
+      `\\b\\d{1,5}[A-Za-z]?\\s+(?:[A-Z][\\p{L}'.-]*\\s+){1,4}(?:${STREET_SUFFIXES})\\b\\.?`,
+      "gu"
+    ),
+  },
+];
+
+export function compileCustomRule(rule: CustomRedactionRule): RegExp {
+  const flags = Array.from(new Set(`${rule.flags ?? ""}g`.split(""))).join("");
+  return new RegExp(rule.pattern, flags);
+}
+
+function activeRules(settings: RedactionSettings): Rule[] {
+  const builtIn = BUILT_IN_RULES.filter((rule) => settings.kinds[rule.key]);
+  const custom = settings.customRules.flatMap((rule) => {
+    try {
+      const pattern = compileCustomRule(rule);
+      return [{ key: rule.label || rule.pattern, mask: `[${(rule.label || "REDACTED").toUpperCase()}]`, pattern }];
+    } catch {
+      // Invalid patterns are rejected when settings are saved; skip anything that slipped through.
+      return [];
+    }
+  });
+  return [...builtIn, ...custom];
+}
+
+function redactText(text: string, rules: Rule[], counts: RedactionCounts): string {
+  return rules.reduce(
+    (current, rule) =>
+      current.replace(rule.pattern, (match) => {
+        if (!match || (rule.accept && !rule.accept(match))) return match;
+        counts[rule.key] = (counts[rule.key] ?? 0) + 1;
+        return rule.mask;
+      }),
+    text
+  );
+}
+
+function redactParam(name: string, value: string, rules: Rule[], counts: RedactionCounts): string {
+  if (!value || !CREDENTIAL_PARAM.test(name)) return redactText(value, rules, counts);
+  counts[CREDENTIAL_COUNT_KEY] = (counts[CREDENTIAL_COUNT_KEY] ?? 0) + 1;
+  return CREDENTIAL_MASK;
+}
+
+/** Redacts every parameter value in place; returns whether anything was masked. */
+function redactParams(params: URLSearchParams, rules: Rule[], counts: RedactionCounts): boolean {
+  const entries = Array.from(params.entries());
+  const masked = entries.map(([name, value]) => [name, redactParam(name, value, rules, counts)]);
+  if (masked.every(([, value], index) => value === entries[index][1])) return false;
+  // Rebuilt in full so repeated parameter names keep their order.
+  new Set(params.keys()).forEach((name) => params.delete(name));
+  masked.forEach(([name, value]) => params.append(name, value));
+  return true;
+}
+
+/**
+ * Masks personal data and credentials in the query string and fragment of
+ * `value`. Strings that are not absolute URLs are left as they are.
+ */
+function redactUrlText(value: string, rules: Rule[], counts: RedactionCounts): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return value;
+  }
+  let changed = redactParams(url.searchParams, rules, counts);
+  const fragment = url.hash.slice(1);
+  if (fragment.includes("=")) {
+    const params = new URLSearchParams(fragment);
+    if (redactParams(params, rules, counts)) {
+      url.hash = params.toString();
+      changed = true;
+    }
+  }
+  return changed ? url.toString() : value;
+}
+
+function redactValue(value: unknown, rules: Rule[], counts: RedactionCounts, key?: string): unknown {
+  if (typeof value === "string") {
+    return key && URL_KEYS.has(key) ? redactUrlText(value, rules, counts) : redactText(value, rules, counts);
+  }
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, rules, counts));
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SKIPPED_KEYS.has(key) ? item : redactValue(item, rules, counts, key),
+      ])
+    );
+  }
+  return value;
+}
+
+/** Masks personal data in every free-text field of an extracted page. */
+export function redactPage(page: PageContent, settings: RedactionSettings): RedactionResult {
+  const counts: RedactionCounts = {};
+  if (!settings.enabled) return { page, counts, total: 0 };
+
+  const rules = activeRules(settings);
+  const redacted = redactValue(page, rules, counts) as PageContent;
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  return { page: redacted, counts, total };
+}
+
+/** Masks personal data and credentials in the query string and fragment of a page address. */
+export function redactUrl(url: string, settings: RedactionSettings): string {
+  if (!settings.enabled) return url;
+  return redactUrlText(url, activeRules(settings), {});
+}
@@ -0,0 +1,311 @@
+import { extractInsights, extractMetrics, extractStats, getAnalysisName, getItemMode } from "./analysisModel";
+import type { CreateResult } from "./api";
+import type { HistoryAnalysis } from "./HistoryPage";
+import { toOverallScore } from "./scoring";
+import { taskStore } from "./tasks";
+import { findingRows, toJiraCsv, toLinearCsv } from "./trackerExport";
+import { sendToWebhook } from "./webhook";
+
+export type ExportFormat = "markdown" | "json" | "pdf" | "jira" | "linear" | "webhook";
+
+export const ARCHIVE_FORMAT = "rook-lite-archive";
+export const ARCHIVE_VERSION = 1;
+
+export type ArchiveBundle = {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exported_at: string;
+  items: HistoryAnalysis[];
+};
+
+const PENDING_REPORT_KEY = "pendingReport";
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function modeLabel(item: HistoryAnalysis): string {
+  const mode = getItemMode(item);
+  const label = mode.charAt(0).toUpperCase() + mode.slice(1);
+  return item.scan_mode ? `${label} · ${item.scan_mode}` : label;
+}
+
+function escapeCell(value: string | number): string {
+  return String(value).replace(/\|/g, "\\|").replace(/\n+/g, " ");
+}
+
+function markdownTable(headers: [string, string], rows: Array<[string, string | number]>): string[] {
+  return [
+    `| ${headers[0]} | ${headers[1]} |`,
+    "| --- | --- |",
+    ...rows.map(([key, value]) => `| ${escapeCell(key)} | ${escapeCell(value)} |`),
+  ];
+}
+
+function assetsToMarkdown(assets: CreateResult): string[] {
+  const lines: string[] = [];
+  if (assets.posts.length) {
+    lines.push("## Social Posts", "");
+    assets.posts.forEach((post) => lines.push(`**${post.platform}**`, "", post.text, ""));
+  }
+  if (assets.ads.length) {
+    lines.push("## Ad Variants", "");
+    assets.ads.forEach((ad, index) => lines.push(`${index + 1}. **${ad.headline}** — ${ad.description}`));
+    lines.push("");
+  }
+  if (assets.emails.length) {
+    lines.push("## Email Sequence", "");
+    assets.emails.forEach((email, index) =>
+      lines.push(`### Email ${index + 1}: ${email.subject}`, "", email.body, "")
+    );
+  }
+  if (assets.pieces.length) {
+    lines.push("## Repurposed Content", "");
+    assets.pieces.forEach((piece) =>
+      lines.push(`### ${piece.format}${piece.title ? `: ${piece.title}` : ""}`, "", piece.body, "")
+    );
+  }
+  return lines;
+}
+
+function entryToMarkdown(item: HistoryAnalysis): string {
+  const lines = [`# ${getAnalysisName(item)}`, ""];
+  if (item.url) lines.push(`- **URL:** ${item.url}`);
+  lines.push(`- **Mode:** ${modeLabel(item)}`, `- **Date:** ${formatDate(item.createdAt)}`);
+  if (!item.assets) lines.push(`- **Overall score:** ${toOverallScore(item.score)}/100`);
+  lines.push("");
+
+  if (item.overview) lines.push("## Executive Summary", "", item.overview, "");
+
+  const metrics = extractMetrics(item);
+  if (metrics.length) {
+    lines.push("## Conversion Metrics", "", ...markdownTable(["Metric", "Score"], metrics.map((m) => [m.label, m.value])), "");
+  }
+
+  const stats = extractStats(item);
+  if (stats.length) {
+    lines.push("## Analysis Stats", "", ...markdownTable(["Stat", "Value"], stats.map((s) => [s.key, s.value])), "");
+  }
+
+  extractInsights(item).forEach((section) => {
+    lines.push(`## ${section.title}`, "", ...section.items.map((insight) => `- ${insight}`), "");
+  });
+
+  if (item.verdicts.marketing || item.verdicts.strategic) {
+    lines.push("## Verdicts", "");
+    if (item.verdicts.marketing) lines.push("### Marketing Verdict", "", item.verdicts.marketing, "");
+    if (item.verdicts.strategic) lines.push("### Strategic Verdict", "", item.verdicts.strategic, "");
+  }
+
+  if (item.comparison) {
+    const competitor = item.comparison.competitor;
+    lines.push(
+      "## Competitor",
+      "",
+      `- **URL:** ${item.comparison.competitor_url}`,
+      `- **Overall score:** ${toOverallScore(competitor.score)}/100`,
+      ""
+    );
+    if (item.comparison.summary) lines.push(item.comparison.summary, "");
+  }
+
+  if (item.assets) lines.push(...assetsToMarkdown(item.assets));
+
+  return lines.join("\n").trimEnd();
+}
+
+export function toMarkdown(items: HistoryAnalysis[]): string {
+  return `${items.map(entryToMarkdown).join("\n\n---\n\n")}\n`;
+}
+
+export function toJson(items: HistoryAnalysis[]): string {
+  const bundle: ArchiveBundle = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    items,
+  };
+  return JSON.stringify(bundle, null, 2);
+}
+
+function escapeHtml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function scoreRingSvg(score: number): string {
+  const circumference = 2 * Math.PI * 32;
+  const offset = circumference - (score / 100) * circumference;
+  return `<svg class="ring" viewBox="0 0 80 80" width="96" height="96">
+  <circle cx="40" cy="40" r="32" fill="none" stroke="#e6e7eb" stroke-width="7" />
+  <circle cx="40" cy="40" r="32" fill="none" stroke="#ff924d" stroke-width="7" stroke-linecap="round"
+    stroke-dasharray="${circumference.toFixed(2)}" stroke-dashoffset="${offset.toFixed(2)}" transform="rotate(-90 40 40)" />
+  <text x="40" y="44" text-anchor="middle" font-size="18" font-weight="700" fill="#16171b">${score}</text>
+</svg>`;
+}
+
+function metricBarsSvg(metrics: Array<{ label: string; value: number }>): string {
+  const rowHeight = 28;
+  const rows = metrics
+    .map((metric, index) => {
+      const y = index * rowHeight;
+      return `<text x="0" y="${y + 11}" font-size="11" fill="#33363d">${escapeHtml(metric.label)}</text>
+  <text x="400" y="${y + 11}" font-size="11" text-anchor="end" fill="#33363d">${metric.value}</text>
+  <rect x="0" y="${y + 16}" width="400" height="7" rx="3.5" fill="#e6e7eb" />
+  <rect x="0" y="${y + 16}" width="${metric.value * 4}" height="7" rx="3.5" fill="#ff924d" />`;
+    })
+    .join("\n  ");
+  return `<svg class="bars" viewBox="0 0 400 ${metrics.length * rowHeight}" width="100%">
+  ${rows}
+</svg>`;
+}
+
+function entryToHtml(item: HistoryAnalysis): string {
+  const parts: string[] = [];
+  const meta = [item.url, modeLabel(item), formatDate(item.createdAt)]
+    .filter((value): value is string => Boolean(value))
+    .map(escapeHtml);
+
+  parts.push(`<header><h1>${escapeHtml(getAnalysisName(item))}</h1><p class="meta">${meta.join(" · ")}</p></header>`);
+
+  if (!item.assets) {
+    parts.push(`<section class="summary">${scoreRingSvg(toOverallScore(item.score))}
+  <div><h2>Executive Summary</h2><p>${escapeHtml(item.overview ?? "No overview was provided in this analysis.")}</p></div>
+</section>`);
+  }
+
+  const metrics = extractMetrics(item);
+  if (metrics.length) parts.push(`<section><h2>Conversion Metrics</h2>${metricBarsSvg(metrics)}</section>`);
+
+  const stats = extractStats(item);
+  if (stats.length) {
+    const rows = stats.map((s) => `<tr><th>${escapeHtml(s.key)}</th><td>${escapeHtml(s.value)}</td></tr>`);
+    parts.push(`<section><h2>Analysis Stats</h2><table>${rows.join("")}</table></section>`);
+  }
+
+  extractInsights(item).forEach((section) => {
+    const list = section.items.map((insight) => `<li>${escapeHtml(insight)}</li>`).join("");
+    parts.push(`<section><h2>${escapeHtml(section.title)}</h2><ul>${list}</ul></section>`);
+  });
+
+  const { marketing, strategic } = item.verdicts;
+  if (marketing || strategic) {
+    parts.push(`<section class="verdicts"><h2>Verdicts</h2>${
+      marketing ? `<h3>Marketing Verdict</h3><p>${escapeHtml(marketing)}</p>` : ""
+    }${strategic ? `<h3>Strategic Verdict</h3><p>${escapeHtml(strategic)}</p>` : ""}</section>`);
+  }
+
+  if (item.comparison) {
+    const competitor = item.comparison.competitor;
+    parts.push(`<section class="summary">${scoreRingSvg(toOverallScore(competitor.score))}
+  <div><h2>Competitor</h2><p class="meta">${escapeHtml(item.comparison.competitor_url)}</p><p>${escapeHtml(
+      item.comparison.summary ?? competitor.overview ?? ""
+    )}</p></div>
+</section>`);
+  }
+
+  if (item.assets) {
+    const markdown = assetsToMarkdown(item.assets).join("\n");
+    parts.push(`<section><pre>${escapeHtml(markdown)}</pre></section>`);
+  }
+
+  return `<article>${parts.join("\n")}</article>`;
+}
+
+export function toHtmlReport(items: HistoryAnalysis[]): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>Rook Lite Report</title>
+<style>
+  body { margin: 0; padding: 32px; font-family: Arial, sans-serif; color: #16171b; background: #fff; }
+  article { max-width: 720px; margin: 0 auto; page-break-after: always; }
+  article:last-child { page-break-after: auto; }
+  header h1 { margin: 0; font-size: 24px; }
+  .meta { margin: 4px 0 0; font-size: 12px; color: #6b6f78; word-break: break-all; }
+  section { margin-top: 20px; page-break-inside: avoid; }
+  h2 { margin: 0 0 8px; font-size: 16px; }
+  h3 { margin: 10px 0 4px; font-size: 13px; color: #b85a1f; }
+  p, li, td, th { font-size: 13px; line-height: 1.45; }
+  .summary { display: flex; gap: 16px; align-items: center; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #e6e7eb; }
+  pre { white-space: pre-wrap; font-family: inherit; font-size: 13px; }
+</style>
+</head>
+<body>
+${items.map(entryToHtml).join("\n")}
+</body>
+</html>
+`;
+}
+
+function slugify(input: string): string {
+  return input
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+}
+
+export function exportFileName(items: HistoryAnalysis[], extension: string): string {
+  const date = new Date().toISOString().slice(0, 10);
+  const base =
+    items.length === 1 ? slugify(getAnalysisName(items[0])) || "analysis" : `archive-${items.length}-items`;
+  return `rook-lite-${base}-${date}.${extension}`;
+}
+
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Opens the print-ready report in its own tab. The popup closes as soon as it
+ * loses focus, so the HTML is handed over through session storage and the
+ * report page prints itself.
+ */
+async function openPrintableReport(items: HistoryAnalysis[]) {
+  await chrome.storage.session.set({ [PENDING_REPORT_KEY]: toHtmlReport(items) });
+  await chrome.tabs.create({ url: chrome.runtime.getURL("report.html") });
+}
+
+export async function takePendingReport(): Promise<string | null> {
+  const stored = await chrome.storage.session.get(PENDING_REPORT_KEY);
+  await chrome.storage.session.remove(PENDING_REPORT_KEY);
+  const html = stored[PENDING_REPORT_KEY];
+  return typeof html === "string" ? html : null;
+}
+
+/** Returns a confirmation for formats whose result is not a visible download or tab. */
+export async function exportItems(items: HistoryAnalysis[], format: ExportFormat): Promise<string | undefined> {
+  if (format === "markdown") {
+    downloadFile(exportFileName(items, "md"), toMarkdown(items), "text/markdown");
+  } else if (format === "json") {
+    downloadFile(exportFileName(items, "json"), toJson(items), "application/json");
+  } else if (format === "jira" || format === "linear") {
+    const rows = findingRows(items, await taskStore.list());
+    const csv = format === "jira" ? toJiraCsv(rows) : toLinearCsv(rows);
+    downloadFile(exportFileName(items, `${format}.csv`), csv, "text/csv");
+  } else if (format === "webhook") {
+    await sendToWebhook(items);
+    return `Sent ${items.length} ${items.length === 1 ? "analysis" : "analyses"} to the webhook.`;
+  } else {
+    await openPrintableReport(items);
+  }
+  return undefined;
+}
@@ -0,0 +1,17 @@
+import { takePendingReport } from "./reportExport";
+
+async function renderReport() {
+  const html = await takePendingReport();
+  if (!html) {
+    document.body.textContent = "This report is no longer available. Export it again from Rook Lite.";
+    return;
+  }
+
+  const parsed = new DOMParser().parseFromString(html, "text/html");
+  document.title = parsed.title;
+  document.head.replaceChildren(...Array.from(parsed.head.childNodes));
+  document.body.replaceChildren(...Array.from(parsed.body.childNodes));
+  window.print();
+}
+
+void renderReport();
@@ -0,0 +1,120 @@
+import {
+  ApiError,
+  StreamError,
+  withOutgoingPage,
+  type CompareRequest,
+  type CreateRequest,
+  type ScanRequest,
+} from "./api";
+import { createListStore, getDefaultStorageArea, type StorageArea } from "./storage";
+
+const STORAGE_KEY = "requestQueue";
+export const QUEUE_ALARM = "rook-lite-queue";
+export const PROCESS_QUEUE_MESSAGE = "PROCESS_QUEUE";
+
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 60 * 60 * 1000;
+/** After this many automatic attempts a request waits for a manual retry. */
+export const MAX_ATTEMPTS = 8;
+
+/**
+ * The backend request exactly as it would have been sent, page content
+ * included, with the content policy and redaction already applied.
+ */
+export type QueuedPayload =
+  | { kind: "scan"; request: ScanRequest }
+  | { kind: "compare"; request: CompareRequest }
+  | { kind: "create"; request: CreateRequest };
+
+export type QueueStatus = "pending" | "sending" | "failed";
+
+export type QueuedRequest = {
+  /** Reused as the history entry id once the request goes through. */
+  id: string;
+  createdAt: number;
+  label: string;
+  status: QueueStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  /**
+   * The page address before redaction, kept in local storage only so the
+   * entry a replay saves is filed under the same page as live scans.
+   */
+  url?: string;
+  payload: QueuedPayload;
+};
+
+type QueueListener = (items: QueuedRequest[]) => void;
+
+export type RequestQueue = {
+  list(): Promise<QueuedRequest[]>;
+  get(id: string): Promise<QueuedRequest | undefined>;
+  add(item: QueuedRequest): Promise<void>;
+  update(id: string, patch: Partial<QueuedRequest>): Promise<void>;
+  remove(id: string): Promise<void>;
+  subscribe(listener: QueueListener): () => void;
+};
+
+/** The address of the page a payload is about; for comparisons, the user's own page. */
+export function payloadUrl(payload: QueuedPayload): string {
+  return payload.kind === "compare" ? payload.request.primary.url : payload.request.url;
+}
+
+/** Prepares `payload` the way it would leave the browser, so the queue never stores unredacted pages. */
+export async function outgoingPayload(payload: QueuedPayload): Promise<QueuedPayload> {
+  if (payload.kind === "compare") {
+    const { request } = payload;
+    return {
+      kind: "compare",
+      request: {
+        ...request,
+        primary: await withOutgoingPage(request.primary),
+        competitor: await withOutgoingPage(request.competitor),
+      },
+    };
+  }
+  if (payload.kind === "scan") return { kind: "scan", request: await withOutgoingPage(payload.request) };
+  return { kind: "create", request: await withOutgoingPage(payload.request) };
+}
+
+/** Delay before attempt `attempts + 1`: 30s, 1m, 2m, ... capped at an hour. */
+export function retryDelay(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_DELAY_MS);
+}
+
+/**
+ * Network failures, rate limits, server errors and streams that broke before
+ * anything arrived are worth retrying; other 4xx responses will not change.
+ */
+export function isRetryableError(err: unknown): boolean {
+  if (err instanceof DOMException && err.name === "AbortError") return false;
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return true;
+  if (err instanceof StreamError) return !err.partial;
+  if (!(err instanceof ApiError)) return false;
+  return err.status === undefined || err.status === 429 || err.status >= 500;
+}
+
+export function createRequestQueue(area: StorageArea): RequestQueue {
+  const store = createListStore<QueuedRequest>(area, STORAGE_KEY);
+
+  return {
+    list: store.list,
+    get: async (id) => (await store.list()).find((item) => item.id === id),
+    add: (item) => store.change((items) => [...items, item]),
+    update: (id, patch) =>
+      store.change((items) => items.map((item) => (item.id === id ? { ...item, ...patch } : item))),
+    remove: (id) => store.change((items) => items.filter((item) => item.id !== id)),
+    subscribe: store.subscribe,
+  };
+}
+
+export const requestQueue = createRequestQueue(getDefaultStorageArea());
+
+/** Makes a queued request due now, with a fresh backoff, and wakes the background worker. */
+export async function retryQueuedRequest(id: string): Promise<void> {
+  await requestQueue.update(id, { status: "pending", attempts: 0, nextAttemptAt: Date.now(), lastError: undefined });
+  if (typeof chrome !== "undefined" && chrome.runtime?.sendMessage) {
+    await chrome.runtime.sendMessage({ type: PROCESS_QUEUE_MESSAGE }).catch(() => undefined);
+  }
+}
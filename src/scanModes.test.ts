@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { applyRubric, pickPageFields } from "./scanModes";
+import { toOverallScore } from "./scoring";
+import { sampleEntry, samplePage } from "./test/fixtures";
+
+describe("pickPageFields", () => {
+  it("blanks left-out groups and the text of their located elements", () => {
+    const page = pickPageFields(samplePage(), ["metadata", "ctas"]);
+
+    expect(page.title).toBe("Pricing | Example");
+    expect(page.heading_outline).toEqual([]);
+    expect(page.body_text).toBe("");
+    expect(page.cta_texts).toEqual(["Start free trial"]);
+    expect(page.elements).toEqual([
+      { kind: "heading", selector: "h1", text: "", level: 1 },
+      { kind: "cta", selector: "a.cta", text: "Start free trial" },
+    ]);
+  });
+});
+
+describe("applyRubric", () => {
+  const rubric = [
+    { key: "proof", label: "Proof", weight: 2 },
+    { key: "offer", label: "Offer", weight: 1 },
+  ];
+
+  it.each([
+    ["0-1", { proof: 0.9, offer: 0.6 }],
+    ["0-10", { proof: 9, offer: 6 }],
+    ["0-100", { proof: 90, offer: 60 }],
+  ])("scores metrics reported on a %s scale the same way", (_scale, scores) => {
+    const result = applyRubric(sampleEntry({ score: undefined, conversion_scores: scores }), rubric);
+
+    expect(toOverallScore(result.score)).toBe(80);
+  });
+
+  it("keeps a score the backend reported", () => {
+    const result = applyRubric(sampleEntry({ score: { value: 4 } }), rubric);
+
+    expect(result.score).toEqual({ value: 4 });
+  });
+
+  it("reads a rubric label that matches a core metric on the scale of the rest of the rubric", () => {
+    const mixed = [
+      { key: "clarity", label: "Clarity", weight: 1 },
+      { key: "proof", label: "Proof", weight: 1 },
+    ];
+
+    const result = applyRubric(sampleEntry({ score: undefined, conversion_scores: { clarity: 8, proof: 9 } }), mixed);
+
+    expect(result.conversion_scores).toEqual({ clarity: 80, proof: 90 });
+    expect(toOverallScore(result.score)).toBe(85);
+  });
+});
@@ -0,0 +1,303 @@
+import type { AnalysisResult } from "./api";
+import { inferScale } from "./metricRegistry";
+import type { PageContent, PageElementKind } from "./pageContent";
+import { SchemaError, arrayOf, expectNumber, expectRecord, expectString, isRecord } from "./schema";
+import { clampScore } from "./scoring";
+import { createListStore, getDefaultStorageArea, type StorageArea } from "./storage";
+
+export const SCAN_MODES = [
+  "Full Page Scan",
+  "SEO Audit",
+  "Messaging Audit",
+  "Funnel Audit",
+  "Tone & Persona Check",
+] as const;
+
+export type ScanMode = (typeof SCAN_MODES)[number];
+
+export type ExtractionField =
+  | "metadata"
+  | "headings"
+  | "body_text"
+  | "ctas"
+  | "forms"
+  | "images"
+  | "links"
+  | "pricing"
+  | "social"
+  | "structured_data";
+
+/**
+ * Page content a custom mode can choose to send. Each group lists the values
+ * that stand in for its fields when the group is left out, so the payload
+ * keeps the `PageContent` shape the backend expects, and the kind of located
+ * `elements` whose text repeats its content.
+ */
+export const EXTRACTION_FIELDS: Array<{
+  key: ExtractionField;
+  label: string;
+  blank: Partial<PageContent>;
+  element?: PageElementKind;
+}> = [
+  {
+    key: "metadata",
+    label: "Title & meta tags",
+    blank: { title: "", meta_description: "", canonical_url: "", robots: "", lang: "" },
+  },
+  { key: "headings", label: "Headings", blank: { headings: [], heading_outline: [] }, element: "heading" },
+  { key: "body_text", label: "Body text", blank: { body_text: "", word_count: 0 } },
+  { key: "ctas", label: "Calls to action", blank: { cta_texts: [] }, element: "cta" },
+  { key: "forms", label: "Forms", blank: { forms: [] }, element: "form" },
+  {
+    key: "images",
+    label: "Image alt coverage",
+    blank: { images: { total: 0, with_alt: 0, empty_alt: 0, missing_alt: 0, missing_alt_src: [] } },
+    element: "image",
+  },
+  { key: "links", label: "Link counts", blank: { links: { total: 0, internal: 0, external: 0, nofollow: 0 } } },
+  { key: "pricing", label: "Pricing signals", blank: { pricing: { detected: false, plan_names: [], prices: [] } } },
+  {
+    key: "social",
+    label: "Social & Open Graph",
+    blank: { open_graph: {}, twitter_card: {}, social_links: [], social_profiles: [] },
+  },
+  {
+    key: "structured_data",
+    label: "Structured data",
+    blank: { structured_data: [], structured_data_types: [], hreflang: [] },
+  },
+];
+
+const FIELD_KEYS = EXTRACTION_FIELDS.map((field) => field.key);
+
+export type RubricMetric = {
+  /** Key the backend reports the metric under in `conversion_scores`. */
+  key: string;
+  label: string;
+  /** Relative weight in the overall score; weights need not add up to anything. */
+  weight: number;
+};
+
+export type CustomScanMode = {
+  id: string;
+  name: string;
+  instructions: string;
+  fields: ExtractionField[];
+  rubric: RubricMetric[];
+};
+
+/** What the backend receives for a custom mode alongside the mode name. */
+export type CustomModeSpec = Pick<CustomScanMode, "instructions" | "rubric">;
+
+const STORAGE_KEY = "customScanModes";
+export const SCAN_MODE_EXPORT_FORMAT = "rook-lite-scan-modes";
+const SCAN_MODE_EXPORT_VERSION = 1;
+const MAX_WEIGHT = 100;
+
+/** `"Trial CTA Visibility"` becomes `trial_cta_visibility`. */
+export function metricKey(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+export function validateScanMode(mode: CustomScanMode, others: CustomScanMode[]): string | undefined {
+  const name = mode.name.trim();
+  if (!name) return "Give the scan mode a name.";
+  const lower = name.toLowerCase();
+  if (SCAN_MODES.some((builtIn) => builtIn.toLowerCase() === lower)) return `"${name}" is a built-in scan mode.`;
+  if (others.some((other) => other.id !== mode.id && other.name.trim().toLowerCase() === lower)) {
+    return `There is already a scan mode called "${name}".`;
+  }
+  if (!mode.instructions.trim()) return "Describe what the scan should look for.";
+  if (mode.fields.length === 0) return "Choose at least one part of the page to send.";
+  if (mode.fields.some((field) => !FIELD_KEYS.includes(field))) return "Unknown page field selected.";
+  if (mode.rubric.length === 0) return "Add at least one rubric metric.";
+
+  const keys = new Set<string>();
+  for (const metric of mode.rubric) {
+    if (!metric.key) return "Every rubric metric needs a name.";
+    if (keys.has(metric.key)) return `"${metric.label}" appears twice in the rubric.`;
+    keys.add(metric.key);
+    if (!Number.isFinite(metric.weight) || metric.weight <= 0 || metric.weight > MAX_WEIGHT) {
+      return `The weight of "${metric.label}" must be between 0 and ${MAX_WEIGHT}.`;
+    }
+  }
+  return undefined;
+}
+
+/** Trims text and derives metric keys from their labels. */
+export function normalizeScanMode(mode: CustomScanMode): CustomScanMode {
+  return {
+    ...mode,
+    name: mode.name.trim(),
+    instructions: mode.instructions.trim(),
+    fields: FIELD_KEYS.filter((key) => mode.fields.includes(key)),
+    rubric: mode.rubric.map((metric) => ({
+      key: metricKey(metric.label),
+      label: metric.label.trim(),
+      weight: metric.weight,
+    })),
+  };
+}
+
+/**
+ * Blanks the page content groups a custom mode does not ask for, including
+ * the text of their located elements. Selectors stay so findings can still
+ * point at the element on the page.
+ */
+export function pickPageFields(page: PageContent, fields: ExtractionField[]): PageContent {
+  const omitted = EXTRACTION_FIELDS.filter((field) => !fields.includes(field.key));
+  const blankedKinds = new Set(omitted.flatMap((field) => (field.element ? [field.element] : [])));
+  const picked = omitted.reduce<PageContent>((result, field) => ({ ...result, ...field.blank }), page);
+  return {
+    ...picked,
+    elements: page.elements.map((element) =>
+      blankedKinds.has(element.kind) ? { ...element, text: "" } : element
+    ),
+  };
+}
+
+/**
+ * Converts the rubric metrics to the 0-100 display scale and, when the
+ * backend reports the metrics but no score of its own, fills in the overall
+ * score as their weighted average, on the 0-10 scale `toOverallScore` reads.
+ * The backend answers a rubric as one set, so its scale is inferred across
+ * all of it, including labels that match a core metric such as "Clarity".
+ */
+export function applyRubric(result: AnalysisResult, rubric: RubricMetric[]): AnalysisResult {
+  const scored = rubric.filter((metric) => typeof result.conversion_scores[metric.key] === "number");
+  if (scored.length === 0) return result;
+  const scale = inferScale(scored.map((metric) => result.conversion_scores[metric.key]));
+  const scaled = Object.fromEntries(
+    scored.map((metric) => [metric.key, clampScore((result.conversion_scores[metric.key] * 100) / scale)])
+  );
+  const rescaled = { ...result, conversion_scores: { ...result.conversion_scores, ...scaled } };
+
+  const totalWeight = scored.reduce((sum, metric) => sum + metric.weight, 0);
+  if (result.score || totalWeight === 0) return rescaled;
+  const weighted = scored.reduce((sum, metric) => sum + scaled[metric.key] * metric.weight, 0);
+  return {
+    ...rescaled,
+    score: { value: Math.round(weighted / totalWeight) / 10, reasoning: "Weighted average of the rubric metrics." },
+  };
+}
+
+function readScanMode(value: unknown, path: string): CustomScanMode {
+  const record = expectRecord(value, path);
+  const fields = arrayOf(record.fields, `${path}.fields`, (entry, entryPath) => {
+    const field = expectString(entry, entryPath);
+    if (!FIELD_KEYS.includes(field as ExtractionField)) throw new SchemaError(entryPath, FIELD_KEYS.join(" | "));
+    return field as ExtractionField;
+  });
+  const rubric = arrayOf(record.rubric, `${path}.rubric`, (entry, entryPath) => {
+    const metric = expectRecord(entry, entryPath);
+    const label = expectString(metric.label, `${entryPath}.label`);
+    return { key: metricKey(label), label, weight: expectNumber(metric.weight, `${entryPath}.weight`) };
+  });
+  return normalizeScanMode({
+    id: typeof record.id === "string" && record.id ? record.id : crypto.randomUUID(),
+    name: expectString(record.name, `${path}.name`),
+    instructions: expectString(record.instructions, `${path}.instructions`),
+    fields,
+    rubric,
+  });
+}
+
+export function serializeScanModes(modes: CustomScanMode[]): string {
+  return JSON.stringify(
+    { format: SCAN_MODE_EXPORT_FORMAT, version: SCAN_MODE_EXPORT_VERSION, modes },
+    null,
+    2
+  );
+}
+
+/** Reads an exported file, or a bare array or single mode someone wrote by hand. */
+export function parseScanModes(text: string): CustomScanMode[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The selected file is not valid JSON.");
+  }
+
+  if (isRecord(data) && data.format === SCAN_MODE_EXPORT_FORMAT) {
+    const version = expectNumber(data.version, "$.version");
+    if (version > SCAN_MODE_EXPORT_VERSION) {
+      throw new Error(`These scan modes were exported by a newer version (v${version}). Update Rook Lite to import them.`);
+    }
+    return arrayOf(data.modes, "$.modes", readScanMode);
+  }
+  if (Array.isArray(data)) return arrayOf(data, "$", readScanMode);
+  return [readScanMode(data, "$")];
+}
+
+type ScanModeListener = (modes: CustomScanMode[]) => void;
+
+export type ScanModeStore = {
+  list(): Promise<CustomScanMode[]>;
+  /** Adds the mode, or replaces the stored one with the same id. */
+  save(mode: CustomScanMode): Promise<CustomScanMode>;
+  /** Adds imported modes; one with the name of an existing mode replaces it. */
+  importMany(modes: CustomScanMode[]): Promise<void>;
+  remove(id: string): Promise<void>;
+  subscribe(listener: ScanModeListener): () => void;
+};
+
+function readStored(value: unknown): CustomScanMode[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry, index) => {
+    try {
+      return [readScanMode(entry, `$[${index}]`)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export function createScanModeStore(area: StorageArea): ScanModeStore {
+  const store = createListStore(area, STORAGE_KEY, readStored);
+
+  return {
+    list: store.list,
+    async save(mode) {
+      const normalized = normalizeScanMode(mode);
+      await store.change((modes) => {
+        const error = validateScanMode(normalized, modes);
+        if (error) throw new Error(error);
+        const exists = modes.some((item) => item.id === normalized.id);
+        return exists ? modes.map((item) => (item.id === normalized.id ? normalized : item)) : [...modes, normalized];
+      });
+      return normalized;
+    },
+    importMany: (incoming) =>
+      store.change((stored) => {
+        let modes = stored;
+        for (const mode of incoming) {
+          const existing = modes.find((item) => item.name.toLowerCase() === mode.name.toLowerCase());
+          const candidate = { ...mode, id: existing?.id ?? mode.id };
+          const error = validateScanMode(candidate, modes);
+          if (error) throw new Error(`${mode.name || "Unnamed mode"}: ${error}`);
+          modes = existing
+            ? modes.map((item) => (item.id === existing.id ? candidate : item))
+            : [...modes, candidate];
+        }
+        return modes;
+      }),
+    remove: (id) => store.change((modes) => modes.filter((mode) => mode.id !== id)),
+    subscribe: store.subscribe,
+  };
+}
+
+export const scanModeStore = createScanModeStore(getDefaultStorageArea());
+
+/** Every mode name the scan menus offer: the built-in modes, then the user's own. */
+export function scanModeNames(custom: CustomScanMode[]): string[] {
+  return [...SCAN_MODES, ...custom.map((mode) => mode.name)];
+}
+
+export async function findCustomScanMode(name: string): Promise<CustomScanMode | undefined> {
+  return (await scanModeStore.list()).find((mode) => mode.name === name);
+}
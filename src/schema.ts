@@ -0,0 +1,78 @@
+export class SchemaError extends Error {
+  path: string;
+
+  constructor(path: string, expected: string) {
+    super(`Invalid response at ${path}: expected ${expected}.`);
+    this.name = "SchemaError";
+    this.path = path;
+  }
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function expectRecord(value: unknown, path: string): Record<string, unknown> {
+  if (!isRecord(value)) throw new SchemaError(path, "an object");
+  return value;
+}
+
+export function optionalRecord(value: unknown, path: string): Record<string, unknown> | undefined {
+  if (value === undefined || value === null) return undefined;
+  return expectRecord(value, path);
+}
+
+export function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string") throw new SchemaError(path, "a string");
+  return value;
+}
+
+export function optionalString(value: unknown, path: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return expectString(value, path);
+}
+
+export function expectNumber(value: unknown, path: string): number {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  throw new SchemaError(path, "a number");
+}
+
+export function optionalNumber(value: unknown, path: string): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  return expectNumber(value, path);
+}
+
+export function arrayOf<T>(
+  value: unknown,
+  path: string,
+  item: (entry: unknown, path: string) => T
+): T[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new SchemaError(path, "an array");
+  return value.map((entry, index) => item(entry, `${path}[${index}]`));
+}
+
+export function recordOf<T>(
+  value: unknown,
+  path: string,
+  item: (entry: unknown, path: string) => T
+): Record<string, T> {
+  const source = optionalRecord(value, path);
+  if (!source) return {};
+  const result: Record<string, T> = {};
+  Object.entries(source).forEach(([key, entry]) => {
+    result[key] = item(entry, `${path}.${key}`);
+  });
+  return result;
+}
+
+/**
+ * Returns the first key of `keys` that is present on `source`, so a field the
+ * backend has shipped under several names can be read from one place.
+ */
+export function pickKey(source: Record<string, unknown>, keys: readonly string[]): string | undefined {
+  return keys.find((key) => source[key] !== undefined && source[key] !== null);
+}
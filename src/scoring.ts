@@ -0,0 +1,19 @@
+import type { Score } from "./api";
+
+export function clampScore(value: number): number {
+  if (Number.isNaN(value)) return 0;
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+export function toOverallScore(score: Score | undefined): number {
+  const raw = score?.value;
+  if (typeof raw !== "number") return 0;
+  if (raw <= 10) return clampScore(raw * 10);
+  return clampScore(raw);
+}
+
+export function toTitleCase(input: string): string {
+  return input
+    .replace(/_/g, " ")
+    .replace(/\b\w/g, (char) => char.toUpperCase());
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { buildSearchIndex, highlight, matchSnippet, searchIndex, tokenize } from "./searchIndex";
+import { sampleEntry } from "./test/fixtures";
+
+const entries = [
+  sampleEntry({
+    id: "pricing",
+    url: "https://example.com/pricing",
+    overview: "Pricing page for design teams.",
+    insights: { quick_fixes: ["Add testimonials near the plans."] },
+  }),
+  sampleEntry({
+    id: "checkout",
+    url: "https://shop.test/checkout",
+    overview: "Checkout flow for returning buyers.",
+    insights: { quick_fixes: ["Repeat the pricing summary above the pay button."] },
+  }),
+];
+const index = buildSearchIndex(entries);
+
+describe("tokenize", () => {
+  it("lowercases, splits on anything but letters and digits, and drops single characters", () => {
+    expect(tokenize("Größe & Über-Preise: a 10x CTA")).toEqual(["größe", "über", "preise", "10x", "cta"]);
+  });
+});
+
+describe("searchIndex", () => {
+  it("returns null for a query without terms", () => {
+    expect(searchIndex(index, "  - ")).toBeNull();
+  });
+
+  it("ranks a hit in the name and URL above one in an insight", () => {
+    const ranks = searchIndex(index, "pricing");
+
+    expect(Array.from(ranks?.keys() ?? [])).toEqual(expect.arrayContaining(["pricing", "checkout"]));
+    expect(ranks?.get("pricing")).toBeGreaterThan(ranks?.get("checkout") ?? 0);
+  });
+
+  it("matches word prefixes but scores exact words higher", () => {
+    const exact = searchIndex(index, "checkout")?.get("checkout") ?? 0;
+    const prefix = searchIndex(index, "check")?.get("checkout") ?? 0;
+
+    expect(prefix).toBeGreaterThan(0);
+    expect(exact).toBeGreaterThan(prefix);
+  });
+
+  it("requires every term to match", () => {
+    expect(Array.from(searchIndex(index, "pricing checkout")?.keys() ?? [])).toEqual(["checkout"]);
+    expect(searchIndex(index, "pricing refunds")?.size).toBe(0);
+  });
+});
+
+describe("highlight", () => {
+  it("marks the query terms where a word starts with them", () => {
+    expect(highlight("Prices and surprices", "pric")).toEqual([
+      { text: "Pric", match: true },
+      { text: "es and surprices", match: false },
+    ]);
+  });
+
+  it("leaves the text whole without a query", () => {
+    expect(highlight("Prices", "")).toEqual([{ text: "Prices", match: false }]);
+  });
+});
+
+describe("matchSnippet", () => {
+  it("cuts an excerpt around the first hit in the body text", () => {
+    const item = sampleEntry({ overview: `${"a".repeat(80)} the pricing table ${"b".repeat(80)}` });
+
+    const snippet = matchSnippet(item, "pricing");
+
+    expect(snippet).toMatch(/^….* the pricing table .*…$/);
+    expect(snippet?.length).toBeLessThan(item.overview?.length ?? 0);
+  });
+
+  it("looks into insights when the overview does not match", () => {
+    expect(matchSnippet(entries[1], "summary")).toBe("Repeat the pricing summary above the pay button.");
+    expect(matchSnippet(entries[1], "refunds")).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import { collectInsights, getAnalysisName, getItemMode } from "./analysisModel";
+import type { HistoryAnalysis } from "./HistoryPage";
+
+type IndexedField = {
+  weight: number;
+  text: (item: HistoryAnalysis) => string;
+};
+
+export type SearchIndex = {
+  /** token -> (item id -> weighted term frequency) */
+  postings: Map<string, Map<string, number>>;
+  tokens: string[];
+};
+
+export type HighlightPart = {
+  text: string;
+  match: boolean;
+};
+
+const FIELDS: IndexedField[] = [
+  { weight: 4, text: (item) => getAnalysisName(item) },
+  { weight: 3, text: (item) => item.url ?? "" },
+  { weight: 2, text: (item) => `${item.overview ?? ""} ${item.asset_type ?? ""} ${item.scan_mode ?? ""}` },
+  { weight: 2, text: (item) => `${item.verdicts.marketing ?? ""} ${item.verdicts.strategic ?? ""}` },
+  { weight: 1, text: (item) => collectInsights(item).join(" ") },
+  { weight: 1, text: (item) => item.sections.map((section) => section.title ?? "").join(" ") },
+  { weight: 1, text: (item) => getItemMode(item) },
+];
+
+const SNIPPET_RADIUS = 60;
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1);
+}
+
+/** Builds an inverted index over the searchable text of every history entry. */
+export function buildSearchIndex(items: HistoryAnalysis[]): SearchIndex {
+  const postings = new Map<string, Map<string, number>>();
+  items.forEach((item) => {
+    FIELDS.forEach((field) => {
+      tokenize(field.text(item)).forEach((token) => {
+        let docs = postings.get(token);
+        if (!docs) {
+          docs = new Map();
+          postings.set(token, docs);
+        }
+        docs.set(item.id, (docs.get(item.id) ?? 0) + field.weight);
+      });
+    });
+  });
+  return { postings, tokens: Array.from(postings.keys()).sort() };
+}
+
+function prefixRange(tokens: string[], prefix: string): string[] {
+  let low = 0;
+  let high = tokens.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (tokens[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+  const matches: string[] = [];
+  for (let index = low; index < tokens.length && tokens[index].startsWith(prefix); index += 1) {
+    matches.push(tokens[index]);
+  }
+  return matches;
+}
+
+/**
+ * Ranks entries against a query. Every query term must match (as a word or
+ * word prefix); exact word hits score higher than prefix hits. Returns null
+ * for an empty query so callers can skip ranking entirely.
+ */
+export function searchIndex(index: SearchIndex, query: string): Map<string, number> | null {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) return null;
+
+  let scores: Map<string, number> | null = null;
+  for (const term of terms) {
+    const termScores = new Map<string, number>();
+    prefixRange(index.tokens, term).forEach((token) => {
+      const boost = token === term ? 2 : 1;
+      index.postings.get(token)?.forEach((weight, id) => {
+        termScores.set(id, (termScores.get(id) ?? 0) + weight * boost);
+      });
+    });
+
+    if (scores === null) {
+      scores = termScores;
+      continue;
+    }
+    const previous: Map<string, number> = scores;
+    scores = new Map();
+    termScores.forEach((value, id) => {
+      const prior = previous.get(id);
+      if (prior !== undefined) scores?.set(id, prior + value);
+    });
+    if (scores.size === 0) break;
+  }
+  return scores ?? new Map();
+}
+
+function termPattern(query: string): RegExp | null {
+  const terms = tokenize(query).map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  if (terms.length === 0) return null;
+  return new RegExp(`(?<![\\p{L}\\p{N}])(${terms.join("|")})`, "giu");
+}
+
+/** Splits text into plain and matching parts for rendering highlighted search hits. */
+export function highlight(text: string, query: string): HighlightPart[] {
+  const pattern = termPattern(query);
+  if (!pattern || !text) return [{ text, match: false }];
+
+  const parts: HighlightPart[] = [];
+  let cursor = 0;
+  for (const found of text.matchAll(pattern)) {
+    const start = found.index ?? 0;
+    if (start > cursor) parts.push({ text: text.slice(cursor, start), match: false });
+    parts.push({ text: found[0], match: true });
+    cursor = start + found[0].length;
+  }
+  if (cursor < text.length) parts.push({ text: text.slice(cursor), match: false });
+  return parts;
+}
+
+/** Returns a short excerpt around the first query hit in the entry's body text, if any. */
+export function matchSnippet(item: HistoryAnalysis, query: string): string | null {
+  const pattern = termPattern(query);
+  if (!pattern) return null;
+
+  const sources = [
+    item.overview ?? "",
+    item.verdicts.marketing ?? "",
+    item.verdicts.strategic ?? "",
+    ...collectInsights(item),
+  ];
+  for (const source of sources) {
+    pattern.lastIndex = 0;
+    const found = pattern.exec(source);
+    if (!found) continue;
+    const start = Math.max(0, found.index - SNIPPET_RADIUS);
+    const end = Math.min(source.length, found.index + found[0].length + SNIPPET_RADIUS);
+    return `${start > 0 ? "…" : ""}${source.slice(start, end).trim()}${end < source.length ? "…" : ""}`;
+  }
+  return null;
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import type { PageContent } from "./pageContent";
+import { diffAgainstBaseline, runSeoAudit } from "./seoAudit";
+import { sampleEntry, samplePage } from "./test/fixtures";
+
+/** A page that passes every rule; each case below breaks one thing. */
+function cleanPage(overrides: Partial<PageContent> = {}): PageContent {
+  return samplePage({
+    title: "Pricing plans for growing teams | Example",
+    meta_description: "Compare the Starter, Team and Business plans. Start free and upgrade when your team grows.",
+    word_count: 450,
+    open_graph: { title: "Pricing", description: "Simple plans.", image: "https://example.com/og.png" },
+    twitter_card: { card: "summary_large_image" },
+    ...overrides,
+  });
+}
+
+function findingMessages(page: PageContent): string[] {
+  return runSeoAudit(page).insights.seo_improvements ?? [];
+}
+
+describe("runSeoAudit", () => {
+  it("reports nothing and a full score for a clean page", () => {
+    const result = runSeoAudit(cleanPage());
+
+    expect(result.insights.seo_improvements).toEqual([]);
+    expect(result.score?.value).toBe(10);
+    expect(Object.values(result.conversion_scores)).toEqual([100, 100, 100, 100, 100]);
+  });
+
+  it.each([
+    ["a missing title", { title: " " }, "The page has no <title>."],
+    ["a short title", { title: "Pricing" }, "Title is 7 characters"],
+    ["a long title", { title: "x".repeat(61) }, "Title is 61 characters"],
+    ["a missing description", { meta_description: "" }, "The page has no meta description."],
+    ["a short description", { meta_description: "Plans." }, "Meta description is 6 characters"],
+    ["a long description", { meta_description: "x".repeat(161) }, "Meta description is 161 characters"],
+    ["no h1", { heading_outline: [{ level: 2, text: "Plans" }] }, "The page has no h1."],
+    [
+      "two h1s",
+      {
+        heading_outline: [
+          { level: 1, text: "Pricing" },
+          { level: 1, text: "Plans" },
+        ],
+      },
+      "The page has 2 h1 headings.",
+    ],
+    [
+      "a skipped heading level",
+      {
+        heading_outline: [
+          { level: 1, text: "Pricing" },
+          { level: 3, text: "Plans" },
+        ],
+      },
+      '"Plans" jumps from h1 to h3.',
+    ],
+    [
+      "images without alt text",
+      { images: { total: 4, with_alt: 3, empty_alt: 0, missing_alt: 1, missing_alt_src: ["hero.png"] } },
+      "1 of 4 images have no alt attribute.",
+    ],
+    ["a missing canonical", { canonical_url: "" }, "No canonical URL is declared."],
+    ["a noindex directive", { robots: "noindex, follow" }, "The robots meta tag tells search engines"],
+    ["thin content", { word_count: 120 }, "Only 120 words of visible text."],
+    ["missing Open Graph tags", { open_graph: { title: "Pricing" } }, "og:description, og:image"],
+    ["a missing Twitter card", { twitter_card: {} }, "No twitter:card tag is set."],
+  ])("flags %s", (_case, overrides: Partial<PageContent>, message) => {
+    const findings = findingMessages(cleanPage(overrides));
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toContain(message);
+  });
+
+  it("accepts titles and descriptions at the edges of their ranges", () => {
+    expect(findingMessages(cleanPage({ title: "x".repeat(30), meta_description: "x".repeat(70) }))).toEqual([]);
+    expect(findingMessages(cleanPage({ title: "x".repeat(60), meta_description: "x".repeat(160) }))).toEqual([]);
+  });
+
+  it("points the finding at the extra h1", () => {
+    const result = runSeoAudit(
+      cleanPage({
+        heading_outline: [
+          { level: 1, text: "Pricing" },
+          { level: 1, text: "Plans" },
+        ],
+        elements: [
+          { kind: "heading", selector: "h1.hero", text: "Pricing", level: 1 },
+          { kind: "heading", selector: "h1.plans", text: "Plans", level: 1 },
+        ],
+      })
+    );
+
+    expect(result.anchors).toContainEqual({ insight: "The page has 2 h1 headings.", selector: "h1.plans" });
+  });
+
+  it("maps the average category score to the 0-10 scale", () => {
+    // metadata 60 (no title), social_sharing 80 (no og:image and no twitter card): (60 + 80 + 300) / 5 = 88.
+    const result = runSeoAudit(
+      cleanPage({ title: "", open_graph: { title: "Pricing", description: "Plans." }, twitter_card: {} })
+    );
+
+    expect(result.conversion_scores).toMatchObject({ metadata: 60, social_sharing: 80 });
+    expect(result.score?.value).toBe(8.8);
+    expect(result.insights.quick_fixes).toEqual(["Add a descriptive title that leads with the primary keyword."]);
+  });
+
+  it("never takes a category below zero", () => {
+    // No h1 (40), thin content (40) and three heading gaps (3 × 10) add up to more than 100.
+    const result = runSeoAudit(
+      cleanPage({
+        heading_outline: [2, 4, 6, 8].map((level) => ({ level, text: `Level ${level}` })),
+        word_count: 10,
+      })
+    );
+
+    expect(result.conversion_scores.content_structure).toBe(0);
+    expect(result.score?.value).toBe(8);
+  });
+});
+
+describe("diffAgainstBaseline", () => {
+  it("lines the local categories up with the AI metrics on the 0-100 scale", () => {
+    const baseline = runSeoAudit(cleanPage({ twitter_card: {} }));
+    const ai = sampleEntry({ score: { value: 7 }, conversion_scores: { metadata: 90, clarity: 70 } });
+
+    const diff = diffAgainstBaseline(ai, baseline);
+
+    expect(diff.score).toEqual({ local: 98, ai: 70 });
+    expect(diff.metrics[0]).toEqual({ key: "metadata", label: "Metadata", local: 100, ai: 90 });
+    expect(diff.metrics.find((metric) => metric.key === "social_sharing")).toEqual({
+      key: "social_sharing",
+      label: "Social Sharing",
+      local: 90,
+      ai: undefined,
+    });
+    expect(diff.findings).toEqual(["No twitter:card tag is set."]);
+  });
+});
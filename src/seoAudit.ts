@@ -0,0 +1,273 @@
+import type { AnalysisResult, InsightAnchor } from "./api";
+import { describeMetric, scaleMetrics } from "./metricRegistry";
+import type { PageContent, PageElementKind } from "./pageContent";
+import { toOverallScore } from "./scoring";
+
+type SeoCategory = "metadata" | "content_structure" | "accessibility" | "indexability" | "social_sharing";
+type Severity = "high" | "medium" | "low";
+
+export type SeoFinding = {
+  id: string;
+  category: SeoCategory;
+  severity: Severity;
+  message: string;
+  fix: string;
+  /** Element on the page the finding is about, when there is one. */
+  selector?: string;
+};
+
+const SEVERITY_PENALTY: Record<Severity, number> = {
+  high: 40,
+  medium: 20,
+  low: 10,
+};
+
+const CATEGORIES: SeoCategory[] = [
+  "metadata",
+  "content_structure",
+  "accessibility",
+  "indexability",
+  "social_sharing",
+];
+
+const TITLE_RANGE = { min: 30, max: 60 };
+const DESCRIPTION_RANGE = { min: 70, max: 160 };
+const THIN_CONTENT_WORDS = 300;
+
+/** The AI result next to the local audit that ran alongside it, category by category. */
+export type BaselineDiff = {
+  score: { local: number; ai: number };
+  metrics: Array<{ key: string; label: string; local: number; ai?: number }>;
+  /** What the rules flagged, to check against the AI's insights. */
+  findings: string[];
+};
+
+type SeoRule = (page: PageContent) => SeoFinding | SeoFinding[] | null;
+
+function selectorsOf(page: PageContent, kind: PageElementKind): string[] {
+  return page.elements.filter((element) => element.kind === kind).map((element) => element.selector);
+}
+
+const RULES: SeoRule[] = [
+  (page) => {
+    const length = page.title.trim().length;
+    if (length === 0) {
+      return {
+        id: "title-missing",
+        category: "metadata",
+        severity: "high",
+        message: "The page has no <title>.",
+        fix: "Add a descriptive title that leads with the primary keyword.",
+      };
+    }
+    if (length < TITLE_RANGE.min || length > TITLE_RANGE.max) {
+      return {
+        id: "title-length",
+        category: "metadata",
+        severity: "medium",
+        message: `Title is ${length} characters; search results show ${TITLE_RANGE.min}-${TITLE_RANGE.max} best.`,
+        fix: `Rewrite the title to ${TITLE_RANGE.min}-${TITLE_RANGE.max} characters.`,
+      };
+    }
+    return null;
+  },
+  (page) => {
+    const length = page.meta_description.trim().length;
+    if (length === 0) {
+      return {
+        id: "description-missing",
+        category: "metadata",
+        severity: "high",
+        message: "The page has no meta description.",
+        fix: "Add a meta description that summarises the offer and ends with a call to action.",
+      };
+    }
+    if (length < DESCRIPTION_RANGE.min || length > DESCRIPTION_RANGE.max) {
+      return {
+        id: "description-length",
+        category: "metadata",
+        severity: "low",
+        message: `Meta description is ${length} characters; aim for ${DESCRIPTION_RANGE.min}-${DESCRIPTION_RANGE.max}.`,
+        fix: `Adjust the meta description to ${DESCRIPTION_RANGE.min}-${DESCRIPTION_RANGE.max} characters.`,
+      };
+    }
+    return null;
+  },
+  (page) => {
+    const h1Count = page.heading_outline.filter((heading) => heading.level === 1).length;
+    if (h1Count === 1) return null;
+    return {
+      id: "h1-count",
+      category: "content_structure",
+      severity: h1Count === 0 ? "high" : "medium",
+      message: h1Count === 0 ? "The page has no h1." : `The page has ${h1Count} h1 headings.`,
+      fix: "Use exactly one h1 that states the page's main promise.",
+      // Point at the first extra h1, since that is the one to demote.
+      selector: page.elements.filter((element) => element.kind === "heading" && element.level === 1)[1]
+        ?.selector,
+    };
+  },
+  (page) => {
+    const gaps: SeoFinding[] = [];
+    const headingSelectors = selectorsOf(page, "heading");
+    page.heading_outline.forEach((heading, index) => {
+      const previous = page.heading_outline[index - 1];
+      if (!previous || heading.level <= previous.level + 1) return;
+      gaps.push({
+        id: `heading-gap-${index}`,
+        category: "content_structure",
+        severity: "low",
+        message: `"${heading.text}" jumps from h${previous.level} to h${heading.level}.`,
+        fix: `Use an h${previous.level + 1} here or add the missing level above it.`,
+        selector: headingSelectors[index],
+      });
+    });
+    return gaps.slice(0, 3);
+  },
+  (page) => {
+    if (page.images.missing_alt === 0) return null;
+    return {
+      id: "image-alt",
+      category: "accessibility",
+      severity: page.images.missing_alt > page.images.total / 2 ? "high" : "medium",
+      message: `${page.images.missing_alt} of ${page.images.total} images have no alt attribute.`,
+      fix: 'Describe meaningful images in alt text and mark decorative ones with alt="".',
+      selector: selectorsOf(page, "image")[0],
+    };
+  },
+  (page) => {
+    if (page.canonical_url) return null;
+    return {
+      id: "canonical-missing",
+      category: "indexability",
+      severity: "medium",
+      message: "No canonical URL is declared.",
+      fix: 'Add <link rel="canonical"> pointing at the preferred URL of this page.',
+    };
+  },
+  (page) => {
+    if (!/\bnoindex\b/i.test(page.robots)) return null;
+    return {
+      id: "robots-noindex",
+      category: "indexability",
+      severity: "high",
+      message: "The robots meta tag tells search engines not to index this page.",
+      fix: "Remove noindex if this page should rank.",
+    };
+  },
+  (page) => {
+    if (page.word_count >= THIN_CONTENT_WORDS) return null;
+    return {
+      id: "thin-content",
+      category: "content_structure",
+      severity: page.word_count < THIN_CONTENT_WORDS / 3 ? "high" : "medium",
+      message: `Only ${page.word_count} words of visible text.`,
+      fix: `Expand the copy past ${THIN_CONTENT_WORDS} words with benefits, proof and FAQs.`,
+    };
+  },
+  (page) => {
+    const missing = ["title", "description", "image"].filter((key) => !page.open_graph[key]);
+    if (missing.length === 0) return null;
+    return {
+      id: "open-graph",
+      category: "social_sharing",
+      severity: missing.length === 3 ? "medium" : "low",
+      message: `Missing Open Graph tags: ${missing.map((key) => `og:${key}`).join(", ")}.`,
+      fix: "Add Open Graph tags so shared links render a title, description and image.",
+    };
+  },
+  (page) => {
+    if (page.twitter_card.card) return null;
+    return {
+      id: "twitter-card",
+      category: "social_sharing",
+      severity: "low",
+      message: "No twitter:card tag is set.",
+      fix: 'Add <meta name="twitter:card" content="summary_large_image">.',
+    };
+  },
+];
+
+function auditPage(page: PageContent): SeoFinding[] {
+  return RULES.flatMap((rule) => {
+    const result = rule(page);
+    if (!result) return [];
+    return Array.isArray(result) ? result : [result];
+  });
+}
+
+function anchorFindings(findings: SeoFinding[]): InsightAnchor[] {
+  return findings.flatMap((finding) =>
+    finding.selector
+      ? [
+          { insight: finding.message, selector: finding.selector },
+          { insight: finding.fix, selector: finding.selector },
+        ]
+      : []
+  );
+}
+
+function scoreCategories(findings: SeoFinding[]): Record<SeoCategory, number> {
+  const scores = Object.fromEntries(CATEGORIES.map((category) => [category, 100])) as Record<
+    SeoCategory,
+    number
+  >;
+  findings.forEach((finding) => {
+    scores[finding.category] = Math.max(0, scores[finding.category] - SEVERITY_PENALTY[finding.severity]);
+  });
+  return scores;
+}
+
+/**
+ * Runs the rule set against an extracted page and reports it in the same
+ * shape as a backend analysis, so `AnalysisView` renders it unchanged.
+ */
+export function runSeoAudit(page: PageContent): AnalysisResult {
+  const findings = auditPage(page);
+  const categoryScores = scoreCategories(findings);
+  const overall =
+    CATEGORIES.reduce((sum, category) => sum + categoryScores[category], 0) / CATEGORIES.length;
+  const highCount = findings.filter((finding) => finding.severity === "high").length;
+
+  return {
+    asset_type: "Local SEO Audit",
+    overview:
+      findings.length === 0
+        ? "The local SEO audit found no issues on this page."
+        : `The local SEO audit found ${findings.length} issue${findings.length === 1 ? "" : "s"}, ${highCount} high priority.`,
+    score: {
+      value: Math.round(overall) / 10,
+      reasoning: "Average of the rule-based category scores.",
+    },
+    conversion_scores: categoryScores,
+    pricing_analysis: {
+      word_count: page.word_count,
+      images_missing_alt: page.images.missing_alt,
+      internal_links: page.links.internal,
+      external_links: page.links.external,
+      nofollow_links: page.links.nofollow,
+      structured_data_types: page.structured_data_types.length,
+    },
+    insights: {
+      quick_fixes: findings.filter((finding) => finding.severity === "high").map((finding) => finding.fix),
+      seo_improvements: findings.map((finding) => finding.message),
+    },
+    sections: [],
+    verdicts: {},
+    anchors: anchorFindings(findings),
+  };
+}
+
+export function diffAgainstBaseline(ai: AnalysisResult, baseline: AnalysisResult): BaselineDiff {
+  const aiMetrics = new Map(scaleMetrics(ai.conversion_scores).map((metric) => [metric.key, metric.value]));
+  return {
+    score: { local: toOverallScore(baseline.score), ai: toOverallScore(ai.score) },
+    metrics: scaleMetrics(baseline.conversion_scores).map(({ key, value }) => ({
+      key,
+      label: describeMetric(key).label,
+      local: value,
+      ai: aiMetrics.get(key),
+    })),
+    findings: baseline.insights.seo_improvements ?? [],
+  };
+}
@@ -0,0 +1,254 @@
+import type { PageContent } from "./pageContent";
+import {
+  DEFAULT_REDACTION,
+  compileCustomRule,
+  redactPage,
+  type RedactionResult,
+  type RedactionSettings,
+} from "./redaction";
+import { SCAN_MODES, createScanModeStore, scanModeNames } from "./scanModes";
+import { isRecord } from "./schema";
+import { getDefaultStorageArea, type StorageArea } from "./storage";
+
+export type ContentPolicy = "full" | "metadata";
+export type Tone = "neutral" | "friendly" | "professional" | "bold" | "playful";
+
+export type Settings = {
+  apiBaseUrl: string;
+  apiKey: string;
+  defaultScanMode: string;
+  /** Maximum number of history entries kept; 0 keeps everything. */
+  historyLimit: number;
+  /** Entries older than this many days are pruned; 0 disables pruning. */
+  autoPruneDays: number;
+  contentPolicy: ContentPolicy;
+  redaction: RedactionSettings;
+  blockedDomains: string[];
+  /** BCP 47 language tag for generated text, e.g. `en` or `pt-BR`. */
+  language: string;
+  tone: Tone;
+  /** Endpoint that exported analyses are posted to; empty disables the webhook. */
+  webhookUrl: string;
+  /** Key for the HMAC-SHA256 signature of webhook requests; empty sends them unsigned. */
+  webhookSecret: string;
+};
+
+export type SettingsErrors = Partial<Record<keyof Settings, string>>;
+
+export class SettingsError extends Error {
+  errors: SettingsErrors;
+
+  constructor(errors: SettingsErrors) {
+    super(Object.values(errors)[0] ?? "Invalid settings.");
+    this.name = "SettingsError";
+    this.errors = errors;
+  }
+}
+
+export const TONES: Tone[] = ["neutral", "friendly", "professional", "bold", "playful"];
+
+export const DEFAULT_SETTINGS: Settings = {
+  apiBaseUrl: import.meta.env.VITE_ROOK_API_URL || "http://localhost:8000",
+  apiKey: "",
+  defaultScanMode: SCAN_MODES[0],
+  historyLimit: 500,
+  autoPruneDays: 0,
+  contentPolicy: "full",
+  redaction: DEFAULT_REDACTION,
+  blockedDomains: [],
+  language: "en",
+  tone: "neutral",
+  webhookUrl: "",
+  webhookSecret: "",
+};
+
+const SETTINGS_KEY = "settings";
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+const DOMAIN_PATTERN = /^(\*\.)?([a-z0-9-]+\.)+[a-z]{2,}$/;
+const MAX_HISTORY_LIMIT = 5000;
+const MAX_PRUNE_DAYS = 3650;
+
+/** Lowercases an entry and strips scheme, path and `www.` so `https://www.Example.com/x` becomes `example.com`. */
+export function normalizeDomain(input: string): string {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/[/?#].*$/, "")
+    .replace(/:\d+$/, "")
+    .replace(/^www\./, "");
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function isWholeNumber(value: unknown, max: number): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= max;
+}
+
+function redactionError(redaction: RedactionSettings): string | undefined {
+  const kinds: unknown = redaction.kinds;
+  if (
+    typeof redaction.enabled !== "boolean" ||
+    !isRecord(kinds) ||
+    Object.keys(DEFAULT_REDACTION.kinds).some((kind) => typeof kinds[kind] !== "boolean") ||
+    !Array.isArray(redaction.customRules)
+  ) {
+    return "Redaction settings are malformed.";
+  }
+  for (const rule of redaction.customRules) {
+    if (!isRecord(rule) || typeof rule.pattern !== "string" || !rule.pattern.trim()) {
+      return "Every custom redaction rule needs a pattern.";
+    }
+    try {
+      compileCustomRule(rule);
+    } catch {
+      return `"${rule.pattern}" is not a valid regular expression.`;
+    }
+    if (compileCustomRule(rule).test("")) return `"${rule.pattern}" matches empty text.`;
+  }
+  return undefined;
+}
+
+/** `scanModes` lists the valid default modes, custom ones included; it defaults to the built-in modes. */
+export function validateSettings(settings: Settings, scanModes: readonly string[] = SCAN_MODES): SettingsErrors {
+  const errors: SettingsErrors = {};
+
+  try {
+    const url = new URL(settings.apiBaseUrl);
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      errors.apiBaseUrl = "Backend URL must start with http:// or https://.";
+    }
+  } catch {
+    errors.apiBaseUrl = "Enter a valid backend URL.";
+  }
+  if (/\s/.test(settings.apiKey)) errors.apiKey = "API key cannot contain spaces.";
+  if (!scanModes.includes(settings.defaultScanMode)) {
+    errors.defaultScanMode = "Choose one of the available scan modes.";
+  }
+  if (!isWholeNumber(settings.historyLimit, MAX_HISTORY_LIMIT)) {
+    errors.historyLimit = `History limit must be a whole number between 0 and ${MAX_HISTORY_LIMIT}.`;
+  }
+  if (!isWholeNumber(settings.autoPruneDays, MAX_PRUNE_DAYS)) {
+    errors.autoPruneDays = `Auto-prune age must be a whole number of days between 0 and ${MAX_PRUNE_DAYS}.`;
+  }
+  if (settings.contentPolicy !== "full" && settings.contentPolicy !== "metadata") {
+    errors.contentPolicy = "Choose what page content to send.";
+  }
+  const redaction = redactionError(settings.redaction);
+  if (redaction) errors.redaction = redaction;
+  const invalidDomain = settings.blockedDomains.find((domain) => !DOMAIN_PATTERN.test(domain));
+  if (invalidDomain !== undefined) errors.blockedDomains = `"${invalidDomain}" is not a valid domain.`;
+  if (!LANGUAGE_PATTERN.test(settings.language)) {
+    errors.language = "Language must be a code such as en, de or pt-BR.";
+  }
+  if (!TONES.includes(settings.tone)) errors.tone = "Choose one of the available tones.";
+  if (settings.webhookUrl && !isHttpUrl(settings.webhookUrl)) {
+    errors.webhookUrl = "Webhook URL must be a valid http:// or https:// address.";
+  }
+
+  return errors;
+}
+
+/**
+ * Reads stored settings field by field, so a value that no longer validates
+ * (e.g. a deleted custom scan mode) falls back to its default instead of
+ * discarding everything else the user configured.
+ */
+export function parseSettings(value: unknown, scanModes: readonly string[] = SCAN_MODES): Settings {
+  if (!isRecord(value)) return { ...DEFAULT_SETTINGS };
+
+  const merged = { ...DEFAULT_SETTINGS };
+  (Object.keys(DEFAULT_SETTINGS) as Array<keyof Settings>).forEach((key) => {
+    const stored = value[key];
+    const fallback = DEFAULT_SETTINGS[key];
+    if (typeof stored !== typeof fallback || Array.isArray(stored) !== Array.isArray(fallback)) return;
+    if (Array.isArray(stored) && !stored.every((item) => typeof item === "string")) return;
+    const candidate = { ...DEFAULT_SETTINGS, [key]: stored } as Settings;
+    if (!validateSettings(candidate, scanModes)[key]) Object.assign(merged, { [key]: stored });
+  });
+  return merged;
+}
+
+export function isDomainBlocked(url: string, blockedDomains: string[]): boolean {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return false;
+  }
+  return blockedDomains.some((entry) => {
+    const domain = entry.replace(/^\*\./, "");
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * The exact page payload that leaves the browser: the content policy is
+ * applied first, then personal data is masked in whatever text remains.
+ */
+export function prepareOutgoingPage(page: PageContent, settings: Settings): RedactionResult {
+  return redactPage(applyContentPolicy(page, settings.contentPolicy), settings.redaction);
+}
+
+/** Drops free-form body text when the user only allows structured metadata to leave the browser. */
+export function applyContentPolicy(page: PageContent, policy: ContentPolicy): PageContent {
+  if (policy === "full") return page;
+  return {
+    ...page,
+    body_text: "",
+    forms: page.forms.map((form) => ({ ...form, fields: form.fields.map((field) => ({ ...field, label: "" })) })),
+  };
+}
+
+type SettingsListener = (settings: Settings) => void;
+
+export type SettingsStore = {
+  get(): Promise<Settings>;
+  save(settings: Settings): Promise<Settings>;
+  subscribe(listener: SettingsListener): () => void;
+};
+
+export function createSettingsStore(area: StorageArea): SettingsStore {
+  const scanModes = createScanModeStore(area);
+  const read = async () => parseSettings(await area.get(SETTINGS_KEY), scanModeNames(await scanModes.list()));
+
+  return {
+    get: read,
+    async save(settings) {
+      const normalized: Settings = {
+        ...settings,
+        apiBaseUrl: settings.apiBaseUrl.trim().replace(/\/+$/, ""),
+        apiKey: settings.apiKey.trim(),
+        language: settings.language.trim(),
+        webhookUrl: settings.webhookUrl.trim(),
+        blockedDomains: Array.from(new Set(settings.blockedDomains.map(normalizeDomain).filter(Boolean))),
+      };
+      const errors = validateSettings(normalized, scanModeNames(await scanModes.list()));
+      if (Object.keys(errors).length > 0) throw new SettingsError(errors);
+      await area.set(SETTINGS_KEY, normalized);
+      return normalized;
+    },
+    subscribe(listener) {
+      // Deleting a custom mode can invalidate the default scan mode, so mode changes re-read settings too.
+      const unsubscribeModes = scanModes.subscribe(() => {
+        read().then(listener, () => undefined);
+      });
+      const unsubscribe = area.subscribe((key) => {
+        if (key === SETTINGS_KEY) read().then(listener, () => undefined);
+      });
+      return () => {
+        unsubscribeModes();
+        unsubscribe();
+      };
+    },
+  };
+}
+
+export const settingsStore = createSettingsStore(getDefaultStorageArea());
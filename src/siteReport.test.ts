@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { buildSiteReport, siteUrl } from "./siteReport";
+import { sampleEntry } from "./test/fixtures";
+
+describe("buildSiteReport", () => {
+  const entries = [
+    sampleEntry({
+      id: "home",
+      url: "https://www.example.com/",
+      score: { value: 6 },
+      conversion_scores: { clarity: 60, proof: 4 },
+      insights: { quick_fixes: ["Add testimonials.", "add testimonials", "Shorten the hero."] },
+    }),
+    sampleEntry({
+      id: "pricing",
+      url: "https://example.com/pricing",
+      score: { value: 85 },
+      conversion_scores: { clarity: 90, proof: 90 },
+      insights: { quick_fixes: ["Add testimonials!", "Show annual prices."] },
+    }),
+  ];
+  const pages = [
+    { url: "https://www.example.com/", entry_id: "home", score: 60 },
+    { url: "https://example.com/pricing", entry_id: "pricing", score: 85 },
+    { url: "https://example.com/broken", error: "Scan failed." },
+  ];
+
+  it("averages the page scores and metrics on the 0-100 scale", () => {
+    const report = buildSiteReport("Marketing Audit", pages, entries);
+
+    expect(report.score?.value).toBe(7.3);
+    // proof is read as 0-10 on the first page and 0-100 on the second.
+    expect(report.conversion_scores).toEqual({ clarity: 75, proof: 65 });
+    expect(report.pricing_analysis).toEqual({ pages_scanned: 2, pages_failed: 1 });
+    expect(report.overview).toBe("Marketing Audit of 3 pages on example.com: 2 scanned, 1 failed.");
+  });
+
+  it("ranks issues by the number of pages reporting them, counting each page once", () => {
+    const { batch, insights } = buildSiteReport("Marketing Audit", pages, entries);
+
+    expect(batch.issues).toEqual([
+      { text: "Add testimonials.", count: 2 },
+      { text: "Shorten the hero.", count: 1 },
+      { text: "Show annual prices.", count: 1 },
+    ]);
+    expect(insights.common_issues).toEqual(batch.issues.map((issue) => issue.text));
+  });
+
+  it("reports no score when every page failed", () => {
+    const report = buildSiteReport("SEO Audit", [{ url: "https://a.example/", error: "x" }], []);
+
+    expect(report.score).toBeUndefined();
+    expect(report.insights).toEqual({});
+  });
+});
+
+describe("siteUrl", () => {
+  it("files a report under the origin its pages share", () => {
+    expect(siteUrl(["https://example.com/pricing", "https://example.com/about?x=1"])).toBe("https://example.com");
+  });
+
+  it("files a report spanning several sites under no URL", () => {
+    expect(siteUrl(["https://example.com/", "https://www.example.com/"])).toBeUndefined();
+  });
+});
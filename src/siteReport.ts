@@ -0,0 +1,124 @@
+import { collectInsights, normalizeInsight } from "./analysisModel";
+import type { AnalysisResult } from "./api";
+import type { HistoryAnalysis } from "./HistoryPage";
+import { scaleMetrics } from "./metricRegistry";
+import { toOverallScore } from "./scoring";
+
+export type BatchPageResult = {
+  url: string;
+  /** History entry holding the page's analysis; absent when the page failed. */
+  entry_id?: string;
+  /** Overall score out of 100. */
+  score?: number;
+  error?: string;
+};
+
+export type SiteIssue = {
+  text: string;
+  /** Number of pages the issue was reported on. */
+  count: number;
+};
+
+export type SiteReport = {
+  scan_mode: string;
+  pages: BatchPageResult[];
+  issues: SiteIssue[];
+};
+
+const TOP_ISSUES = 10;
+
+function averageMetrics(entries: HistoryAnalysis[]): Record<string, number> {
+  const totals = new Map<string, { sum: number; count: number }>();
+  entries.forEach((entry) => {
+    // Averaged on the 0-100 display scale so pages scored on different scales still compare.
+    scaleMetrics(entry.conversion_scores).forEach(({ key, value }) => {
+      const total = totals.get(key) ?? { sum: 0, count: 0 };
+      totals.set(key, { sum: total.sum + value, count: total.count + 1 });
+    });
+  });
+  return Object.fromEntries(
+    Array.from(totals, ([key, total]) => [key, Math.round((total.sum / total.count) * 10) / 10])
+  );
+}
+
+/** Issues ranked by how many pages report them; wording differences in case and punctuation are ignored. */
+function commonIssues(entries: HistoryAnalysis[]): SiteIssue[] {
+  const issues = new Map<string, SiteIssue>();
+  entries.forEach((entry) => {
+    const seen = new Set<string>();
+    collectInsights(entry).forEach((text) => {
+      const key = normalizeInsight(text);
+      if (!key || seen.has(key)) return;
+      seen.add(key);
+      const issue = issues.get(key) ?? { text, count: 0 };
+      issues.set(key, { ...issue, count: issue.count + 1 });
+    });
+  });
+  return Array.from(issues.values())
+    .sort((a, b) => b.count - a.count || a.text.localeCompare(b.text))
+    .slice(0, TOP_ISSUES);
+}
+
+/**
+ * Where a site report is filed: the origin its pages share, or nothing when
+ * they span several sites. Filing it under the first page it scanned would
+ * mix the report into that page's history.
+ */
+export function siteUrl(urls: string[]): string | undefined {
+  const origins = new Set(
+    urls.flatMap((url) => {
+      try {
+        return [new URL(url).origin];
+      } catch {
+        return [];
+      }
+    })
+  );
+  return origins.size === 1 ? Array.from(origins)[0] : undefined;
+}
+
+function describeHosts(pages: BatchPageResult[]): string {
+  const hosts = new Set(
+    pages.flatMap((page) => {
+      try {
+        return [new URL(page.url).hostname.replace(/^www\./, "")];
+      } catch {
+        return [];
+      }
+    })
+  );
+  return hosts.size === 1 ? Array.from(hosts)[0] : `${hosts.size} sites`;
+}
+
+/**
+ * Rolls per-page scans up into one analysis: the average score, each
+ * conversion metric averaged across pages, and the most common issues.
+ */
+export function buildSiteReport(
+  scanMode: string,
+  pages: BatchPageResult[],
+  entries: HistoryAnalysis[]
+): AnalysisResult & { batch: SiteReport } {
+  const scores = entries.map((entry) => toOverallScore(entry.score));
+  const average = scores.length ? scores.reduce((sum, score) => sum + score, 0) / scores.length : undefined;
+  const failed = pages.length - entries.length;
+  const issues = commonIssues(entries);
+
+  return {
+    asset_type: "Site Report",
+    overview: `${scanMode} of ${pages.length} pages on ${describeHosts(pages)}: ${entries.length} scanned${
+      failed ? `, ${failed} failed` : ""
+    }.`,
+    // Stored on the 0-10 scale so an average below 10 is not mistaken for a 0-10 score.
+    score:
+      average === undefined
+        ? undefined
+        : { value: Math.round(average) / 10, reasoning: "Average of the page scores." },
+    conversion_scores: averageMetrics(entries),
+    pricing_analysis: { pages_scanned: entries.length, pages_failed: failed },
+    insights: issues.length ? { common_issues: issues.map((issue) => issue.text) } : {},
+    sections: [],
+    verdicts: {},
+    batch: { scan_mode: scanMode, pages, issues },
+  };
+}
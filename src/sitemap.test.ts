@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { MAX_BATCH_URLS, fetchSitemapUrls, parseUrlList } from "./sitemap";
+import { startMockServer, type MockServer } from "./test/mockServer";
+
+let server: MockServer;
+
+const urlset = (urls: string[]) =>
+  `<?xml version="1.0"?><urlset>${urls.map((url) => `<url><loc>${url}</loc></url>`).join("")}</urlset>`;
+const sitemapIndex = (urls: string[]) =>
+  `<sitemapindex>${urls.map((url) => `<sitemap><loc>${url}</loc></sitemap>`).join("")}</sitemapindex>`;
+const pageUrls = (prefix: string, count: number) =>
+  Array.from({ length: count }, (_, index) => `https://example.com/${prefix}-${index}`);
+
+beforeAll(async () => {
+  server = await startMockServer();
+});
+
+afterAll(() => server.close());
+
+beforeEach(() => server.reset());
+
+describe("parseUrlList", () => {
+  it("splits pasted URLs, adds a missing scheme and drops duplicates", () => {
+    expect(parseUrlList("example.com/a, https://example.com/a\nhttps://example.com/b  ftp://example.com/c")).toEqual([
+      "https://example.com/a",
+      "https://example.com/b",
+    ]);
+  });
+
+  it("reads the locations of pasted sitemap XML, decoding entities", () => {
+    const xml = urlset(["https://example.com/?a=1&amp;b=2", "<![CDATA[https://example.com/faq]]>"]);
+
+    expect(parseUrlList(xml)).toEqual(["https://example.com/?a=1&b=2", "https://example.com/faq"]);
+  });
+});
+
+describe("fetchSitemapUrls", () => {
+  it("returns the de-duplicated pages of a sitemap", async () => {
+    server.on("GET", "/sitemap.xml", {
+      body: urlset(["https://example.com/", "https://example.com/", "https://example.com/a"]),
+    });
+
+    expect(await fetchSitemapUrls(`${server.url}/sitemap.xml`)).toEqual([
+      "https://example.com/",
+      "https://example.com/a",
+    ]);
+  });
+
+  it("follows a sitemap index into its child sitemaps and skips broken ones", async () => {
+    server.on("GET", "/sitemap.xml", {
+      body: sitemapIndex([`${server.url}/posts.xml`, `${server.url}/missing.xml`, `${server.url}/pages.xml`]),
+    });
+    server.on("GET", "/posts.xml", { body: urlset(["https://example.com/post", "https://example.com/shared"]) });
+    server.on("GET", "/pages.xml", { body: urlset(["https://example.com/shared", "https://example.com/about"]) });
+
+    expect(await fetchSitemapUrls(`${server.url}/sitemap.xml`)).toEqual([
+      "https://example.com/post",
+      "https://example.com/shared",
+      "https://example.com/about",
+    ]);
+  });
+
+  it("stops fetching child sitemaps once the batch limit is reached", async () => {
+    server.on("GET", "/sitemap.xml", { body: sitemapIndex([`${server.url}/a.xml`, `${server.url}/b.xml`]) });
+    server.on("GET", "/a.xml", { body: urlset(pageUrls("a", MAX_BATCH_URLS)) });
+    server.on("GET", "/b.xml", { body: urlset(pageUrls("b", 5)) });
+
+    const urls = await fetchSitemapUrls(`${server.url}/sitemap.xml`);
+
+    expect(urls).toHaveLength(MAX_BATCH_URLS);
+    expect(server.requests.map((request) => request.path)).toEqual(["/sitemap.xml", "/a.xml"]);
+  });
+
+  it("follows at most ten child sitemaps", async () => {
+    const children = Array.from({ length: 12 }, (_, index) => `${server.url}/child-${index}.xml`);
+    server.on("GET", "/sitemap.xml", { body: sitemapIndex(children) });
+    children.forEach((_, index) =>
+      server.on("GET", `/child-${index}.xml`, { body: urlset([`https://example.com/page-${index}`]) })
+    );
+
+    expect(await fetchSitemapUrls(`${server.url}/sitemap.xml`)).toHaveLength(10);
+  });
+
+  it("rejects a URL that does not return a sitemap", async () => {
+    server.on("GET", "/page", { body: "<html></html>" });
+
+    await expect(fetchSitemapUrls(`${server.url}/page`)).rejects.toThrow("did not return a sitemap");
+  });
+});
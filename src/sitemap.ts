@@ -0,0 +1,76 @@
+import { normalizeInputUrl } from "./tabs";
+
+/** Upper bound on pages per batch, to keep a site scan within a sensible time and backend budget. */
+export const MAX_BATCH_URLS = 50;
+const MAX_CHILD_SITEMAPS = 10;
+
+const LOC_PATTERN = /<loc>\s*([\s\S]*?)\s*<\/loc>/gi;
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+export function isSitemapXml(text: string): boolean {
+  return /<(urlset|sitemapindex)[\s>]/i.test(text);
+}
+
+function isSitemapIndex(text: string): boolean {
+  return /<sitemapindex[\s>]/i.test(text);
+}
+
+function readLocs(xml: string): string[] {
+  return Array.from(xml.matchAll(LOC_PATTERN), (match) => decodeXmlEntities(match[1].trim()));
+}
+
+function uniqueUrls(candidates: string[]): string[] {
+  const seen = new Set<string>();
+  candidates.forEach((candidate) => {
+    const url = normalizeInputUrl(candidate);
+    if (url) seen.add(url);
+  });
+  return Array.from(seen);
+}
+
+/** Reads pasted input: sitemap XML, or URLs separated by new lines, commas or spaces. */
+export function parseUrlList(text: string): string[] {
+  if (isSitemapXml(text)) return uniqueUrls(readLocs(text));
+  return uniqueUrls(text.split(/[\s,]+/).filter(Boolean));
+}
+
+async function fetchText(url: string): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new Error(`Could not fetch ${url}.`);
+  }
+  if (!response.ok) throw new Error(`Fetching ${url} failed (${response.status}).`);
+  return response.text();
+}
+
+/** Fetches a sitemap and returns its page URLs, following one level of sitemap index. */
+export async function fetchSitemapUrls(sitemapUrl: string): Promise<string[]> {
+  const url = normalizeInputUrl(sitemapUrl);
+  if (!url) throw new Error("Enter a valid sitemap URL.");
+
+  const xml = await fetchText(url);
+  if (!isSitemapXml(xml)) throw new Error("That URL did not return a sitemap.");
+  if (!isSitemapIndex(xml)) return uniqueUrls(readLocs(xml));
+
+  const pages: string[] = [];
+  for (const child of readLocs(xml).slice(0, MAX_CHILD_SITEMAPS)) {
+    if (pages.length >= MAX_BATCH_URLS) break;
+    try {
+      pages.push(...readLocs(await fetchText(child)));
+    } catch {
+      // One broken child sitemap should not sink the whole site scan.
+    }
+  }
+  return uniqueUrls(pages);
+}
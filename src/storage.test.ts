@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { QuotaExceededError, createListStore, createMemoryStorageArea } from "./storage";
+
+describe("createMemoryStorageArea", () => {
+  it("rolls back a write that exceeds the quota", async () => {
+    const area = createMemoryStorageArea({ kept: "x" }, 40);
+
+    await expect(area.setMany({ a: "1", big: "y".repeat(50) })).rejects.toBeInstanceOf(QuotaExceededError);
+
+    expect(await area.getAll()).toEqual({ kept: "x" });
+  });
+
+  it("notifies listeners with a copy of each changed value", async () => {
+    const area = createMemoryStorageArea();
+    const changes: Array<[string, unknown]> = [];
+    area.subscribe((key, value) => changes.push([key, value]));
+
+    await area.setMany({ a: [1], b: 2 });
+    await area.remove("a");
+
+    expect(changes).toEqual([
+      ["a", [1]],
+      ["b", 2],
+      ["a", undefined],
+    ]);
+  });
+});
+
+describe("createListStore", () => {
+  it("applies overlapping changes one after another", async () => {
+    const store = createListStore<number>(createMemoryStorageArea(), "numbers");
+
+    await Promise.all([1, 2, 3].map((value) => store.change((items) => [...items, value])));
+
+    expect(await store.list()).toEqual([1, 2, 3]);
+  });
+
+  it("leaves the list untouched when a change throws", async () => {
+    const store = createListStore<number>(createMemoryStorageArea({ numbers: [1] }), "numbers");
+
+    await expect(
+      store.change(() => {
+        throw new Error("Invalid.");
+      })
+    ).rejects.toThrow("Invalid.");
+
+    expect(await store.list()).toEqual([1]);
+  });
+
+  it("parses stored and changed values", async () => {
+    const parse = (value: unknown) => (Array.isArray(value) ? value.filter((item) => typeof item === "string") : []);
+    const area = createMemoryStorageArea({ names: ["a", 1] });
+    const store = createListStore(area, "names", parse);
+    const seen: string[][] = [];
+    store.subscribe((items) => seen.push(items));
+
+    await area.set("names", ["b", null]);
+
+    expect(await store.list()).toEqual(["b"]);
+    expect(seen).toEqual([["b"]]);
+  });
+});
@@ -0,0 +1,162 @@
+export type StorageListener = (key: string, newValue: unknown) => void;
+
+export type StorageArea = {
+  get<T>(key: string): Promise<T | undefined>;
+  /** Every stored key and value. */
+  getAll(): Promise<Record<string, unknown>>;
+  set(key: string, value: unknown): Promise<void>;
+  /** Writes several keys in one change, or none of them when the quota is exceeded. */
+  setMany(values: Record<string, unknown>): Promise<void>;
+  remove(key: string): Promise<void>;
+  removeMany(keys: string[]): Promise<void>;
+  subscribe(listener: StorageListener): () => void;
+};
+
+export class QuotaExceededError extends Error {
+  constructor(key: string) {
+    super(`Storage quota exceeded while writing "${key}".`);
+    this.name = "QuotaExceededError";
+  }
+}
+
+function isQuotaError(err: unknown): boolean {
+  return err instanceof Error && /quota/i.test(err.message);
+}
+
+export function createChromeStorageArea(
+  area: chrome.storage.StorageArea = chrome.storage.local
+): StorageArea {
+  const setMany = async (values: Record<string, unknown>) => {
+    try {
+      await area.set(values);
+    } catch (err) {
+      if (isQuotaError(err)) throw new QuotaExceededError(Object.keys(values).join(", "));
+      throw err;
+    }
+  };
+
+  return {
+    async get<T>(key: string) {
+      const result = await area.get(key);
+      return result[key] as T | undefined;
+    },
+    async getAll() {
+      return area.get(null);
+    },
+    set: (key, value) => setMany({ [key]: value }),
+    setMany,
+    async remove(key) {
+      await area.remove(key);
+    },
+    async removeMany(keys) {
+      await area.remove(keys);
+    },
+    subscribe(listener) {
+      const onChanged = (changes: Record<string, chrome.storage.StorageChange>) => {
+        Object.entries(changes).forEach(([key, change]) => listener(key, change.newValue));
+      };
+      area.onChanged.addListener(onChanged);
+      return () => area.onChanged.removeListener(onChanged);
+    },
+  };
+}
+
+/**
+ * Keeps values in a Map and mirrors chrome.storage semantics: values are
+ * cloned on write and listeners fire after every change. Used for tests and
+ * when the UI runs outside the extension (e.g. `npm run dev`).
+ */
+export function createMemoryStorageArea(
+  initial: Record<string, unknown> = {},
+  quotaBytes = Infinity
+): StorageArea {
+  const values = new Map<string, unknown>(Object.entries(initial));
+  const listeners = new Set<StorageListener>();
+
+  const usedBytes = () =>
+    Array.from(values, ([key, value]) => key.length + JSON.stringify(value).length).reduce(
+      (sum, size) => sum + size,
+      0
+    );
+
+  const setMany = async (changes: Record<string, unknown>) => {
+    const previous = new Map(values);
+    Object.entries(changes).forEach(([key, value]) => values.set(key, structuredClone(value)));
+    if (usedBytes() > quotaBytes) {
+      values.clear();
+      previous.forEach((value, key) => values.set(key, value));
+      throw new QuotaExceededError(Object.keys(changes).join(", "));
+    }
+    Object.entries(changes).forEach(([key, value]) =>
+      listeners.forEach((listener) => listener(key, structuredClone(value)))
+    );
+  };
+
+  const removeMany = async (keys: string[]) => {
+    keys.forEach((key) => values.delete(key));
+    keys.forEach((key) => listeners.forEach((listener) => listener(key, undefined)));
+  };
+
+  return {
+    async get<T>(key: string) {
+      const value = values.get(key);
+      return value === undefined ? undefined : (structuredClone(value) as T);
+    },
+    async getAll() {
+      return structuredClone(Object.fromEntries(values));
+    },
+    set: (key, value) => setMany({ [key]: value }),
+    setMany,
+    remove: (key) => removeMany([key]),
+    removeMany,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+export type ListStore<T> = {
+  list(): Promise<T[]>;
+  /** Replaces the stored list with what `change` returns for the current one; throwing leaves it untouched. */
+  change(change: (items: T[]) => T[]): Promise<void>;
+  subscribe(listener: (items: T[]) => void): () => void;
+};
+
+/**
+ * A list kept under one storage key. Reads and changes made through one
+ * store run one at a time in call order, so overlapping read-modify-write
+ * cycles on the same page do not drop each other's items.
+ */
+export function createListStore<T>(
+  area: StorageArea,
+  key: string,
+  parse: (value: unknown) => T[] = (value) => (value as T[] | undefined) ?? []
+): ListStore<T> {
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const enqueue = <R>(task: () => Promise<R>): Promise<R> => {
+    const run = pending.then(task, task);
+    pending = run.catch(() => undefined);
+    return run;
+  };
+
+  const read = async () => parse(await area.get(key));
+
+  return {
+    list: () => enqueue(read),
+    change: (change) => enqueue(async () => area.set(key, change(await read()))),
+    subscribe(listener) {
+      return area.subscribe((changedKey, newValue) => {
+        if (changedKey === key) listener(parse(newValue));
+      });
+    },
+  };
+}
+
+export function getDefaultStorageArea(): StorageArea {
+  if (typeof chrome !== "undefined" && chrome.storage?.local) {
+    return createChromeStorageArea(chrome.storage.local);
+  }
+  return createMemoryStorageArea();
+}
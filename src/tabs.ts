@@ -0,0 +1,156 @@
+import {
+  PAGE_CONTENT_VERSION,
+  type ClearHighlightsMessage,
+  type ExtractPageMessage,
+  type HighlightFindingsMessage,
+  type HighlightResult,
+  type HighlightTarget,
+  type PageContent,
+} from "./pageContent";
+
+export async function getActiveTab(): Promise<chrome.tabs.Tab | undefined> {
+  const [tab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+  return tab;
+}
+
+/** Opens the side panel in the current window. Call it straight from a click handler. */
+export async function openSidePanel(): Promise<void> {
+  const window = await chrome.windows.getCurrent();
+  if (window.id === undefined) throw new Error("Could not find the current window.");
+  await chrome.sidePanel.open({ windowId: window.id });
+}
+
+function isScannableUrl(url: string | undefined): boolean {
+  return Boolean(url && /^https?:\/\//i.test(url));
+}
+
+/** Tabs opened before the extension was installed or updated have no content script to answer messages. */
+function isMissingContentScript(err: unknown): boolean {
+  return err instanceof Error && err.message.includes("Receiving end does not exist");
+}
+
+async function requestPageContent(tabId: number): Promise<PageContent> {
+  const response = await chrome.tabs.sendMessage<ExtractPageMessage, PageContent | undefined>(
+    tabId,
+    { type: "EXTRACT_PAGE" }
+  );
+  if (!response) {
+    throw new Error("The page did not return any content.");
+  }
+  if (response.schema_version !== PAGE_CONTENT_VERSION) {
+    throw new Error("Rook Lite was updated since this page loaded. Reload the page and try again.");
+  }
+  return response;
+}
+
+export async function extractPage(tab: chrome.tabs.Tab): Promise<PageContent> {
+  if (tab.id === undefined || !isScannableUrl(tab.url)) {
+    throw new Error("Rook Lite can only scan regular web pages.");
+  }
+
+  try {
+    return await requestPageContent(tab.id);
+  } catch (err) {
+    if (!isMissingContentScript(err)) throw err;
+    await chrome.scripting.executeScript({ target: { tabId: tab.id }, files: ["content.js"] });
+    return requestPageContent(tab.id);
+  }
+}
+
+function waitForTabLoad(tabId: number, timeoutMs = 30000): Promise<chrome.tabs.Tab> {
+  return new Promise((resolve, reject) => {
+    const onUpdated = (updatedId: number, info: { status?: string }, tab: chrome.tabs.Tab) => {
+      if (updatedId !== tabId || info.status !== "complete") return;
+      cleanup();
+      resolve(tab);
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error("Timed out waiting for the page to load."));
+    }, timeoutMs);
+    const cleanup = () => {
+      clearTimeout(timer);
+      chrome.tabs.onUpdated.removeListener(onUpdated);
+    };
+
+    chrome.tabs.onUpdated.addListener(onUpdated);
+    chrome.tabs.get(tabId).then((tab) => {
+      if (tab.status !== "complete") return;
+      cleanup();
+      resolve(tab);
+    }, () => undefined);
+  });
+}
+
+export function normalizeInputUrl(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  try {
+    const url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return isScannableUrl(url.href) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Loads `url` in a background tab just long enough to extract it. */
+export async function extractUrl(url: string): Promise<PageContent> {
+  const tab = await chrome.tabs.create({ url, active: false });
+  if (tab.id === undefined) {
+    throw new Error("Could not open the page in a background tab.");
+  }
+
+  try {
+    const loaded = await waitForTabLoad(tab.id);
+    return await extractPage(loaded);
+  } finally {
+    chrome.tabs.remove(tab.id).catch(() => undefined);
+  }
+}
+
+/** Reuses the active tab when it already shows `url`, otherwise loads it in the background. */
+export async function extractPageForUrl(url: string): Promise<PageContent> {
+  const tab = await getActiveTab();
+  if (tab?.url && normalizeInputUrl(tab.url) === normalizeInputUrl(url)) {
+    return extractPage(tab);
+  }
+  return extractUrl(url);
+}
+
+async function getTabShowing(url: string): Promise<chrome.tabs.Tab & { id: number }> {
+  const tab = await getActiveTab();
+  if (tab?.id === undefined || !tab.url || normalizeInputUrl(tab.url) !== normalizeInputUrl(url)) {
+    throw new Error("Open this page in the current tab to see findings on it.");
+  }
+  return { ...tab, id: tab.id };
+}
+
+async function sendHighlightMessage(
+  tabId: number,
+  message: HighlightFindingsMessage | ClearHighlightsMessage
+): Promise<HighlightResult> {
+  let response: HighlightResult | undefined;
+  try {
+    response = await chrome.tabs.sendMessage(tabId, message);
+  } catch (err) {
+    if (!isMissingContentScript(err)) throw err;
+    await chrome.scripting.executeScript({ target: { tabId }, files: ["content.js"] });
+    response = await chrome.tabs.sendMessage(tabId, message);
+  }
+  return response ?? { shown: 0, missing: 0 };
+}
+
+/** Outlines `targets` on the tab showing `url`; with `focus` the first one is scrolled to. */
+export async function highlightOnPage(
+  url: string,
+  targets: HighlightTarget[],
+  focus: boolean
+): Promise<HighlightResult> {
+  const tab = await getTabShowing(url);
+  return sendHighlightMessage(tab.id, { type: "HIGHLIGHT_FINDINGS", targets, focus });
+}
+
+export async function clearPageHighlights(url: string): Promise<void> {
+  const tab = await getTabShowing(url);
+  await sendHighlightMessage(tab.id, { type: "CLEAR_HIGHLIGHTS" });
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from "vitest";
+import { createMemoryStorageArea } from "./storage";
+import { createTaskStore, findResolvedTasks, newTask, type InsightTask } from "./tasks";
+import { sampleEntry } from "./test/fixtures";
+
+const earlier = sampleEntry({ id: "earlier", createdAt: 1 });
+
+function taskFor(insight: string, overrides: Partial<InsightTask> = {}): InsightTask {
+  return { ...newTask(earlier, "Quick Fixes", insight), createdAt: 1, ...overrides };
+}
+
+describe("newTask", () => {
+  it("links an insight to its analysis and page as an open, medium priority task", () => {
+    const task = newTask(earlier, "Quick Fixes", "Add testimonials near the plans.");
+
+    expect(task).toMatchObject({
+      insight: "Add testimonials near the plans.",
+      section: "Quick Fixes",
+      analysisId: "earlier",
+      url: "https://example.com/pricing",
+      status: "todo",
+      priority: "medium",
+      assignee: "",
+      notes: "",
+    });
+  });
+});
+
+describe("findResolvedTasks", () => {
+  const rescan = (insights: string[]) =>
+    sampleEntry({
+      id: "later",
+      createdAt: 2,
+      url: "https://www.example.com/pricing/",
+      insights: { quick_fixes: insights },
+    });
+
+  it("offers open tasks whose issue a later scan of the page no longer reports", () => {
+    const gone = taskFor("Add testimonials near the plans.");
+    const reported = taskFor("Shorten the hero copy.");
+
+    expect(findResolvedTasks([gone, reported], rescan(["shorten the hero copy"]))).toEqual([gone]);
+  });
+
+  it("tells apart insights written in other scripts", () => {
+    const gone = taskFor("Добавьте отзывы");
+    const reported = taskFor("Сократите заголовок.");
+
+    expect(findResolvedTasks([gone, reported], rescan(["Сократите заголовок"]))).toEqual([gone]);
+  });
+
+  it.each<[string, Partial<InsightTask>]>([
+    ["done tasks", { status: "done" }],
+    ["tasks kept open after this scan", { keptOpenFor: "later" }],
+    ["tasks newer than the scan", { createdAt: 3 }],
+    ["tasks on another page", { url: "https://example.com/about" }],
+  ])("leaves out %s", (_case, overrides) => {
+    expect(findResolvedTasks([taskFor("Add testimonials.", overrides)], rescan([]))).toEqual([]);
+  });
+
+  it("ignores incomplete scans and other modes", () => {
+    const tasks = [taskFor("Add testimonials.")];
+
+    expect(findResolvedTasks(tasks, { ...rescan([]), incomplete: true })).toEqual([]);
+    expect(findResolvedTasks(tasks, { ...rescan([]), mode: "compare" })).toEqual([]);
+  });
+});
+
+describe("createTaskStore", () => {
+  it("moves tasks through their statuses and stamps each change", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const store = createTaskStore(createMemoryStorageArea());
+    const first = taskFor("Add testimonials.", { id: "first" });
+    const second = taskFor("Shorten the hero.", { id: "second" });
+    await store.add(first);
+    await store.add(second);
+
+    vi.setSystemTime(10);
+    await store.update("first", { status: "doing" });
+    vi.setSystemTime(20);
+    await store.updateMany(["first", "second"], { status: "done" });
+    await store.remove("second");
+    vi.useRealTimers();
+
+    expect(await store.list()).toEqual([{ ...first, status: "done", updatedAt: 20 }]);
+  });
+});
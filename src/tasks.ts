@@ -0,0 +1,106 @@
+import { collectInsights, getItemMode, normalizeInsight } from "./analysisModel";
+import type { HistoryAnalysis } from "./HistoryPage";
+import { createListStore, getDefaultStorageArea, type StorageArea } from "./storage";
+import { normalizeUrl } from "./trends";
+
+export type TaskStatus = "todo" | "doing" | "done";
+export type TaskPriority = "low" | "medium" | "high";
+
+export const TASK_STATUSES: Array<{ value: TaskStatus; label: string }> = [
+  { value: "todo", label: "To do" },
+  { value: "doing", label: "Doing" },
+  { value: "done", label: "Done" },
+];
+
+export const TASK_PRIORITIES: Array<{ value: TaskPriority; label: string }> = [
+  { value: "high", label: "High" },
+  { value: "medium", label: "Medium" },
+  { value: "low", label: "Low" },
+];
+
+/** An insight turned into work to track, linked back to the analysis it came from. */
+export type InsightTask = {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  insight: string;
+  /** Title of the insight section the task was created from, e.g. "Quick Fixes". */
+  section: string;
+  analysisId: string;
+  url?: string;
+  status: TaskStatus;
+  assignee: string;
+  priority: TaskPriority;
+  notes: string;
+  /** Scan the user chose to keep the task open after, although the issue was missing from it. */
+  keptOpenFor?: string;
+};
+
+type TaskListener = (tasks: InsightTask[]) => void;
+
+export type TaskStore = {
+  list(): Promise<InsightTask[]>;
+  add(task: InsightTask): Promise<void>;
+  update(id: string, patch: Partial<InsightTask>): Promise<void>;
+  /** Applies the same change to several tasks in one write. */
+  updateMany(ids: string[], patch: Partial<InsightTask>): Promise<void>;
+  remove(id: string): Promise<void>;
+  subscribe(listener: TaskListener): () => void;
+};
+
+const STORAGE_KEY = "tasks";
+
+export function newTask(analysis: HistoryAnalysis, section: string, insight: string): InsightTask {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    insight,
+    section,
+    analysisId: analysis.id,
+    url: analysis.url,
+    status: "todo",
+    assignee: "",
+    priority: "medium",
+    notes: "",
+  };
+}
+
+/**
+ * Open tasks for the page `analysis` scanned whose issue it no longer reports.
+ * Only scans newer than the task count, and a task the user kept open after
+ * this scan is not offered again.
+ */
+export function findResolvedTasks(tasks: InsightTask[], analysis: HistoryAnalysis): InsightTask[] {
+  if (!analysis.url || analysis.incomplete || getItemMode(analysis) !== "scan") return [];
+  const page = normalizeUrl(analysis.url);
+  const reported = new Set(collectInsights(analysis).map(normalizeInsight));
+  return tasks.filter(
+    (task) =>
+      task.status !== "done" &&
+      task.url !== undefined &&
+      normalizeUrl(task.url) === page &&
+      task.analysisId !== analysis.id &&
+      task.createdAt < analysis.createdAt &&
+      task.keptOpenFor !== analysis.id &&
+      !reported.has(normalizeInsight(task.insight))
+  );
+}
+
+export function createTaskStore(area: StorageArea): TaskStore {
+  const store = createListStore<InsightTask>(area, STORAGE_KEY);
+  const patchWhere = (matches: (task: InsightTask) => boolean, patch: Partial<InsightTask>) =>
+    store.change((tasks) => tasks.map((task) => (matches(task) ? { ...task, ...patch, updatedAt: Date.now() } : task)));
+
+  return {
+    list: store.list,
+    add: (task) => store.change((tasks) => [task, ...tasks]),
+    update: (id, patch) => patchWhere((task) => task.id === id, patch),
+    updateMany: (ids, patch) => patchWhere((task) => ids.includes(task.id), patch),
+    remove: (id) => store.change((tasks) => tasks.filter((task) => task.id !== id)),
+    subscribe: store.subscribe,
+  };
+}
+
+export const taskStore = createTaskStore(getDefaultStorageArea());
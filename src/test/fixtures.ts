@@ -0,0 +1,54 @@
+import type { HistoryAnalysis } from "../HistoryPage";
+import type { PageContent } from "../pageContent";
+
+export function samplePage(overrides: Partial<PageContent> = {}): PageContent {
+  return {
+    schema_version: 3,
+    url: "https://example.com/pricing",
+    lang: "en",
+    title: "Pricing | Example",
+    meta_description: "Simple plans for growing teams.",
+    canonical_url: "https://example.com/pricing",
+    robots: "index, follow",
+    open_graph: {},
+    twitter_card: {},
+    structured_data: [],
+    structured_data_types: [],
+    hreflang: [],
+    headings: ["Pricing", "Plans"],
+    heading_outline: [
+      { level: 1, text: "Pricing" },
+      { level: 2, text: "Plans" },
+    ],
+    body_text: "Start free. Contact jane@example.com for enterprise plans.",
+    word_count: 9,
+    cta_texts: ["Start free trial"],
+    images: { total: 1, with_alt: 1, empty_alt: 0, missing_alt: 0, missing_alt_src: [] },
+    links: { total: 4, internal: 3, external: 1, nofollow: 0 },
+    forms: [],
+    pricing: { detected: true, plan_names: ["Starter"], prices: ["$9"] },
+    social_links: [],
+    social_profiles: [],
+    elements: [
+      { kind: "heading", selector: "h1", text: "Pricing", level: 1 },
+      { kind: "cta", selector: "a.cta", text: "Start free trial" },
+    ],
+    ...overrides,
+  };
+}
+
+export function sampleEntry(overrides: Partial<HistoryAnalysis> = {}): HistoryAnalysis {
+  return {
+    id: "entry-1",
+    createdAt: Date.UTC(2026, 0, 1),
+    url: "https://example.com/pricing",
+    overview: "A clear pricing page.",
+    score: { value: 7.5 },
+    conversion_scores: { clarity: 80, trust: 60 },
+    pricing_analysis: {},
+    insights: { quick_fixes: ["Add testimonials near the plans."] },
+    sections: [],
+    verdicts: {},
+    ...overrides,
+  };
+}
@@ -0,0 +1,77 @@
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type RecordedRequest = {
+  method: string;
+  path: string;
+  headers: IncomingMessage["headers"];
+  body: string;
+};
+
+/**
+ * What a route answers with. A string body is written as is (for streams and
+ * malformed payloads), anything else as JSON. `null` never answers, to
+ * simulate a backend that hangs.
+ */
+export type MockResponse = { status?: number; headers?: Record<string, string>; body?: unknown } | null;
+
+type Handler = (request: RecordedRequest) => MockResponse;
+
+export type MockServer = {
+  url: string;
+  /** Every request received, in order. */
+  requests: RecordedRequest[];
+  on(method: string, path: string, handler: Handler | MockResponse): void;
+  /** Forgets routes and recorded requests between specs. */
+  reset(): void;
+  close(): Promise<void>;
+};
+
+/** A local HTTP server for specs that exercise real `fetch` calls. Unrouted requests get a 404. */
+export async function startMockServer(): Promise<MockServer> {
+  const routes = new Map<string, Handler>();
+  const requests: RecordedRequest[] = [];
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const recorded: RecordedRequest = {
+        method: req.method ?? "GET",
+        path: req.url ?? "/",
+        headers: req.headers,
+        body: Buffer.concat(chunks).toString("utf8"),
+      };
+      requests.push(recorded);
+      const handler = routes.get(`${recorded.method} ${recorded.path.split("?")[0]}`);
+      const response = handler ? handler(recorded) : { status: 404, body: { detail: "Not found" } };
+      if (response === null) return;
+
+      const isText = typeof response.body === "string";
+      res.writeHead(response.status ?? 200, {
+        "Content-Type": isText ? "text/plain" : "application/json",
+        ...response.headers,
+      });
+      res.end(isText ? (response.body as string) : JSON.stringify(response.body ?? {}));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    on(method, path, handler) {
+      routes.set(`${method} ${path}`, typeof handler === "function" ? handler : () => handler);
+    },
+    reset() {
+      routes.clear();
+      requests.length = 0;
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { newTask } from "./tasks";
+import { sampleEntry } from "./test/fixtures";
+import { findingRows, toJiraCsv, toLinearCsv, type TrackerRow } from "./trackerExport";
+
+const row = (overrides: Partial<TrackerRow> = {}): TrackerRow => ({
+  title: "Add testimonials",
+  description: "Add testimonials near the plans.",
+  labels: ["rook-lite", "quick-fixes"],
+  ...overrides,
+});
+
+describe("findingRows", () => {
+  it("carries the task fields of tracked findings", () => {
+    const entry = sampleEntry({ insights: { "Quick Fixes": ["Add testimonials near the plans."] } });
+    const task = { ...newTask(entry, "Quick Fixes", "Add testimonials near the plans"), priority: "high" as const };
+
+    const [finding] = findingRows([entry], [task]);
+
+    expect(finding).toMatchObject({ priority: "high", status: "todo", labels: ["rook-lite", "quick-fixes"] });
+  });
+
+  it("keeps non-ASCII letters in labels", () => {
+    const entry = sampleEntry({ insights: { "Schnelle Lösungen": ["Preise klarer zeigen."] } });
+
+    expect(findingRows([entry], [])[0].labels).toEqual(["rook-lite", "schnelle-lösungen"]);
+  });
+});
+
+describe("CSV export", () => {
+  it("quotes cells with commas, quotes and line breaks", () => {
+    const csv = toLinearCsv([row({ description: 'Line one, "quoted"\nline two' })]);
+
+    expect(csv.split("\r\n")[1]).toBe(
+      'Add testimonials,"Line one, ""quoted""\nline two",No priority,Todo,,"rook-lite,quick-fixes"'
+    );
+  });
+
+  it.each(["=HYPERLINK(\"https://evil.test\")", "+1+1", "-2+3", "@SUM(A1)", "\tcmd", "\rcmd"])(
+    "neutralises the formula in %j",
+    (title) => {
+      const [, line] = toJiraCsv([row({ title })]).split("\r\n");
+
+      expect(line.replace(/^"/, "")).toMatch(/^'/);
+    }
+  );
+
+  it("repeats the Jira label column for the longest label list", () => {
+    const [header] = toJiraCsv([row(), row({ labels: ["a", "b", "c"] })]).split("\r\n");
+
+    expect(header).toBe("Summary,Issue Type,Priority,Assignee,Description,Labels,Labels,Labels");
+  });
+});
@@ -0,0 +1,137 @@
+import { extractInsights, getAnalysisName, normalizeInsight } from "./analysisModel";
+import type { HistoryAnalysis } from "./HistoryPage";
+import { toOverallScore, toTitleCase } from "./scoring";
+import type { InsightTask, TaskPriority, TaskStatus } from "./tasks";
+
+/** One issue for an external tracker, built from a finding or a verdict. */
+export type TrackerRow = {
+  title: string;
+  description: string;
+  priority?: TaskPriority;
+  status?: TaskStatus;
+  assignee?: string;
+  labels: string[];
+};
+
+const MAX_TITLE_LENGTH = 255;
+
+function toTitle(text: string): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 1)}…` : line;
+}
+
+/** Tracker labels cannot contain spaces, so "Quick Fixes" becomes `quick-fixes`. */
+function toLabel(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function describeSource(item: HistoryAnalysis): string[] {
+  return [
+    item.url ? `Page: ${item.url}` : "",
+    `Analysis: ${getAnalysisName(item)} (score ${toOverallScore(item.score)}/100)`,
+    `Scanned: ${new Date(item.createdAt).toISOString()}`,
+  ].filter(Boolean);
+}
+
+function taskFields(task: InsightTask | undefined): Pick<TrackerRow, "priority" | "status" | "assignee"> {
+  if (!task) return {};
+  return { priority: task.priority, status: task.status, assignee: task.assignee || undefined };
+}
+
+/**
+ * Every insight and verdict of `items` as tracker issues. A finding that was
+ * already turned into a task carries the task's priority, status, assignee
+ * and notes.
+ */
+export function findingRows(items: HistoryAnalysis[], tasks: InsightTask[]): TrackerRow[] {
+  return items.flatMap((item) => {
+    const tracked = new Map(
+      tasks.filter((task) => task.analysisId === item.id).map((task) => [normalizeInsight(task.insight), task])
+    );
+    const findings = extractInsights(item).flatMap((section) =>
+      section.items.map((insight): TrackerRow => {
+        const task = tracked.get(normalizeInsight(insight));
+        return {
+          title: toTitle(insight),
+          description: [
+            insight,
+            "",
+            `Section: ${section.title}`,
+            ...describeSource(item),
+            ...(task?.notes ? ["", `Notes: ${task.notes}`] : []),
+          ].join("\n"),
+          ...taskFields(task),
+          labels: ["rook-lite", toLabel(section.title)],
+        };
+      })
+    );
+    const verdicts = Object.entries(item.verdicts)
+      .filter(([, text]) => Boolean(text?.trim()))
+      .map(
+        ([key, text]): TrackerRow => ({
+          title: toTitle(`${toTitleCase(key)} verdict: ${text}`),
+          description: [text, "", ...describeSource(item)].join("\n"),
+          labels: ["rook-lite", "verdict"],
+        })
+      );
+    return [...findings, ...verdicts];
+  });
+}
+
+/**
+ * Spreadsheet apps run a cell that starts with one of these as a formula, so
+ * such cells get a leading `'` and open as plain text (CSV injection).
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: string): string {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n");
+}
+
+const JIRA_PRIORITIES: Record<TaskPriority, string> = { high: "High", medium: "Medium", low: "Low" };
+
+/**
+ * Jira's CSV importer reads one label per column, so the Labels header repeats
+ * as often as the longest label list needs.
+ */
+export function toJiraCsv(rows: TrackerRow[]): string {
+  const labelColumns = Math.max(1, ...rows.map((row) => row.labels.length));
+  const header = ["Summary", "Issue Type", "Priority", "Assignee", "Description", ...Array(labelColumns).fill("Labels")];
+  return toCsv([
+    header,
+    ...rows.map((row) => [
+      row.title,
+      "Task",
+      JIRA_PRIORITIES[row.priority ?? "medium"],
+      row.assignee ?? "",
+      row.description,
+      ...Array.from({ length: labelColumns }, (_, index) => row.labels[index] ?? ""),
+    ]),
+  ]);
+}
+
+const LINEAR_PRIORITIES: Record<TaskPriority, string> = { high: "High", medium: "Medium", low: "Low" };
+const LINEAR_STATUSES: Record<TaskStatus, string> = { todo: "Todo", doing: "In Progress", done: "Done" };
+
+/** Columns of Linear's CSV import; labels share one comma-separated cell. */
+export function toLinearCsv(rows: TrackerRow[]): string {
+  return toCsv([
+    ["Title", "Description", "Priority", "Status", "Assignee", "Labels"],
+    ...rows.map((row) => [
+      row.title,
+      row.description,
+      row.priority ? LINEAR_PRIORITIES[row.priority] : "No priority",
+      LINEAR_STATUSES[row.status ?? "todo"],
+      row.assignee ?? "",
+      row.labels.join(","),
+    ]),
+  ]);
+}
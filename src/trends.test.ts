@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { sampleEntry } from "./test/fixtures";
+import { buildSeries, diffAnalyses, groupByPage, normalizeUrl } from "./trends";
+
+describe("normalizeUrl", () => {
+  it.each([
+    ["https://example.com/pricing/", "example.com/pricing"],
+    ["https://WWW.Example.com/pricing#plans", "example.com/pricing"],
+    ["https://example.com/pricing?utm_source=news&gclid=1&ref=x", "example.com/pricing"],
+    ["https://example.com/pricing?b=2&a=1", "example.com/pricing?a=1&b=2"],
+    ["https://example.com/", "example.com"],
+    ["  Not A URL/ ", "not a url"],
+  ])("reduces %j to %j", (url, key) => {
+    expect(normalizeUrl(url)).toBe(key);
+  });
+
+  it("keeps query parameters that select different content", () => {
+    expect(normalizeUrl("https://example.com/search?q=a")).not.toBe(normalizeUrl("https://example.com/search?q=b"));
+  });
+});
+
+describe("groupByPage", () => {
+  it("groups scans of one page, oldest run first and the latest scanned page first", () => {
+    const history = [
+      sampleEntry({ id: "a", url: "https://example.com/pricing", createdAt: 3 }),
+      sampleEntry({ id: "b", url: "https://example.com/", createdAt: 4 }),
+      sampleEntry({ id: "c", url: "https://www.example.com/pricing/#faq", createdAt: 1 }),
+    ];
+
+    const groups = groupByPage(history);
+
+    expect(groups.map((group) => group.key)).toEqual(["example.com", "example.com/pricing"]);
+    expect(groups[1].runs.map((run) => run.id)).toEqual(["c", "a"]);
+  });
+
+  it("leaves out entries without a URL and other modes", () => {
+    const history = [
+      sampleEntry({ id: "scan" }),
+      sampleEntry({ id: "no-url", url: undefined }),
+      sampleEntry({ id: "compare", mode: "compare" }),
+      sampleEntry({ id: "batch", mode: "batch" }),
+    ];
+
+    expect(groupByPage(history).flatMap((group) => group.runs.map((run) => run.id))).toEqual(["scan"]);
+  });
+});
+
+describe("buildSeries", () => {
+  it("plots the overall score and each metric in run order", () => {
+    const runs = [
+      sampleEntry({ id: "a", createdAt: 1, score: { value: 6 }, conversion_scores: { trust: 40, clarity: 50 } }),
+      sampleEntry({ id: "b", createdAt: 2, score: { value: 80 }, conversion_scores: { trust: 70, clarity: 90 } }),
+    ];
+
+    const series = buildSeries(runs);
+
+    expect(series.map((line) => line.key)).toEqual(["overall", "clarity", "trust"]);
+    expect(series[0].points.map((point) => point.value)).toEqual([60, 80]);
+    expect(series[1].points).toEqual([
+      { id: "a", createdAt: 1, value: 50 },
+      { id: "b", createdAt: 2, value: 90 },
+    ]);
+  });
+
+  it("leaves gaps where a metric was added or removed between runs", () => {
+    const runs = [
+      sampleEntry({ id: "a", conversion_scores: { clarity: 50, urgency: 30 } }),
+      sampleEntry({ id: "b", conversion_scores: { clarity: 60, trust: 70 } }),
+    ];
+
+    const values = Object.fromEntries(
+      buildSeries(runs).map((line) => [line.key, line.points.map((point) => point.value)])
+    );
+
+    expect(values).toEqual({
+      overall: [75, 75],
+      clarity: [50, 60],
+      trust: [null, 70],
+      urgency: [30, null],
+    });
+  });
+});
+
+describe("diffAnalyses", () => {
+  it("reports the score change and the insights that appeared or were resolved", () => {
+    const previous = sampleEntry({
+      score: { value: 6 },
+      insights: { quick_fixes: ["Add testimonials near the plans.", "Shorten the hero copy."] },
+    });
+    const current = sampleEntry({
+      score: { value: 7 },
+      insights: { quick_fixes: ["add testimonials near the plans", "Show prices in euros."] },
+    });
+
+    expect(diffAnalyses(previous, current)).toEqual({
+      scoreDelta: 10,
+      added: ["Show prices in euros."],
+      resolved: ["Shorten the hero copy."],
+      verdicts: [],
+    });
+  });
+
+  it("lists verdicts that changed, ignoring surrounding whitespace", () => {
+    const previous = sampleEntry({ verdicts: { marketing: "Solid.", strategic: "Expand." } });
+    const current = sampleEntry({ verdicts: { marketing: " Solid. ", strategic: undefined } });
+
+    expect(diffAnalyses(previous, current).verdicts).toEqual([
+      { key: "strategic", label: "Strategic Verdict", before: "Expand.", after: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+import { collectInsights, getItemMode, normalizeInsight } from "./analysisModel";
+import type { HistoryAnalysis } from "./HistoryPage";
+import { describeMetric, orderKeys, scaleMetrics } from "./metricRegistry";
+import { toOverallScore, toTitleCase } from "./scoring";
+
+export type PageTrend = {
+  key: string;
+  url: string;
+  /** Scan runs for this page, oldest first. */
+  runs: HistoryAnalysis[];
+};
+
+export type TrendPoint = {
+  id: string;
+  createdAt: number;
+  value: number | null;
+};
+
+export type TrendSeries = {
+  key: string;
+  label: string;
+  points: TrendPoint[];
+};
+
+export type VerdictChange = {
+  key: "marketing" | "strategic";
+  label: string;
+  before?: string;
+  after?: string;
+};
+
+export type ScanDiff = {
+  scoreDelta: number;
+  added: string[];
+  resolved: string[];
+  verdicts: VerdictChange[];
+};
+
+const TRACKING_PARAMS = /^(utm_\w+|gclid|fbclid|mc_cid|mc_eid|ref)$/i;
+
+/**
+ * Reduces a URL to the page it identifies: lowercased host without `www.`,
+ * no hash, no tracking parameters and no trailing slash.
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const params = [...parsed.searchParams.entries()]
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = new URLSearchParams(params).toString();
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+    const path = parsed.pathname.replace(/\/+$/, "");
+    return `${host}${path}${query ? `?${query}` : ""}`;
+  } catch {
+    return url.trim().toLowerCase().replace(/\/+$/, "");
+  }
+}
+
+/** Groups scan history by normalised URL, most recently scanned page first. */
+export function groupByPage(history: HistoryAnalysis[]): PageTrend[] {
+  const groups = new Map<string, PageTrend>();
+  history.forEach((item) => {
+    if (!item.url || getItemMode(item) !== "scan") return;
+    const key = normalizeUrl(item.url);
+    const group = groups.get(key) ?? { key, url: item.url, runs: [] };
+    group.runs.push(item);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values())
+    .map((group) => ({ ...group, runs: [...group.runs].sort((a, b) => a.createdAt - b.createdAt) }))
+    .sort((a, b) => b.runs[b.runs.length - 1].createdAt - a.runs[a.runs.length - 1].createdAt);
+}
+
+export function buildSeries(runs: HistoryAnalysis[]): TrendSeries[] {
+  const overall: TrendSeries = {
+    key: "overall",
+    label: "Overall",
+    points: runs.map((run) => ({ id: run.id, createdAt: run.createdAt, value: toOverallScore(run.score) })),
+  };
+
+  const scaled = runs.map(
+    (run) => new Map(scaleMetrics(run.conversion_scores).map((metric) => [metric.key, metric.value]))
+  );
+  const metricKeys = orderKeys(
+    Array.from(new Set(scaled.flatMap((values) => Array.from(values.keys())))),
+    describeMetric
+  );
+  const metrics = metricKeys.map((key) => ({
+    key,
+    label: describeMetric(key).label,
+    points: runs.map((run, index) => ({ id: run.id, createdAt: run.createdAt, value: scaled[index].get(key) ?? null })),
+  }));
+
+  return [overall, ...metrics];
+}
+
+function uniqueByKey(items: string[]): Map<string, string> {
+  const byKey = new Map<string, string>();
+  items.forEach((item) => {
+    const key = normalizeInsight(item);
+    if (key && !byKey.has(key)) byKey.set(key, item);
+  });
+  return byKey;
+}
+
+/** Describes what changed between two runs of the same page. */
+export function diffAnalyses(previous: HistoryAnalysis, current: HistoryAnalysis): ScanDiff {
+  const before = uniqueByKey(collectInsights(previous));
+  const after = uniqueByKey(collectInsights(current));
+
+  const verdicts: VerdictChange[] = (["marketing", "strategic"] as const)
+    .map((key) => ({
+      key,
+      label: `${toTitleCase(key)} Verdict`,
+      before: previous.verdicts[key],
+      after: current.verdicts[key],
+    }))
+    .filter((change) => (change.before ?? "").trim() !== (change.after ?? "").trim());
+
+  return {
+    scoreDelta: toOverallScore(current.score) - toOverallScore(previous.score),
+    added: [...after].filter(([key]) => !before.has(key)).map(([, text]) => text),
+    resolved: [...before].filter(([key]) => !after.has(key)).map(([, text]) => text),
+    verdicts,
+  };
+}
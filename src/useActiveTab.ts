@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+
+/** The active tab of this page's window, kept current as the user switches tabs or navigates. */
+export function useActiveTab(): chrome.tabs.Tab | null {
+  const [tab, setTab] = useState<chrome.tabs.Tab | null>(null);
+
+  useEffect(() => {
+    if (typeof chrome === "undefined" || !chrome.tabs) return;
+
+    let active = true;
+    const refresh = () => {
+      chrome.tabs.query({ active: true, currentWindow: true }).then(
+        ([current]) => {
+          if (active) setTab(current ?? null);
+        },
+        () => undefined
+      );
+    };
+    const onUpdated = (_tabId: number, info: { url?: string; status?: string; title?: string }, updated: chrome.tabs.Tab) => {
+      if (updated.active && (info.url || info.title || info.status === "complete")) refresh();
+    };
+
+    refresh();
+    chrome.tabs.onActivated.addListener(refresh);
+    chrome.tabs.onUpdated.addListener(onUpdated);
+    return () => {
+      active = false;
+      chrome.tabs.onActivated.removeListener(refresh);
+      chrome.tabs.onUpdated.removeListener(onUpdated);
+    };
+  }, []);
+
+  return tab;
+}
@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  JOB_PORT_NAME,
+  type JobEvent,
+  type JobParams,
+  type JobRequest,
+  type JobState,
+  type JobSurface,
+} from "./jobProtocol";
+
+type JobHandlers = {
+  /** The page using the hook; jobs it starts are tagged with it. */
+  surface: JobSurface;
+  /** Called for every job that settles, whichever page started it. */
+  onSettled: (job: JobState) => void;
+  onRejected: (message: string) => void;
+};
+
+/**
+ * Attaches to the background worker's job port. The worker replays the
+ * current job on connect, so a reopened popup picks up where it left off.
+ */
+export function useAnalysisJob(handlers: JobHandlers) {
+  const [job, setJob] = useState<JobState | null>(null);
+  const portRef = useRef<chrome.runtime.Port | null>(null);
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (typeof chrome === "undefined" || !chrome.runtime?.connect) return;
+
+    const port = chrome.runtime.connect({ name: JOB_PORT_NAME });
+    portRef.current = port;
+    port.onMessage.addListener((event: JobEvent) => {
+      if (event.type === "JOB_REJECTED") {
+        handlersRef.current.onRejected(event.message);
+        return;
+      }
+      setJob(event.job);
+      const stage = event.job?.stage;
+      if (event.job && (stage === "done" || stage === "queued" || stage === "error" || stage === "cancelled")) {
+        handlersRef.current.onSettled(event.job);
+      }
+    });
+
+    return () => {
+      port.disconnect();
+      portRef.current = null;
+    };
+  }, []);
+
+  const send = (request: JobRequest) => {
+    if (!portRef.current) {
+      handlersRef.current.onRejected("The background worker is not available.");
+      return;
+    }
+    portRef.current.postMessage(request);
+  };
+
+  return {
+    job,
+    start: (params: JobParams) => send({ type: "START_JOB", params, surface: handlersRef.current.surface }),
+    cancel: () => job && send({ type: "CANCEL_JOB", jobId: job.id }),
+    dismiss: (jobId: string) => send({ type: "DISMISS_JOB", jobId }),
+  };
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import { authStore, type AuthTokens } from "./auth";
+
+type AuthSession = {
+  /** False until stored tokens have been read. */
+  ready: boolean;
+  tokens: AuthTokens | null;
+};
+
+/** The stored auth session, updated when any extension page signs in or out. */
+export function useAuth(): AuthSession {
+  const [session, setSession] = useState<AuthSession>({ ready: false, tokens: null });
+
+  useEffect(() => {
+    let active = true;
+    authStore
+      .get()
+      .then((tokens) => {
+        if (active) setSession({ ready: true, tokens });
+      })
+      .catch(() => {
+        if (active) setSession({ ready: true, tokens: null });
+      });
+    const unsubscribe = authStore.subscribe((tokens) => setSession({ ready: true, tokens }));
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return session;
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react";
+import type { ListStore } from "./storage";
+
+/** The items of `store`, loaded on mount and replaced whenever the stored list changes. */
+export function useListStore<T>(store: Pick<ListStore<T>, "list" | "subscribe">): T[] {
+  const [items, setItems] = useState<T[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    store
+      .list()
+      .then((stored) => {
+        if (active) setItems(stored);
+      })
+      .catch(() => undefined);
+    const unsubscribe = store.subscribe(setItems);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [store]);
+
+  return items;
+}
@@ -0,0 +1,7 @@
+import { requestQueue, type QueuedRequest } from "./requestQueue";
+import { useListStore } from "./useListStore";
+
+/** Requests waiting for the backend, kept in sync with the background worker. */
+export function useRequestQueue(): QueuedRequest[] {
+  return useListStore(requestQueue);
+}
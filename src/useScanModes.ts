@@ -0,0 +1,7 @@
+import { scanModeStore, type CustomScanMode } from "./scanModes";
+import { useListStore } from "./useListStore";
+
+/** The user's custom scan modes, kept in sync with edits made from any extension page. */
+export function useScanModes(): CustomScanMode[] {
+  return useListStore(scanModeStore);
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react";
+import { DEFAULT_SETTINGS, settingsStore, type Settings } from "./settings";
+
+/** Current settings, kept in sync with changes made from any extension page. */
+export function useSettings(): Settings {
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+
+  useEffect(() => {
+    let active = true;
+    settingsStore
+      .get()
+      .then((stored) => {
+        if (active) setSettings(stored);
+      })
+      .catch(() => undefined);
+    const unsubscribe = settingsStore.subscribe(setSettings);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return settings;
+}
@@ -0,0 +1,7 @@
+import { taskStore, type InsightTask } from "./tasks";
+import { useListStore } from "./useListStore";
+
+/** Tasks created from insights, kept in sync across extension pages. */
+export function useTasks(): InsightTask[] {
+  return useListStore(taskStore);
+}
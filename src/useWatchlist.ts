@@ -0,0 +1,7 @@
+import { watchStore, type WatchedPage } from "./watchlist";
+import { useListStore } from "./useListStore";
+
+/** Watched pages and their last runs, kept in sync with the background worker. */
+export function useWatchlist(): WatchedPage[] {
+  return useListStore(watchStore);
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { sampleEntry, samplePage } from "./test/fixtures";
+import { baselineFor, findRegressions, findWatch, newWatchedPage, type WatchBaseline } from "./watchlist";
+
+const baseline = (overrides: Partial<WatchBaseline> = {}): WatchBaseline => ({
+  score: 80,
+  metrics: { clarity: 80, trust: 60 },
+  snapshot: { title: "Pricing | Example", meta_description: "Simple plans.", h1: "Pricing" },
+  ...overrides,
+});
+
+describe("findRegressions", () => {
+  it("reports nothing when the page held steady", () => {
+    expect(findRegressions(baseline(), baseline(), 10)).toEqual([]);
+  });
+
+  it("alerts on a score drop beyond the threshold but not at it", () => {
+    expect(findRegressions(baseline(), baseline({ score: 70 }), 10)).toEqual([]);
+    expect(findRegressions(baseline(), baseline({ score: 69 }), 10)).toEqual(["Score dropped from 80 to 69."]);
+  });
+
+  it("alerts on metric drops beyond the threshold", () => {
+    const current = baseline({ metrics: { clarity: 70, trust: 49 } });
+
+    expect(findRegressions(baseline(), current, 10)).toEqual(["Trust dropped from 60 to 49."]);
+  });
+
+  it("skips metrics the previous run did not measure", () => {
+    const current = baseline({ metrics: { clarity: 80, trust: 60, urgency: 5 } });
+
+    expect(findRegressions(baseline(), current, 10)).toEqual([]);
+  });
+
+  it("reports every change to the title, meta description and h1", () => {
+    const current = baseline({ snapshot: { title: "Plans | Example", meta_description: "", h1: "Plans" } });
+
+    expect(findRegressions(baseline(), current, 10)).toEqual([
+      'Title changed to "Plans | Example".',
+      'Meta description changed to "(empty)".',
+      'H1 changed to "Plans".',
+    ]);
+  });
+});
+
+describe("baselineFor", () => {
+  it("records the scaled score and metrics with the page's first h1", () => {
+    const entry = sampleEntry({ score: { value: 7.5 }, conversion_scores: { clarity: 80, proof: 6 } });
+    const page = samplePage({
+      title: " Pricing ",
+      heading_outline: [
+        { level: 2, text: "Plans" },
+        { level: 1, text: "Pricing" },
+      ],
+    });
+
+    expect(baselineFor(entry, page)).toEqual({
+      score: 75,
+      metrics: { clarity: 80, proof: 60 },
+      snapshot: { title: "Pricing", meta_description: "Simple plans for growing teams.", h1: "Pricing" },
+    });
+  });
+});
+
+describe("findWatch", () => {
+  it("finds a watched page by its normalised URL", () => {
+    const watched = newWatchedPage("https://example.com/pricing", "Marketing Audit");
+
+    expect(findWatch([watched], "https://www.example.com/pricing/#plans")).toBe(watched);
+    expect(findWatch([watched], "https://example.com/about")).toBeUndefined();
+  });
+});
@@ -0,0 +1,164 @@
+import type { HistoryAnalysis } from "./HistoryPage";
+import { describeMetric, scaleMetrics } from "./metricRegistry";
+import type { PageContent } from "./pageContent";
+import { toOverallScore } from "./scoring";
+import { createListStore, getDefaultStorageArea, type StorageArea } from "./storage";
+import { normalizeUrl } from "./trends";
+
+const STORAGE_KEY = "watchlist";
+export const WATCH_ALARM = "rook-lite-watch";
+export const RUN_WATCHLIST_MESSAGE = "RUN_WATCHLIST";
+
+export type WatchFrequency = "daily" | "weekly";
+
+export const WATCH_FREQUENCIES: Array<{ value: WatchFrequency; label: string }> = [
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+];
+
+const FREQUENCY_MS: Record<WatchFrequency, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** Points on the 0-100 scale the score or a metric may drop between runs before it counts as a regression. */
+export const DEFAULT_WATCH_THRESHOLD = 10;
+
+/** The on-page text a run compares against the previous one. */
+export type PageSnapshot = {
+  title: string;
+  meta_description: string;
+  h1: string;
+};
+
+export type WatchRunStatus = "ok" | "regressed" | "failed";
+
+export type WatchRun = {
+  at: number;
+  status: WatchRunStatus;
+  /** History entry the run saved; absent when it failed. */
+  entryId?: string;
+  score?: number;
+  alerts: string[];
+  error?: string;
+};
+
+/** What the latest successful run measured, kept to spot regressions on the next one. */
+export type WatchBaseline = {
+  score: number;
+  metrics: Record<string, number>;
+  snapshot: PageSnapshot;
+};
+
+export type WatchedPage = {
+  id: string;
+  createdAt: number;
+  url: string;
+  mode: string;
+  frequency: WatchFrequency;
+  threshold: number;
+  nextRunAt: number;
+  baseline?: WatchBaseline;
+  lastRun?: WatchRun;
+};
+
+type WatchListener = (pages: WatchedPage[]) => void;
+
+export type WatchStore = {
+  list(): Promise<WatchedPage[]>;
+  add(page: WatchedPage): Promise<void>;
+  update(id: string, patch: Partial<WatchedPage>): Promise<void>;
+  remove(id: string): Promise<void>;
+  subscribe(listener: WatchListener): () => void;
+};
+
+export function nextRunTime(frequency: WatchFrequency, from: number): number {
+  return from + FREQUENCY_MS[frequency];
+}
+
+/** A new watch is due at once: its first run records the baseline later runs are compared with. */
+export function newWatchedPage(url: string, mode: string, frequency: WatchFrequency = "daily"): WatchedPage {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    createdAt: now,
+    url,
+    mode,
+    frequency,
+    threshold: DEFAULT_WATCH_THRESHOLD,
+    nextRunAt: now,
+  };
+}
+
+export function findWatch(pages: WatchedPage[], url: string): WatchedPage | undefined {
+  const key = normalizeUrl(url);
+  return pages.find((page) => normalizeUrl(page.url) === key);
+}
+
+export function snapshotPage(page: PageContent): PageSnapshot {
+  return {
+    title: page.title.trim(),
+    meta_description: page.meta_description.trim(),
+    h1: page.heading_outline.find((heading) => heading.level === 1)?.text.trim() ?? "",
+  };
+}
+
+export function baselineFor(entry: HistoryAnalysis, page: PageContent): WatchBaseline {
+  return {
+    score: toOverallScore(entry.score),
+    metrics: Object.fromEntries(scaleMetrics(entry.conversion_scores).map(({ key, value }) => [key, value])),
+    snapshot: snapshotPage(page),
+  };
+}
+
+const SNAPSHOT_LABELS: Record<keyof PageSnapshot, string> = {
+  title: "Title",
+  meta_description: "Meta description",
+  h1: "H1",
+};
+
+/**
+ * What got worse between two runs: the score or a metric falling by more than
+ * `threshold` points, and any change to the title, meta description or h1.
+ */
+export function findRegressions(previous: WatchBaseline, current: WatchBaseline, threshold: number): string[] {
+  const alerts: string[] = [];
+  if (previous.score - current.score > threshold) {
+    alerts.push(`Score dropped from ${previous.score} to ${current.score}.`);
+  }
+  Object.entries(current.metrics).forEach(([key, value]) => {
+    const before = previous.metrics[key];
+    if (before !== undefined && before - value > threshold) {
+      alerts.push(`${describeMetric(key).label} dropped from ${before} to ${value}.`);
+    }
+  });
+  (Object.keys(SNAPSHOT_LABELS) as Array<keyof PageSnapshot>).forEach((key) => {
+    if (previous.snapshot[key] !== current.snapshot[key]) {
+      alerts.push(`${SNAPSHOT_LABELS[key]} changed to "${current.snapshot[key] || "(empty)"}".`);
+    }
+  });
+  return alerts;
+}
+
+export function createWatchStore(area: StorageArea): WatchStore {
+  const store = createListStore<WatchedPage>(area, STORAGE_KEY);
+
+  return {
+    list: store.list,
+    add: (page) => store.change((pages) => [page, ...pages]),
+    update: (id, patch) =>
+      store.change((pages) => pages.map((page) => (page.id === id ? { ...page, ...patch } : page))),
+    remove: (id) => store.change((pages) => pages.filter((page) => page.id !== id)),
+    subscribe: store.subscribe,
+  };
+}
+
+export const watchStore = createWatchStore(getDefaultStorageArea());
+
+/** Asks the background worker to re-plan its alarm, and with `runId` to check that page right away. */
+export async function notifyWatchlist(runId?: string): Promise<void> {
+  if (runId) await watchStore.update(runId, { nextRunAt: Date.now() });
+  if (typeof chrome !== "undefined" && chrome.runtime?.sendMessage) {
+    await chrome.runtime.sendMessage({ type: RUN_WATCHLIST_MESSAGE }).catch(() => undefined);
+  }
+}
@@ -0,0 +1,75 @@
+import { createHmac } from "node:crypto";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS, settingsStore } from "./settings";
+import { sampleEntry } from "./test/fixtures";
+import { startMockServer, type MockServer } from "./test/mockServer";
+import {
+  EVENT_HEADER,
+  SIGNATURE_HEADER,
+  WebhookError,
+  buildWebhookPayload,
+  postWebhook,
+  sendToWebhook,
+} from "./webhook";
+
+let receiver: MockServer;
+
+beforeAll(async () => {
+  receiver = await startMockServer();
+});
+
+afterAll(() => receiver.close());
+
+beforeEach(() => receiver.reset());
+
+describe("postWebhook", () => {
+  it("signs the exact body it sends", async () => {
+    receiver.on("POST", "/hook", { status: 204 });
+
+    await postWebhook(`${receiver.url}/hook`, "s3cret", buildWebhookPayload(sampleEntry()));
+
+    const [received] = receiver.requests;
+    const expected = createHmac("sha256", "s3cret").update(received.body).digest("hex");
+    expect(received.headers[SIGNATURE_HEADER.toLowerCase()]).toBe(`sha256=${expected}`);
+    expect(received.headers[EVENT_HEADER.toLowerCase()]).toBe("analysis.exported");
+    expect(JSON.parse(received.body).analysis).toMatchObject({
+      id: "entry-1",
+      score: 75,
+      metrics: { clarity: 80, trust: 60 },
+      findings: [{ section: "Quick Fixes", text: "Add testimonials near the plans." }],
+    });
+  });
+
+  it("sends unsigned requests without a secret", async () => {
+    receiver.on("POST", "/hook", { status: 200 });
+
+    await postWebhook(`${receiver.url}/hook`, "", buildWebhookPayload(sampleEntry(), "webhook.test"));
+
+    expect(receiver.requests[0].headers[SIGNATURE_HEADER.toLowerCase()]).toBeUndefined();
+  });
+
+  it("reports receiver errors with their status", async () => {
+    receiver.on("POST", "/hook", { status: 500, body: "down" });
+
+    await expect(postWebhook(`${receiver.url}/hook`, "", buildWebhookPayload(sampleEntry()))).rejects.toEqual(
+      new WebhookError("Webhook responded with 500.", 500)
+    );
+  });
+});
+
+describe("sendToWebhook", () => {
+  it("posts each analysis to the configured webhook", async () => {
+    receiver.on("POST", "/hook", { status: 200 });
+    await settingsStore.save({ ...DEFAULT_SETTINGS, webhookUrl: `${receiver.url}/hook`, webhookSecret: "s3cret" });
+
+    await sendToWebhook([sampleEntry(), sampleEntry({ id: "entry-2" })]);
+
+    expect(receiver.requests.map((request) => JSON.parse(request.body).analysis.id)).toEqual(["entry-1", "entry-2"]);
+  });
+
+  it("asks for a webhook URL when none is set", async () => {
+    await settingsStore.save(DEFAULT_SETTINGS);
+
+    await expect(sendToWebhook([sampleEntry()])).rejects.toThrow("Set a webhook URL in Settings first.");
+  });
+});
@@ -0,0 +1,121 @@
+import { extractInsights, getAnalysisName, getItemMode } from "./analysisModel";
+import type { Verdicts } from "./api";
+import type { HistoryAnalysis } from "./HistoryPage";
+import { scaleMetrics } from "./metricRegistry";
+import { toOverallScore } from "./scoring";
+import { settingsStore } from "./settings";
+
+export type WebhookEvent = "analysis.exported" | "webhook.test";
+
+export type WebhookPayload = {
+  event: WebhookEvent;
+  sent_at: string;
+  analysis: {
+    id: string;
+    url?: string;
+    name: string;
+    mode: string;
+    scan_mode?: string;
+    created_at: string;
+    /** Overall score on the 0-100 scale. */
+    score: number;
+    /** Every metric converted to the 0-100 scale. */
+    metrics: Record<string, number>;
+    findings: Array<{ section: string; text: string }>;
+    verdicts: Verdicts;
+  };
+};
+
+export const SIGNATURE_HEADER = "X-Rook-Signature";
+export const EVENT_HEADER = "X-Rook-Event";
+
+export class WebhookError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "WebhookError";
+    this.status = status;
+  }
+}
+
+export function buildWebhookPayload(item: HistoryAnalysis, event: WebhookEvent = "analysis.exported"): WebhookPayload {
+  return {
+    event,
+    sent_at: new Date().toISOString(),
+    analysis: {
+      id: item.id,
+      url: item.url,
+      name: getAnalysisName(item),
+      mode: getItemMode(item),
+      scan_mode: item.scan_mode,
+      created_at: new Date(item.createdAt).toISOString(),
+      score: toOverallScore(item.score),
+      metrics: Object.fromEntries(scaleMetrics(item.conversion_scores).map(({ key, value }) => [key, value])),
+      findings: extractInsights(item).flatMap((section) =>
+        section.items.map((text) => ({ section: section.title, text }))
+      ),
+      verdicts: item.verdicts,
+    },
+  };
+}
+
+/** Hex HMAC-SHA256 of `body`, as sent in the signature header after `sha256=`. */
+export async function signPayload(body: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Posts `payload` to `url`. The signature covers the exact body bytes, so a
+ * receiver must verify it against the raw request body before parsing it.
+ */
+export async function postWebhook(url: string, secret: string, payload: WebhookPayload): Promise<void> {
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = { "Content-Type": "application/json", [EVENT_HEADER]: payload.event };
+  if (secret) headers[SIGNATURE_HEADER] = `sha256=${await signPayload(body, secret)}`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, { method: "POST", headers, body });
+  } catch {
+    throw new WebhookError(`Could not reach the webhook at ${url}.`);
+  }
+  if (!response.ok) throw new WebhookError(`Webhook responded with ${response.status}.`, response.status);
+}
+
+/** Sends each analysis to the webhook configured in Settings, one request per analysis. */
+export async function sendToWebhook(items: HistoryAnalysis[]): Promise<void> {
+  const settings = await settingsStore.get();
+  if (!settings.webhookUrl) throw new WebhookError("Set a webhook URL in Settings first.");
+  for (const item of items) {
+    await postWebhook(settings.webhookUrl, settings.webhookSecret, buildWebhookPayload(item));
+  }
+}
+
+/** A sample analysis for the Settings test button, so a receiver can be checked without scanning. */
+export function testWebhookPayload(): WebhookPayload {
+  return buildWebhookPayload(
+    {
+      id: "test",
+      createdAt: Date.now(),
+      url: "https://example.com/",
+      target_audience: "Rook Lite webhook test",
+      score: { value: 8.2 },
+      conversion_scores: { clarity: 80, trust: 70 },
+      pricing_analysis: {},
+      insights: { quick_fixes: ["This is a test finding."] },
+      sections: [],
+      verdicts: { marketing: "This is a test verdict." },
+    },
+    "webhook.test"
+  );
+}
@@ -9,13 +9,19 @@ export default defineConfig({
     rollupOptions: {
       input: {
         popup: "index.html",
-        content: "src/content.ts"
+        report: "report.html",
+        sidepanel: "sidepanel.html",
+        content: "src/content.ts",
+        background: "src/background.ts"
       },
       output: {
         entryFileNames: (chunk) => {
           if (chunk.name === "content") {
             return "content.js"; // 🔑 important
           }
+          if (chunk.name === "background") {
+            return "background.js";
+          }
           return "assets/[name]-[hash].js";
         }
       }